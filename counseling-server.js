@@ -11,9 +11,20 @@ const execFileAsync = promisify(execFile);
 
 const APP_PORT = Number(process.env.PORT || 17776);
 const ICS_PORT = Number(process.env.ICS_PORT || 17777);
+// The read/write API is for this machine only; other devices reach calendar.ics on ICS_PORT
+const APP_HOST = process.env.HOST || '127.0.0.1';
+// Browser origins allowed to call the API, i.e. wherever the web app is served from
+const ALLOWED_ORIGINS = new Set(
+  (process.env.ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+);
 const DATA_ROOT = path.join(__dirname, 'counseling-data');
 const FILES_ROOT = path.join(DATA_ROOT, 'files');
 const DB_PATH = path.join(DATA_ROOT, 'db.sqlite');
+// Calendar published by the web app, which applies its own privacy settings
+const PUBLISHED_ICS_PATH = path.join(DATA_ROOT, 'calendar.ics');
 
 const STATUS = {
   CLIENT: new Set(['Potential', 'Active', 'Paused', 'Closed', 'Referred']),
@@ -72,8 +83,19 @@ const formatIcsDate = (epochMs) => {
 
 const safeName = (s) => String(s || '').replace(/[\\/:*?"<>|]/g, '-').slice(0, 128) || 'untitled';
 
+// Ids end up in file paths, so only what uuid() and the web app generate is accepted
+const SAFE_ID = /^[A-Za-z0-9-]{1,64}$/;
+
+// Resolves a path (relative to FILES_ROOT, or absolute), refusing anything that escapes FILES_ROOT
+const resolveInFilesRoot = (filePath) => {
+  const absolutePath = path.resolve(FILES_ROOT, filePath);
+  if (!absolutePath.startsWith(FILES_ROOT + path.sep)) throw new Error(`path outside files root: ${filePath}`);
+  return absolutePath;
+};
+
 const ensureClientDirs = (clientId) => {
-  const base = path.join(FILES_ROOT, 'clients', clientId);
+  if (!SAFE_ID.test(clientId)) throw new Error(`invalid client id: ${clientId}`);
+  const base = resolveInFilesRoot(path.join('clients', clientId));
   const dirs = {
     base,
     sessions: path.join(base, 'sessions'),
@@ -175,6 +197,91 @@ const createSessionNoteForAppointment = async (appointmentId) => {
   return { id, path: relativePath };
 };
 
+const addColumnIfMissing = async (table, column, type) => {
+  const columns = await all(`PRAGMA table_info(${table})`);
+  if (!columns.some((c) => c.name === column)) await run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+};
+
+// Tables the web app syncs, keyed by the record kind used in its sync queue
+const SYNC_TABLES = {
+  clients: 'clients',
+  appointments: 'appointments',
+  recurringSeries: 'recurring_series',
+  files: 'files',
+};
+
+const markSynced = (kind, id) => run('DELETE FROM deleted_records WHERE kind = ? AND id = ?', [kind, id]);
+
+const recordDeleted = (kind, id) =>
+  run(
+    `INSERT INTO deleted_records (kind, id, deleted_at) VALUES (?, ?, ?)
+     ON CONFLICT(kind, id) DO UPDATE SET deleted_at = excluded.deleted_at`,
+    [kind, id, now()]
+  );
+
+const parseData = (row) => {
+  try {
+    return row.data_json ? JSON.parse(row.data_json) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Rows written by the web app carry the full record; older rows are mapped from their columns
+const rowToRecord = {
+  clients: (row) => parseData(row) || {
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    tags: JSON.parse(row.tags_json || '[]'),
+    notes: row.notes || undefined,
+    manualSessionAdjustment: 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  },
+  appointments: (row) => parseData(row) || {
+    id: row.id,
+    clientId: row.client_id,
+    startAt: row.start_at,
+    endAt: row.end_at,
+    status: row.status,
+    recurringSeriesId: row.recurring_series_id || undefined,
+    originalInstanceAt: row.original_instance_at ?? undefined,
+    note: row.note || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  },
+  recurringSeries: (row) => parseData(row) || {
+    id: row.id,
+    clientId: row.client_id,
+    rrule: row.rrule,
+    dtstart: row.dtstart,
+    durationMin: row.duration_min,
+    untilAt: row.until_at ?? undefined,
+    count: row.count ?? undefined,
+    exdates: [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  },
+  files: (row) => {
+    const absolutePath = path.join(FILES_ROOT, row.path);
+    const content = fs.existsSync(absolutePath) ? fs.readFileSync(absolutePath, 'utf8') : '';
+    return {
+      ...(parseData(row) || {
+        id: row.id,
+        clientId: row.client_id,
+        category: row.category,
+        title: row.title,
+        ext: row.ext,
+        relatedAppointmentId: row.related_appointment_id || undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      }),
+      content,
+    };
+  },
+};
+
 const getClientStats = async (clientId) => {
   const [completed, last, next] = await Promise.all([
     get("SELECT COUNT(*) AS count FROM appointments WHERE client_id = ? AND status = 'Completed'", [clientId]),
@@ -261,10 +368,40 @@ const initDb = async () => {
     )`);
   await run('CREATE INDEX IF NOT EXISTS idx_files_client_category ON files(client_id, category)');
   await run('CREATE INDEX IF NOT EXISTS idx_files_related_appt ON files(related_appointment_id)');
+
+  // Sync with the web app: the full record as JSON, and when the server last received it
+  for (const table of Object.values(SYNC_TABLES)) {
+    await addColumnIfMissing(table, 'data_json', 'TEXT');
+    await addColumnIfMissing(table, 'synced_at', 'INTEGER');
+  }
+
+  await run(`CREATE TABLE IF NOT EXISTS deleted_records (
+      kind TEXT NOT NULL,
+      id TEXT NOT NULL,
+      deleted_at INTEGER NOT NULL,
+      PRIMARY KEY (kind, id)
+    )`);
 };
 
 const app = express();
+
+// The web app is served from another origin (Vite dev server or static hosting). The API has no
+// login, so any other page open in the browser is turned away before it can read or write data.
+app.use((req, res, next) => {
+  const { origin } = req.headers;
+  if (origin) {
+    if (!ALLOWED_ORIGINS.has(origin)) return res.status(403).json({ error: 'origin not allowed' });
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
+  res.setHeader('Vary', 'Origin');
+  if (req.method === 'OPTIONS') return res.sendStatus(204);
+  next();
+});
+
 app.use(express.json({ limit: '10mb' }));
+app.use(express.text({ type: 'text/calendar', limit: '10mb' }));
 
 app.get('/health', (_req, res) => res.json({ ok: true }));
 
@@ -437,9 +574,12 @@ app.get('/api/schedule/week', async (req, res) => {
       const generated = genWeeklyInstances(series, weekStart, weekEnd);
       const exceptions = await all('SELECT * FROM recurring_exceptions WHERE recurring_series_id = ?', [series.id]);
       const mapEx = new Map(exceptions.map((e) => [e.original_instance_at, e]));
+      // Series synced from the web app keep exceptions as appointments (already in `singles`) and EXDATEs
+      const stored = await all('SELECT original_instance_at FROM appointments WHERE recurring_series_id = ? AND original_instance_at IS NOT NULL', [series.id]);
+      const skipped = new Set([...stored.map((r) => r.original_instance_at), ...(parseData(series)?.exdates || [])]);
       for (const item of generated) {
         const ex = mapEx.get(item.original_instance_at);
-        if (ex?.status === 'Canceled') continue;
+        if (ex?.status === 'Canceled' || skipped.has(item.original_instance_at)) continue;
         eventList.push({
           id: `${series.id}:${item.original_instance_at}`,
           source: 'recurring',
@@ -486,8 +626,181 @@ app.post('/api/files/markdown', async (req, res) => {
   }
 });
 
-app.get('/api/ics', async (_req, res) => {
+// The record in a sync upsert, or an error when its ids cannot be trusted
+const syncRecord = (req) => {
+  const body = req.body || {};
+  if (!SAFE_ID.test(req.params.id)) return { error: 'invalid id' };
+  if (body.id !== undefined && body.id !== req.params.id) return { error: 'id does not match url' };
+  if (body.clientId !== undefined && !SAFE_ID.test(String(body.clientId))) return { error: 'invalid clientId' };
+  return { record: { ...body, id: req.params.id } };
+};
+
+// Idempotent upserts keyed by the web app's ids, so replayed queue entries are harmless
+app.put('/api/clients/:id', async (req, res) => {
+  try {
+    const { record, error } = syncRecord(req);
+    if (error) return res.status(400).json({ error });
+    if (!record.name) return res.status(400).json({ error: 'name is required' });
+    if (!STATUS.CLIENT.has(record.status)) return res.status(400).json({ error: 'invalid status' });
+
+    await run(
+      `INSERT INTO clients (id, name, status, tags_json, notes, created_at, updated_at, data_json, synced_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET name = excluded.name, status = excluded.status, tags_json = excluded.tags_json,
+         notes = excluded.notes, updated_at = excluded.updated_at, data_json = excluded.data_json, synced_at = excluded.synced_at`,
+      [record.id, record.name, record.status, JSON.stringify(record.tags || []), record.notes ?? null,
+        record.createdAt || now(), record.updatedAt || now(), JSON.stringify(record), now()]
+    );
+    await markSynced('clients', record.id);
+    ensureClientDirs(record.id);
+    res.json({ id: record.id });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/appointments/:id', async (req, res) => {
+  try {
+    const { record, error } = syncRecord(req);
+    if (error) return res.status(400).json({ error });
+    // The client row may still be queued behind this one, so it is not required to exist yet
+    if (!record.clientId || !Number(record.startAt) || !Number(record.endAt)) {
+      return res.status(400).json({ error: 'clientId, startAt and endAt required' });
+    }
+    if (!STATUS.APPOINTMENT.has(record.status)) return res.status(400).json({ error: 'invalid status' });
+
+    await run(
+      `INSERT INTO appointments (id, client_id, start_at, end_at, status, recurring_series_id, original_instance_at, note, created_at, updated_at, data_json, synced_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET client_id = excluded.client_id, start_at = excluded.start_at, end_at = excluded.end_at,
+         status = excluded.status, recurring_series_id = excluded.recurring_series_id, original_instance_at = excluded.original_instance_at,
+         note = excluded.note, updated_at = excluded.updated_at, data_json = excluded.data_json, synced_at = excluded.synced_at`,
+      [record.id, record.clientId, Number(record.startAt), Number(record.endAt), record.status, record.recurringSeriesId || null,
+        record.originalInstanceAt ?? null, record.note ?? null, record.createdAt || now(), record.updatedAt || now(), JSON.stringify(record), now()]
+    );
+    await markSynced('appointments', record.id);
+    res.json({ id: record.id });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/series/:id', async (req, res) => {
+  try {
+    const { record, error } = syncRecord(req);
+    if (error) return res.status(400).json({ error });
+    if (!record.clientId || !record.rrule || !Number(record.dtstart)) {
+      return res.status(400).json({ error: 'clientId, rrule and dtstart required' });
+    }
+
+    await run(
+      `INSERT INTO recurring_series (id, client_id, rrule, dtstart, duration_min, until_at, count, created_at, updated_at, data_json, synced_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET client_id = excluded.client_id, rrule = excluded.rrule, dtstart = excluded.dtstart,
+         duration_min = excluded.duration_min, until_at = excluded.until_at, count = excluded.count,
+         updated_at = excluded.updated_at, data_json = excluded.data_json, synced_at = excluded.synced_at`,
+      [record.id, record.clientId, record.rrule, Number(record.dtstart), Number(record.durationMin) || 50, record.untilAt ?? null,
+        record.count ?? null, record.createdAt || now(), record.updatedAt || now(), JSON.stringify(record), now()]
+    );
+    await markSynced('recurringSeries', record.id);
+    res.json({ id: record.id });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const CATEGORY_FOLDERS = { SessionNote: 'sessions', Supervision: 'supervision', Assessment: 'assessment' };
+
+app.put('/api/files/markdown/:id', async (req, res) => {
+  try {
+    const { record: body, error } = syncRecord(req);
+    if (error) return res.status(400).json({ error });
+    const { content = '', ...record } = body;
+    if (!record.clientId || !record.title) return res.status(400).json({ error: 'missing fields' });
+    if (!STATUS.FILE_CATEGORY.has(record.category)) return res.status(400).json({ error: 'invalid category' });
+
+    const dirs = ensureClientDirs(record.clientId);
+    // The id keeps two notes with the same title from overwriting each other
+    const filename = `${safeName(record.title)}.${record.id.slice(0, 8)}.md`;
+    const absolutePath = resolveInFilesRoot(path.join(dirs[CATEGORY_FOLDERS[record.category]], filename));
+    const relativePath = path.relative(FILES_ROOT, absolutePath).replaceAll('\\', '/');
+
+    const existing = await get('SELECT path FROM files WHERE id = ?', [record.id]);
+    if (existing && existing.path !== relativePath) {
+      fs.rmSync(resolveInFilesRoot(existing.path), { force: true });
+    }
+    fs.writeFileSync(absolutePath, String(content), 'utf8');
+
+    await run(
+      `INSERT INTO files (id, client_id, category, title, ext, path, related_appointment_id, created_at, updated_at, data_json, synced_at)
+       VALUES (?, ?, ?, ?, 'md', ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET client_id = excluded.client_id, category = excluded.category, title = excluded.title,
+         path = excluded.path, related_appointment_id = excluded.related_appointment_id, updated_at = excluded.updated_at,
+         data_json = excluded.data_json, synced_at = excluded.synced_at`,
+      [record.id, record.clientId, record.category, safeName(record.title), relativePath, record.relatedAppointmentId || null,
+        record.createdAt || now(), record.updatedAt || now(), JSON.stringify(record), now()]
+    );
+    await markSynced('files', record.id);
+    res.json({ id: record.id, path: relativePath });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const deleteRoute = (kind, beforeDelete) => async (req, res) => {
+  try {
+    const table = SYNC_TABLES[kind];
+    const row = await get(`SELECT * FROM ${table} WHERE id = ?`, [req.params.id]);
+    if (row && beforeDelete) beforeDelete(row);
+    await run(`DELETE FROM ${table} WHERE id = ?`, [req.params.id]);
+    await recordDeleted(kind, req.params.id);
+    res.json({ ok: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+app.delete('/api/clients/:id', deleteRoute('clients'));
+app.delete('/api/appointments/:id', deleteRoute('appointments'));
+app.delete('/api/series/:id', deleteRoute('recurringSeries'));
+app.delete('/api/files/:id', deleteRoute('files', (row) => fs.rmSync(resolveInFilesRoot(row.path), { force: true })));
+
+// Everything received since `since` (server time), plus deletions, for the web app to merge
+app.get('/api/sync/pull', async (req, res) => {
+  try {
+    const since = Number(req.query.since) || 0;
+    const serverTime = now();
+    const result = { serverTime, deleted: [] };
+    for (const [kind, table] of Object.entries(SYNC_TABLES)) {
+      const rows = await all(`SELECT * FROM ${table} WHERE COALESCE(synced_at, updated_at) > ?`, [since]);
+      result[kind] = rows.map(rowToRecord[kind]);
+    }
+    result.deleted = await all('SELECT kind, id FROM deleted_records WHERE deleted_at > ?', [since]);
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/ics', (req, res) => {
   try {
+    if (typeof req.body !== 'string' || !req.body.startsWith('BEGIN:VCALENDAR')) {
+      return res.status(400).json({ error: 'text/calendar body required' });
+    }
+    fs.writeFileSync(PUBLISHED_ICS_PATH, req.body, 'utf8');
+    res.json({ ok: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const sendCalendar = async (_req, res) => {
+  try {
+    if (fs.existsSync(PUBLISHED_ICS_PATH)) {
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      return res.send(fs.readFileSync(PUBLISHED_ICS_PATH, 'utf8'));
+    }
+
     const events = await all(
       `SELECT a.*, c.name AS client_name
        FROM appointments a JOIN clients c ON c.id = a.client_id
@@ -517,12 +830,14 @@ app.get('/api/ics', async (_req, res) => {
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
-});
+};
 
-app.get('/calendar.ics', async (req, res) => {
-  req.url = '/api/ics';
-  app.handle(req, res);
-});
+app.get('/api/ics', sendCalendar);
+app.get('/calendar.ics', sendCalendar);
+
+// Calendar apps on other devices subscribe here, so this port serves the feed and nothing else
+const icsApp = express();
+icsApp.get('/calendar.ics', sendCalendar);
 
 app.post('/api/export', async (_req, res) => {
   try {
@@ -565,9 +880,11 @@ app.get('/api/settings/ics-urls', (_req, res) => {
 
 const start = async () => {
   await initDb();
-  app.listen(APP_PORT, () => {
-    console.log(`[counseling] app running http://127.0.0.1:${APP_PORT}`);
-    console.log(`[counseling] ICS URL http://127.0.0.1:${APP_PORT}/calendar.ics`);
+  app.listen(APP_PORT, APP_HOST, () => {
+    console.log(`[counseling] app running http://${APP_HOST}:${APP_PORT}`);
+  });
+  icsApp.listen(ICS_PORT, () => {
+    console.log(`[counseling] ICS URL http://127.0.0.1:${ICS_PORT}/calendar.ics`);
   });
 };
 
@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { HashRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useDeferredValue } from 'react';
+import { HashRouter, Routes, Route, Link, useLocation, useNavigate } from 'react-router-dom';
 import { 
   Users, 
   Calendar as CalendarIcon, 
@@ -8,19 +8,42 @@ import {
   Settings as SettingsIcon,
   Menu,
   X,
-  Database
+  Database,
+  AlertTriangle,
+  Lock,
+  Server,
+  RefreshCw,
+  Search,
+  Undo2,
+  Redo2,
+  ClipboardList,
+  FileClock,
+  Bell,
+  Hourglass
 } from 'lucide-react';
 import { AppState } from './types';
-import { loadData, saveData } from './store';
+import { loadData, saveData, replaceData, isEncrypted, unlockData, lockData } from './store';
+import { StorageLockedError } from './storage';
+import { SyncStatus, configureSync, getSyncStatus, stopSync, subscribeSync, trackChanges } from './sync';
+import { HighlightPart, searchState } from './search';
+import { MAX_UNDO, UndoEntry, applyPatch, createPatch, isPatchEmpty } from './undo';
+import { pendingNotes } from './pendingNotes';
+import { parseBackup } from './backup';
+import { REMINDER_CHECK_MS, Reminder, showNotification, takeDueReminders } from './reminders';
+import { format } from 'date-fns';
 
 // Pages
 import CalendarView from './pages/CalendarView';
 import ClientList from './pages/ClientList';
 import ClientDetail from './pages/ClientDetail';
 import StatsView from './pages/StatsView';
+import HoursLogView from './pages/HoursLogView';
+import PendingNotesView from './pages/PendingNotesView';
+import WaitlistView from './pages/WaitlistView';
 import SettingsView from './pages/SettingsView';
+import SearchView, { HighlightedText, clientPath, notePath, appointmentPath } from './pages/SearchView';
 
-const NavItem: React.FC<{ to: string; icon: React.ReactNode; label: string }> = ({ to, icon, label }) => {
+const NavItem: React.FC<{ to: string; icon: React.ReactNode; label: string; badge?: number }> = ({ to, icon, label, badge }) => {
   const location = useLocation();
   const isActive = location.pathname === to || (to !== '/' && location.pathname.startsWith(to));
 
@@ -35,24 +58,530 @@ const NavItem: React.FC<{ to: string; icon: React.ReactNode; label: string }> =
     >
       {icon}
       <span className="font-medium">{label}</span>
+      {!!badge && (
+        <span className={`ml-auto min-w-[1.25rem] px-1.5 py-0.5 rounded-full text-[10px] font-bold text-center ${
+          isActive ? 'bg-white text-blue-600' : 'bg-amber-500 text-white'
+        }`}>
+          {badge > 99 ? '99+' : badge}
+        </span>
+      )}
     </Link>
   );
 };
 
+const SyncIndicator: React.FC<{ status: SyncStatus }> = ({ status }) => {
+  if (status.health === 'disabled') return null;
+  const online = status.health === 'online';
+  return (
+    <Link
+      to="/settings"
+      title={status.lastError || (online ? '已连接本地服务' : '本地服务不可用，修改将在恢复连接后同步')}
+      className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium border ${
+        online ? 'bg-green-50 border-green-100 text-green-700' : 'bg-gray-50 border-gray-200 text-gray-500'
+      }`}
+    >
+      {status.syncing ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Server className="w-3.5 h-3.5" />}
+      <span className={`w-2 h-2 rounded-full ${online ? (status.lastError ? 'bg-amber-500' : 'bg-green-500') : 'bg-red-400'}`} />
+      <span className="hidden sm:inline">{online ? '已连接' : '离线'}</span>
+      {status.pending > 0 && <span>· 待同步 {status.pending}</span>}
+    </Link>
+  );
+};
+
+const DROPDOWN_LIMIT = 5;
+
+interface DropdownItem {
+  key: string;
+  group: string;
+  title: string;
+  meta: string;
+  snippet: HighlightPart[];
+  to: string;
+}
+
+const GlobalSearch: React.FC<{ state: AppState }> = ({ state }) => {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const deferredQuery = useDeferredValue(query);
+
+  const items = useMemo<DropdownItem[]>(() => {
+    if (!deferredQuery.trim()) return [];
+    const results = searchState(state, deferredQuery);
+    const clientName = (clientId: string) => state.clients.find(c => c.id === clientId)?.name || '未知个案';
+    return [
+      ...results.clients.slice(0, DROPDOWN_LIMIT).map(hit => ({
+        key: `client:${hit.item.id}`, group: '个案', title: hit.item.name, meta: hit.item.status,
+        snippet: hit.snippet, to: clientPath(hit.item)
+      })),
+      ...results.notes.slice(0, DROPDOWN_LIMIT).map(hit => ({
+        key: `note:${hit.item.id}`, group: '笔记', title: hit.item.title, meta: clientName(hit.item.clientId),
+        snippet: hit.snippet, to: notePath(hit.item)
+      })),
+      ...results.appointments.slice(0, DROPDOWN_LIMIT).map(hit => ({
+        key: `appt:${hit.item.id}`, group: '预约', title: clientName(hit.item.clientId),
+        meta: format(hit.item.startAt, 'yyyy/MM/dd HH:mm'), snippet: hit.snippet, to: appointmentPath(hit.item)
+      })),
+    ];
+  }, [state, deferredQuery]);
+
+  useEffect(() => setActiveIndex(0), [deferredQuery]);
+
+  // Ctrl/⌘+K focuses the search box from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const allResultsPath = `/search?q=${encodeURIComponent(query.trim())}`;
+  // The last row of the dropdown is "查看全部结果"
+  const rowCount = items.length + 1;
+
+  const go = (to: string) => {
+    navigate(to);
+    setIsOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      inputRef.current?.blur();
+      return;
+    }
+    if (!query.trim()) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(i => (i + (e.key === 'ArrowDown' ? 1 : rowCount - 1)) % rowCount);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      go(items[activeIndex]?.to || allResultsPath);
+    }
+  };
+
+  return (
+    <div className="max-w-xl relative">
+      <input 
+        ref={inputRef}
+        type="text" 
+        value={query}
+        onChange={e => { setQuery(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="搜索个案、笔记、预约... (Ctrl+K)" 
+        className="w-full bg-gray-100 border-transparent focus:bg-white focus:border-blue-500 rounded-full px-10 py-2 text-sm transition-all"
+      />
+      <Search className="w-4 h-4 text-gray-400 absolute left-4 top-1/2 -translate-y-1/2" />
+
+      {isOpen && query.trim() && (
+        // mousedown would blur the input and close the dropdown before the click lands
+        <div 
+          onMouseDown={e => e.preventDefault()}
+          className="absolute left-0 right-0 top-full mt-2 bg-white rounded-xl shadow-xl border border-gray-200 z-40 max-h-[70vh] overflow-y-auto py-2"
+        >
+          {items.length === 0 && <p className="px-4 py-3 text-sm text-gray-400">无匹配结果</p>}
+          {items.map((item, i) => (
+            <React.Fragment key={item.key}>
+              {item.group !== items[i - 1]?.group && (
+                <div className="px-4 pt-2 pb-1 text-[10px] font-bold text-gray-400 uppercase tracking-wider">{item.group}</div>
+              )}
+              <button
+                onClick={() => go(item.to)}
+                onMouseEnter={() => setActiveIndex(i)}
+                className={`w-full text-left px-4 py-2 ${activeIndex === i ? 'bg-blue-50' : ''}`}
+              >
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="font-medium truncate">{item.title}</span>
+                  <span className="text-xs text-gray-400 shrink-0">{item.meta}</span>
+                </div>
+                <HighlightedText parts={item.snippet} className="block text-xs text-gray-500 truncate" />
+              </button>
+            </React.Fragment>
+          ))}
+          <button
+            onClick={() => go(allResultsPath)}
+            onMouseEnter={() => setActiveIndex(items.length)}
+            className={`w-full text-left px-4 py-2 mt-1 border-t border-gray-100 text-sm text-blue-600 font-medium ${
+              activeIndex === items.length ? 'bg-blue-50' : ''
+            }`}
+          >
+            查看全部结果
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface UndoToastState {
+  label: string;
+  undone: boolean; // The action was just undone, so the toast offers redo
+}
+
+const TOAST_DURATION = 6000;
+
+// Keep only the most recent few; older ones are still in the calendar and queues
+const MAX_REMINDER_BANNERS = 4;
+
+const reminderPath = (reminder: Reminder) => reminder.appointment ? appointmentPath(reminder.appointment) : reminder.link;
+
+// Shown in place of system notifications when the browser has not allowed them
+const ReminderBanners: React.FC<{ reminders: Reminder[]; onDismiss: (key: string) => void }> = ({ reminders, onDismiss }) => (
+  <div className="fixed top-20 right-4 z-[60] w-80 space-y-2">
+    {reminders.map(reminder => (
+      <div key={reminder.key} className="bg-white border border-amber-200 rounded-xl shadow-lg p-4 flex gap-3 animate-in fade-in slide-in-from-right duration-200">
+        <Bell className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-gray-900">{reminder.title}</p>
+          {reminder.body && <p className="text-xs text-gray-500 whitespace-pre-line mt-0.5">{reminder.body}</p>}
+          <Link to={reminderPath(reminder)} onClick={() => onDismiss(reminder.key)} className="inline-block text-xs text-blue-600 font-semibold hover:underline mt-1">
+            查看
+          </Link>
+        </div>
+        <button onClick={() => onDismiss(reminder.key)} className="self-start p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+const UndoToast: React.FC<{ toast: UndoToastState; onAction: () => void; onClose: () => void }> = ({ toast, onAction, onClose }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 bg-gray-900 text-white text-sm pl-4 pr-2 py-2 rounded-lg shadow-lg">
+    <span>{toast.undone ? `已撤销：${toast.label}` : toast.label}</span>
+    <button onClick={onAction} className="flex items-center gap-1 px-2 py-1 rounded font-semibold text-blue-300 hover:bg-white/10">
+      {toast.undone ? <Redo2 className="w-4 h-4" /> : <Undo2 className="w-4 h-4" />}
+      {toast.undone ? '重做' : '撤销'}
+    </button>
+    <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-white hover:bg-white/10">
+      <X className="w-4 h-4" />
+    </button>
+  </div>
+);
+
+// Ctrl+Z in a text field undoes typing, not the last action
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || !!target.closest('input, textarea'));
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+
+const LockScreen: React.FC<{ onUnlock: (passphrase: string) => Promise<void> }> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError((err as Error).message);
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-gray-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl w-full max-w-sm shadow-xl border border-gray-200 p-8 space-y-6">
+        <div className="flex flex-col items-center gap-3">
+          <div className="bg-blue-600 p-3 rounded-xl">
+            <Lock className="w-6 h-6 text-white" />
+          </div>
+          <h1 className="text-xl font-bold">CaseManager 已锁定</h1>
+          <p className="text-sm text-gray-500 text-center">数据已加密保存，请输入口令解锁</p>
+        </div>
+        <input 
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="口令"
+          className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button 
+          type="submit"
+          disabled={isUnlocking}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-60"
+        >
+          {isUnlocking ? '正在解锁...' : '解锁'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+// Shown instead of an empty practice when stored data cannot be read
+const LoadErrorScreen: React.FC<{ error: string; onRetry: () => void; onRestore: (state: AppState) => Promise<void> }> = ({ error, onRetry, onRestore }) => {
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  const handleRestoreFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const parsed = parseBackup(event.target?.result as string);
+        if (!window.confirm(`用备份“${file.name}”替换本机数据？本机无法读取的数据将被覆盖。`)) return;
+        onRestore(parsed.state).catch((err: Error) => setRestoreError(err?.message || String(err)));
+      } catch (err) {
+        setRestoreError((err as Error).message);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-gray-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-md shadow-xl border border-gray-200 p-8 space-y-6">
+        <div className="flex flex-col items-center gap-3 text-center">
+          <div className="bg-red-50 p-3 rounded-xl">
+            <AlertTriangle className="w-6 h-6 text-red-600" />
+          </div>
+          <h1 className="text-xl font-bold">无法读取本机数据</h1>
+          <p className="text-sm text-gray-500">数据没有被清空。可以重试读取，或从之前导出的 JSON 备份恢复。</p>
+          <p className="text-xs text-red-600 break-all">{error}</p>
+        </div>
+        {restoreError && <p className="text-sm text-red-600">{restoreError}</p>}
+        <div className="flex flex-col gap-2">
+          <button
+            onClick={onRetry}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+          >
+            <RefreshCw className="w-4 h-4" />
+            重试
+          </button>
+          <label className="w-full text-center px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 font-medium cursor-pointer">
+            从备份文件恢复
+            <input type="file" accept=".json,application/json" onChange={handleRestoreFile} className="hidden" />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 function App() {
-  const [state, setState] = useState<AppState>(loadData());
+  const [state, setState] = useState<AppState | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [isLocked, setIsLocked] = useState(false);
+  const [encrypted, setEncrypted] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(getSyncStatus());
+  const lastTracked = useRef<AppState | null>(null);
+  const history = useRef<{ past: UndoEntry[]; future: UndoEntry[] }>({ past: [], future: [] });
+  const pendingAction = useRef<string | null>(null);
+  const lastRecorded = useRef<AppState | null>(null);
+  const [toast, setToast] = useState<UndoToastState | null>(null);
+  const [reminderBanners, setReminderBanners] = useState<Reminder[]>([]);
+  const stateRef = useRef<AppState | null>(null);
+  stateRef.current = state;
+
+  const load = useCallback(() => {
+    setLoadError(null);
+    isEncrypted()
+      .then(async enc => {
+        setEncrypted(enc);
+        if (enc) setIsLocked(true);
+        else setState(await loadData());
+      })
+      .catch((e: Error) => {
+        console.error("Failed to load state", e);
+        setLoadError(e?.message || String(e));
+      });
+  }, []);
+
+  useEffect(load, [load]);
+
+  const handleRestore = async (restored: AppState) => {
+    await replaceData(restored);
+    setLoadError(null);
+    setState(restored);
+  };
+
+  const handleUnlock = async (passphrase: string) => {
+    setState(await unlockData(passphrase));
+    setIsLocked(false);
+  };
 
-  // Sync state to local storage whenever it changes
+  const handleLock = useCallback(async () => {
+    // Drop the decrypted copy the sync layer holds; unlocking starts from a fresh baseline
+    stopSync();
+    lastTracked.current = null;
+    history.current = { past: [], future: [] };
+    lastRecorded.current = null;
+    setToast(null);
+    setReminderBanners([]);
+    await lockData();
+    setState(null);
+    setIsLocked(true);
+  }, []);
+
+  // Auto-lock after the configured idle period, only while encryption is on
+  const isLoaded = state !== null;
+  const autoLockMinutes = state?.settings.autoLockMinutes || 0;
+  useEffect(() => {
+    if (!isLoaded || !encrypted || autoLockMinutes <= 0) return;
+    let lastActivity = Date.now();
+    const touch = () => { lastActivity = Date.now(); };
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, touch, { passive: true }));
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60 * 1000) handleLock();
+    }, 15000);
+    return () => {
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, touch));
+      window.clearInterval(timer);
+    };
+  }, [isLoaded, encrypted, autoLockMinutes, handleLock]);
+
+  // Sync state to storage whenever it changes
+  useEffect(() => {
+    if (!state) return;
+    saveData(state)
+      .then(() => setSaveError(null))
+      .catch((e: Error) => {
+        if (e instanceof StorageLockedError) return;
+        console.error("Failed to save state", e);
+        setSaveError(e?.name === 'QuotaExceededError' ? '存储空间已满，最近的修改未能保存' : `保存失败：${e?.message || e}`);
+      });
+  }, [state]);
+
+  // Stable reference for state updates; a described action can be undone
+  const updateState = useCallback((updater: (prev: AppState) => AppState, action?: string) => {
+    setState(prev => {
+      if (!prev) return prev;
+      const next = updater(prev);
+      if (action && next !== prev) pendingAction.current = action;
+      return next;
+    });
+  }, []);
+
+  // Record the described action as a patch against the state it started from
   useEffect(() => {
-    saveData(state);
+    const before = lastRecorded.current;
+    const action = pendingAction.current;
+    lastRecorded.current = state;
+    pendingAction.current = null;
+    if (!state || !before || !action) return;
+    const patch = createPatch(before, state);
+    if (isPatchEmpty(patch)) return;
+    history.current = {
+      past: [...history.current.past, { label: action, patch, at: Date.now() }].slice(-MAX_UNDO),
+      future: [],
+    };
+    setToast({ label: action, undone: false });
   }, [state]);
 
-  // Stable reference for state updates
-  const updateState = useCallback((updater: (prev: AppState) => AppState) => {
-    setState(prev => updater(prev));
+  const undo = useCallback(() => {
+    const { past, future } = history.current;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    history.current = { past: past.slice(0, -1), future: [...future, entry] };
+    setState(prev => prev && applyPatch(prev, entry.patch, 'undo'));
+    setToast({ label: entry.label, undone: true });
   }, []);
 
+  const redo = useCallback(() => {
+    const { past, future } = history.current;
+    const entry = future[future.length - 1];
+    if (!entry) return;
+    history.current = { past: [...past, entry], future: future.slice(0, -1) };
+    setState(prev => prev && applyPatch(prev, entry.patch, 'redo'));
+    setToast({ label: entry.label, undone: false });
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isLoaded, undo, redo]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = window.setTimeout(() => setToast(null), TOAST_DURATION);
+    return () => window.clearTimeout(timer);
+  }, [toast]);
+
+  // Queue changes for the local server; runs before configureSync so a first sync sees the state
+  useEffect(() => {
+    if (!state) return;
+    trackChanges(lastTracked.current, state);
+    lastTracked.current = state;
+  }, [state]);
+
+  const syncEnabled = state?.settings.syncEnabled ?? false;
+  const syncServerUrl = state?.settings.syncServerUrl ?? '';
+  useEffect(() => {
+    if (!isLoaded) return;
+    configureSync({ syncEnabled, syncServerUrl }, updateState);
+  }, [isLoaded, syncEnabled, syncServerUrl, updateState]);
+
+  useEffect(() => subscribeSync(setSyncStatus), []);
+
+  // Reminders are checked against the latest state on a timer rather than on every change
+  const remindersEnabled = state?.settings.reminderEnabled ?? false;
+  useEffect(() => {
+    if (!isLoaded || isLocked || !remindersEnabled) return;
+    const check = () => {
+      if (!stateRef.current) return;
+      const fallback = takeDueReminders(stateRef.current).filter(reminder =>
+        !showNotification(reminder, () => { window.location.hash = `#${reminderPath(reminder)}`; }));
+      if (fallback.length === 0) return;
+      setReminderBanners(prev => [...prev, ...fallback].slice(-MAX_REMINDER_BANNERS));
+    };
+    check();
+    const timer = window.setInterval(check, REMINDER_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [isLoaded, isLocked, remindersEnabled]);
+
+  const pendingNoteCount = useMemo(
+    () => state ? pendingNotes(state).length : 0,
+    [state]
+  );
+
+  if (isLocked) {
+    return <LockScreen onUnlock={handleUnlock} />;
+  }
+
+  if (loadError && !state) {
+    return <LoadErrorScreen error={loadError} onRetry={load} onRestore={handleRestore} />;
+  }
+
+  if (!state) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-50 text-sm text-gray-400">
+        正在加载数据...
+      </div>
+    );
+  }
+
   return (
     <HashRouter>
       <div className="flex h-screen bg-gray-50 overflow-hidden">
@@ -74,12 +603,27 @@ function App() {
               <nav className="space-y-2">
                 <NavItem to="/" icon={<CalendarIcon className="w-5 h-5" />} label="周日历" />
                 <NavItem to="/clients" icon={<Users className="w-5 h-5" />} label="个案管理" />
+                <NavItem to="/waitlist" icon={<Hourglass className="w-5 h-5" />} label="等候名单" />
                 <NavItem to="/stats" icon={<PieChart className="w-5 h-5" />} label="统计分析" />
+                <NavItem to="/notes" icon={<FileClock className="w-5 h-5" />} label="待完成记录" badge={pendingNoteCount} />
+                <NavItem to="/hours" icon={<ClipboardList className="w-5 h-5" />} label="时数记录" />
                 <NavItem to="/settings" icon={<SettingsIcon className="w-5 h-5" />} label="系统设置" />
               </nav>
             </div>
             
-            <div className="mt-auto p-6 border-t border-gray-100">
+            {encrypted && (
+              <div className="px-6 pb-4 mt-auto">
+                <button 
+                  onClick={handleLock}
+                  className="w-full flex items-center gap-3 px-4 py-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+                >
+                  <Lock className="w-5 h-5" />
+                  <span className="font-medium">立即锁定</span>
+                </button>
+              </div>
+            )}
+
+            <div className={`${encrypted ? '' : 'mt-auto '}p-6 border-t border-gray-100`}>
               <div className="text-xs text-gray-400 font-medium uppercase tracking-wider mb-2">数据导出</div>
               <p className="text-xs text-gray-500 mb-4">定期备份以确保数据安全</p>
               <Link to="/settings" className="block text-sm text-blue-600 font-semibold hover:underline">
@@ -100,27 +644,45 @@ function App() {
             </button>
             
             <div className="flex-1 px-4">
-              <div className="max-w-xl relative">
-                <input 
-                  type="text" 
-                  placeholder="搜索个案..." 
-                  className="w-full bg-gray-100 border-transparent focus:bg-white focus:border-blue-500 rounded-full px-10 py-2 text-sm transition-all"
-                />
-                <Users className="w-4 h-4 text-gray-400 absolute left-4 top-1/2 -translate-y-1/2" />
-              </div>
+              <GlobalSearch state={state} />
             </div>
+
+            <SyncIndicator status={syncStatus} />
           </header>
 
+          {saveError && (
+            <div className="flex items-center gap-2 px-4 lg:px-8 py-2 bg-red-50 border-b border-red-100 text-sm text-red-700 shrink-0">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span className="flex-1">{saveError}</span>
+              <Link to="/settings" className="font-semibold hover:underline">查看存储用量</Link>
+            </div>
+          )}
+
           <main className="flex-1 overflow-y-auto overflow-x-hidden p-4 lg:p-8">
             <Routes>
               <Route path="/" element={<CalendarView state={state} updateState={updateState} />} />
               <Route path="/clients" element={<ClientList state={state} updateState={updateState} />} />
               <Route path="/clients/:id" element={<ClientDetail state={state} updateState={updateState} />} />
               <Route path="/stats" element={<StatsView state={state} updateState={updateState} />} />
-              <Route path="/settings" element={<SettingsView state={state} updateState={updateState} />} />
+              <Route path="/notes" element={<PendingNotesView state={state} updateState={updateState} />} />
+              <Route path="/waitlist" element={<WaitlistView state={state} updateState={updateState} />} />
+              <Route path="/hours" element={<HoursLogView state={state} updateState={updateState} />} />
+              <Route path="/search" element={<SearchView state={state} />} />
+              <Route path="/settings" element={<SettingsView state={state} updateState={updateState} onEncryptionChange={setEncrypted} />} />
             </Routes>
           </main>
         </div>
+
+        {reminderBanners.length > 0 && (
+          <ReminderBanners
+            reminders={reminderBanners}
+            onDismiss={key => setReminderBanners(prev => prev.filter(r => r.key !== key))}
+          />
+        )}
+
+        {toast && (
+          <UndoToast toast={toast} onAction={toast.undone ? redo : undo} onClose={() => setToast(null)} />
+        )}
       </div>
     </HashRouter>
   );
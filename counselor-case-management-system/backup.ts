@@ -0,0 +1,141 @@
+import { AppState, NoteTemplate, RECORD_COLLECTIONS, RecordCollection } from './types';
+import { upgradeState, ValidationIssue } from './migrations';
+
+export type RestoreMode = 'replace' | 'merge';
+
+const COLLECTION_LABELS: Record<RecordCollection, string> = {
+  clients: '个案',
+  appointments: '预约',
+  recurringSeries: '重复规则',
+  busyBlocks: '忙碌时段',
+  files: '文件',
+  noteRevisions: '笔记历史',
+  supervisionSessions: '督导记录',
+  scaleResults: '量表测评',
+};
+
+// Lists kept in settings that are merged by id like the collections; all other settings stay local in a merge
+type SettingsList = 'noteTemplates' | 'customScales' | 'customFields';
+
+export type BackupCollection = RecordCollection | SettingsList;
+
+const SETTINGS_LIST_LABELS: Record<SettingsList, string> = {
+  noteTemplates: '笔记模板',
+  customScales: '自定义量表',
+  customFields: '自定义字段',
+};
+
+const SETTINGS_LISTS = Object.keys(SETTINGS_LIST_LABELS) as SettingsList[];
+
+export const BACKUP_COLLECTIONS: { key: BackupCollection; label: string }[] = [
+  ...RECORD_COLLECTIONS.map(key => ({ key, label: COLLECTION_LABELS[key] })),
+  ...SETTINGS_LISTS.map(key => ({ key, label: SETTINGS_LIST_LABELS[key] })),
+];
+
+export interface CollectionDiff {
+  added: number;
+  // Present on both sides; the backup copy is newer and wins a merge
+  changed: number;
+  // Present on both sides; the local copy is as new or newer and wins a merge
+  conflicting: number;
+  unchanged: number;
+  // Only present locally; dropped by "replace all"
+  localOnly: number;
+}
+
+export interface ParsedBackup {
+  state: AppState;
+  issues: ValidationIssue[];
+  fromVersion: number;
+}
+
+/**
+ * Parses a JSON export, upgrading older backups through the same migrations
+ * used on startup. Throws when the file is not an AppState export at all.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.clients) || !Array.isArray(raw.appointments)) {
+    throw new Error('文件缺少 clients / appointments，不是本系统导出的备份');
+  }
+  const { state, report } = upgradeState(raw);
+  return { state, issues: report.issues, fromVersion: report.fromVersion };
+};
+
+interface BackupRecord {
+  id: string;
+  updatedAt?: number; // Missing on custom fields, so the local copy always wins
+}
+
+const isSettingsList = (key: BackupCollection): key is SettingsList => SETTINGS_LISTS.includes(key as SettingsList);
+
+const recordsOf = (state: AppState, key: BackupCollection): BackupRecord[] =>
+  isSettingsList(key) ? state.settings[key] || [] : state[key];
+
+const isNewer = (record: BackupRecord, existing: BackupRecord) => (record.updatedAt ?? 0) > (existing.updatedAt ?? 0);
+
+const sameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const diffBackup = (current: AppState, incoming: AppState): Record<BackupCollection, CollectionDiff> => {
+  const result = {} as Record<BackupCollection, CollectionDiff>;
+  BACKUP_COLLECTIONS.forEach(({ key }) => {
+    const local = new Map(recordsOf(current, key).map(r => [r.id, r]));
+    const incomingIds = new Set(recordsOf(incoming, key).map(r => r.id));
+    const diff: CollectionDiff = { added: 0, changed: 0, conflicting: 0, unchanged: 0, localOnly: 0 };
+    recordsOf(incoming, key).forEach(record => {
+      const existing = local.get(record.id);
+      if (!existing) diff.added += 1;
+      else if (sameRecord(existing, record)) diff.unchanged += 1;
+      else if (isNewer(record, existing)) diff.changed += 1;
+      else diff.conflicting += 1;
+    });
+    diff.localOnly = recordsOf(current, key).filter(r => !incomingIds.has(r.id)).length;
+    result[key] = diff;
+  });
+  return result;
+};
+
+// A merge can bring in a second default for the same kind of note; the local one stays default
+const singleDefaults = (templates: NoteTemplate[]) => {
+  const seen = new Set<string>();
+  return templates.map(t => {
+    if (!t.isDefault) return t;
+    const kind = `${t.category}:${t.sessionType ?? ''}`;
+    if (!seen.has(kind)) {
+      seen.add(kind);
+      return t;
+    }
+    return { ...t, isDefault: false };
+  });
+};
+
+/**
+ * Union by id; where both sides have a record, the newest updatedAt wins.
+ * Note templates, custom scales and custom fields are merged the same way;
+ * every other setting keeps its local value.
+ */
+export const mergeBackup = (current: AppState, incoming: AppState): AppState => {
+  const merged = {} as Record<BackupCollection, BackupRecord[]>;
+  BACKUP_COLLECTIONS.forEach(({ key }) => {
+    const byId = new Map(recordsOf(current, key).map(r => [r.id, r]));
+    recordsOf(incoming, key).forEach(record => {
+      const existing = byId.get(record.id);
+      if (!existing || isNewer(record, existing)) byId.set(record.id, record);
+    });
+    merged[key] = Array.from(byId.values());
+  });
+  const { noteTemplates, customScales, customFields, ...records } = merged as Pick<AppState, RecordCollection> & Pick<AppState['settings'], SettingsList>;
+  return {
+    ...current,
+    ...records,
+    settings: { ...current.settings, noteTemplates: singleDefaults(noteTemplates), customScales, customFields },
+  };
+};
+
+export const restoreBackup = (current: AppState, incoming: AppState, mode: RestoreMode): AppState =>
+  mode === 'replace' ? incoming : mergeBackup(current, incoming);
@@ -0,0 +1,146 @@
+import { addMonths, format, startOfMonth } from 'date-fns';
+import { AppState, Appointment, AppointmentStatus, Client, PaymentMethod, PaymentStatus } from './types';
+import { escapeHtml } from './print';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  [PaymentStatus.Unpaid]: '未付',
+  [PaymentStatus.Paid]: '已付',
+  [PaymentStatus.Waived]: '减免',
+};
+
+export const PAYMENT_STATUS_COLORS: Record<PaymentStatus, string> = {
+  [PaymentStatus.Unpaid]: 'bg-amber-50 text-amber-700 border-amber-200',
+  [PaymentStatus.Paid]: 'bg-green-50 text-green-700 border-green-200',
+  [PaymentStatus.Waived]: 'bg-gray-50 text-gray-600 border-gray-200',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.WeChat]: '微信',
+  [PaymentMethod.Alipay]: '支付宝',
+  [PaymentMethod.Cash]: '现金',
+  [PaymentMethod.Transfer]: '银行转账',
+};
+
+export interface Balance {
+  billed: number; // Fees of all completed sessions
+  paid: number;
+  waived: number;
+  outstanding: number;
+  unpaidSessions: number;
+}
+
+export interface MonthlyIncome {
+  month: string; // yyyy-MM
+  label: string;
+  received: number; // Counted in the month the payment was recorded
+  outstanding: number; // Unpaid fees of sessions held that month
+}
+
+export const formatMoney = (amount: number) =>
+  `¥${amount.toLocaleString('zh-CN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+export const feeOf = (client: Client | undefined, appt: Appointment) => appt.fee ?? client?.defaultFee ?? 0;
+
+export const paymentStatusOf = (appt: Appointment) => appt.paymentStatus || PaymentStatus.Unpaid;
+
+// Only completed sessions are charged
+export const billableSessions = (state: AppState, clientId: string, from = -Infinity, to = Infinity) =>
+  state.appointments
+    .filter(a => a.clientId === clientId && a.status === AppointmentStatus.Completed && a.startAt >= from && a.startAt <= to)
+    .sort((a, b) => a.startAt - b.startAt);
+
+export const sumBalance = (client: Client | undefined, sessions: Appointment[]): Balance =>
+  sessions.reduce((b, appt) => {
+    const fee = feeOf(client, appt);
+    const status = paymentStatusOf(appt);
+    return {
+      billed: b.billed + fee,
+      paid: b.paid + (status === PaymentStatus.Paid ? fee : 0),
+      waived: b.waived + (status === PaymentStatus.Waived ? fee : 0),
+      outstanding: b.outstanding + (status === PaymentStatus.Unpaid ? fee : 0),
+      unpaidSessions: b.unpaidSessions + (status === PaymentStatus.Unpaid && fee > 0 ? 1 : 0),
+    };
+  }, { billed: 0, paid: 0, waived: 0, outstanding: 0, unpaidSessions: 0 });
+
+export const clientBalance = (state: AppState, clientId: string) =>
+  sumBalance(state.clients.find(c => c.id === clientId), billableSessions(state, clientId));
+
+/**
+ * Sets the fee or payment of a completed session. Marking it paid stamps the
+ * payment date; any other status clears it.
+ */
+export const updatePayment = (
+  state: AppState,
+  apptId: string,
+  updates: Partial<Pick<Appointment, 'fee' | 'paymentStatus' | 'paymentMethod'>>
+): AppState => ({
+  ...state,
+  appointments: state.appointments.map(a => {
+    if (a.id !== apptId) return a;
+    const next = { ...a, ...updates, updatedAt: Date.now() };
+    if (updates.paymentStatus && updates.paymentStatus !== a.paymentStatus) {
+      next.paidAt = updates.paymentStatus === PaymentStatus.Paid ? Date.now() : undefined;
+    }
+    return next;
+  }),
+});
+
+// The last `months` calendar months up to and including the one `now` is in
+export const monthlyIncome = (state: AppState, months: number, now = Date.now()): MonthlyIncome[] => {
+  const first = addMonths(startOfMonth(now), -(months - 1));
+  const rows = Array.from({ length: months }, (_, i) => {
+    const month = addMonths(first, i);
+    return { month: format(month, 'yyyy-MM'), label: `${month.getMonth() + 1}月`, received: 0, outstanding: 0 };
+  });
+  const byMonth = new Map(rows.map(r => [r.month, r]));
+  const clients = new Map(state.clients.map(c => [c.id, c]));
+
+  state.appointments.forEach(appt => {
+    if (appt.status !== AppointmentStatus.Completed) return;
+    const fee = feeOf(clients.get(appt.clientId), appt);
+    const status = paymentStatusOf(appt);
+    if (status === PaymentStatus.Paid) {
+      const row = byMonth.get(format(appt.paidAt ?? appt.startAt, 'yyyy-MM'));
+      if (row) row.received += fee;
+    } else if (status === PaymentStatus.Unpaid) {
+      const row = byMonth.get(format(appt.startAt, 'yyyy-MM'));
+      if (row) row.outstanding += fee;
+    }
+  });
+  return rows;
+};
+
+// Body of a printable receipt listing one client's sessions in [from, to]
+export const receiptHtml = (state: AppState, clientId: string, from: number, to: number) => {
+  const client = state.clients.find(c => c.id === clientId);
+  const sessions = billableSessions(state, clientId, from, to);
+  const balance = sumBalance(client, sessions);
+  const rows = sessions.map(appt => {
+    const status = paymentStatusOf(appt);
+    return `<tr>
+      <td>${format(appt.startAt, 'yyyy-MM-dd HH:mm')}</td>
+      <td class="num">${Math.round((appt.endAt - appt.startAt) / 60000)} 分钟</td>
+      <td class="num">${formatMoney(feeOf(client, appt))}</td>
+      <td>${PAYMENT_STATUS_LABELS[status]}</td>
+      <td>${appt.paymentMethod && status === PaymentStatus.Paid ? PAYMENT_METHOD_LABELS[appt.paymentMethod] : ''}</td>
+      <td>${appt.paidAt && status === PaymentStatus.Paid ? format(appt.paidAt, 'yyyy-MM-dd') : ''}</td>
+    </tr>`;
+  }).join('');
+
+  return `
+    <h1>咨询费用收据</h1>
+    <p class="muted">个案：${escapeHtml(client?.name || '')}　期间：${format(from, 'yyyy-MM-dd')} 至 ${format(to, 'yyyy-MM-dd')}</p>
+    <table>
+      <thead><tr><th>咨询时间</th><th class="num">时长</th><th class="num">费用</th><th>状态</th><th>支付方式</th><th>付款日期</th></tr></thead>
+      <tbody>${rows || '<tr><td colspan="6" class="muted">该期间没有已完成的咨询</td></tr>'}</tbody>
+    </table>
+    <table class="summary">
+      <tr><td>咨询次数</td><td class="num">${sessions.length} 次</td></tr>
+      <tr><td>应收合计</td><td class="num">${formatMoney(balance.billed)}</td></tr>
+      <tr><td>已收</td><td class="num">${formatMoney(balance.paid)}</td></tr>
+      ${balance.waived ? `<tr><td>减免</td><td class="num">${formatMoney(balance.waived)}</td></tr>` : ''}
+      <tr><td><strong>未付</strong></td><td class="num"><strong>${formatMoney(balance.outstanding)}</strong></td></tr>
+    </table>
+    <p class="muted">开具日期：${format(Date.now(), 'yyyy-MM-dd')}</p>
+  `;
+};
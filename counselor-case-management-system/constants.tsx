@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { ConflictPolicy, FileCategory, HourCountingRule, IcsPrivacy, NoteTemplate, SessionType, WorkingHoursRange } from './types';
 
 export const STATUS_COLORS: Record<string, string> = {
   Potential: 'bg-blue-100 text-blue-800 border-blue-200',
@@ -15,6 +16,18 @@ export const APPOINTMENT_COLORS: Record<string, string> = {
   Canceled: '#ef4444',  // red-500
 };
 
+export const APPOINTMENT_STATUS_LABELS: Record<string, string> = {
+  Scheduled: '待执行',
+  Completed: '已完成',
+  Canceled: '已取消',
+};
+
+// Imported external commitments (read-only)
+export const BUSY_COLOR = '#9ca3af'; // gray-400
+
+// Background shading of blocked dates
+export const BLOCKED_DATE_COLOR = '#fecaca'; // red-200
+
 export const DEFAULT_NOTE_TEMPLATE = `
 # 咨询记录
 
@@ -31,15 +44,104 @@ export const DEFAULT_NOTE_TEMPLATE = `
 - 
 `.trim();
 
+const INTAKE_NOTE_TEMPLATE = `
+# 初始访谈 · {{clientName}}
+
+日期：{{date}} {{startTime}}
+
+## 来访原因与主诉
+- 
+
+## 成长史与家庭背景
+- 
+
+## 风险评估
+- 
+
+## 初步评估与咨询设置
+- 
+`.trim();
+
+const TERMINATION_NOTE_TEMPLATE = `
+# 结案记录 · {{clientName}}
+
+第 {{sessionNumber}} 次咨询，{{date}} {{startTime}}
+
+## 咨询回顾
+- 
+
+## 目标达成情况
+- 
+
+## 结案原因与后续建议
+- 
+`.trim();
+
+const SUPERVISION_NOTE_TEMPLATE = `
+# 督导记录 · {{clientName}}
+
+日期：{{date}}
+
+## 讨论的问题
+- 
+
+## 督导意见
+- 
+
+## 后续行动
+- [ ] 
+`.trim();
+
+export const DEFAULT_NOTE_TEMPLATES: NoteTemplate[] = [
+  { id: 'default-intake', name: '初始访谈', category: FileCategory.SessionNote, sessionType: SessionType.Intake, content: INTAKE_NOTE_TEMPLATE },
+  { id: 'default-regular', name: '常规咨询记录', category: FileCategory.SessionNote, sessionType: SessionType.Regular, content: DEFAULT_NOTE_TEMPLATE },
+  { id: 'default-termination', name: '结案记录', category: FileCategory.SessionNote, sessionType: SessionType.Termination, content: TERMINATION_NOTE_TEMPLATE },
+  { id: 'default-supervision', name: '督导记录', category: FileCategory.Supervision, content: SUPERVISION_NOTE_TEMPLATE },
+].map(t => ({ ...t, isDefault: true, createdAt: 0, updatedAt: 0 }));
+
+// The calendar used to show 09:00–21:00 on every day
+export const DEFAULT_WORKING_HOURS: WorkingHoursRange[] = [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, start: '09:00', end: '21:00' }));
+
+// Bump together with a new entry in MIGRATIONS (migrations.ts)
+export const SCHEMA_VERSION = 17;
+
 export const INITIAL_STATE = {
+  schemaVersion: SCHEMA_VERSION,
   clients: [],
   appointments: [],
   recurringSeries: [],
+  busyBlocks: [],
   files: [],
+  noteRevisions: [],
+  supervisionSessions: [],
+  scaleResults: [],
   settings: {
     icsPort: 17777,
     icsEnabled: true,
-    noteTemplate: DEFAULT_NOTE_TEMPLATE,
+    icsPrivacy: IcsPrivacy.Initials,
+    noteTemplates: DEFAULT_NOTE_TEMPLATES,
+    customScales: [],
+    customFields: [],
+    revisionKeepCount: 50,
+    revisionKeepDays: 365,
     globalHourAdjustment: 0,
+    hourCountingRule: HourCountingRule.Exact,
+    clinicalHourMinutes: 50,
+    workingHours: DEFAULT_WORKING_HOURS,
+    bufferMinutes: 0,
+    blockedDates: [],
+    conflictPolicy: ConflictPolicy.Warn,
+    autoLockMinutes: 15,
+    syncEnabled: false,
+    syncServerUrl: 'http://localhost:17776',
+    reminderEnabled: false,
+    reminderLeadMinutes: [60, 10],
+    reminderOverdueNotes: true,
+    reminderNoteHours: 24,
+    reminderRiskFollowUps: true,
+    reminderDigest: true,
+    reminderDigestTime: '08:00',
+    reminderPrivacy: IcsPrivacy.Initials,
+    notesQueueSince: 0,
   }
 };
@@ -0,0 +1,23 @@
+// Text starting like a formula is prefixed with ' so spreadsheet apps show it instead of running it;
+// plain numbers, e.g. negative hour adjustments, stay numeric
+const isFormulaLike = (text: string) => /^[=+\-@\t\r]/.test(text) && !/^[-+]?\d+(\.\d+)?$/.test(text);
+
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && isFormulaLike(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// With a BOM so spreadsheet apps pick UTF-8 for Chinese text
+export const toCsv = (rows: (string | number)[][]) =>
+  '\ufeff' + rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const downloadCsv = (content: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8' }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,74 @@
+import { RecordCodec } from './storage';
+
+export interface Sealed {
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext
+}
+
+// Stored in plain text next to the data so the key can be re-derived on unlock
+export interface EncryptionHeader {
+  salt: string; // base64
+  iterations: number;
+  check: Sealed; // CHECK_VALUE sealed with the derived key, to verify a passphrase
+}
+
+const PBKDF2_ITERATIONS = 310000;
+const CHECK_VALUE = 'counselor-case-management';
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so large uploads do not overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const seal = async (key: CryptoKey, value: unknown): Promise<Sealed> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const unseal = async <T = unknown>(key: CryptoKey, sealed: Sealed): Promise<T> => {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+  return JSON.parse(new TextDecoder().decode(plain));
+};
+
+export const createEncryption = async (passphrase: string): Promise<{ key: CryptoKey; header: EncryptionHeader }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    header: { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await seal(key, CHECK_VALUE) },
+  };
+};
+
+export const unlockKey = async (passphrase: string, header: EncryptionHeader): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, fromBase64(header.salt), header.iterations);
+  try {
+    if (await unseal(key, header.check) === CHECK_VALUE) return key;
+  } catch {
+    // AES-GCM rejects a wrong key with an OperationError
+  }
+  throw new Error('口令不正确');
+};
+
+// Each record keeps its id in clear so the object stores stay addressable
+export const createEncryptedCodec = (key: CryptoKey): RecordCodec => ({
+  encode: async record => ({ id: record.id, sealed: await seal(key, record) }),
+  decode: async stored => stored?.sealed ? unseal(key, stored.sealed) : stored,
+});
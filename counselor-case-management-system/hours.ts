@@ -0,0 +1,29 @@
+import { AppState, Appointment, HourCountingRule } from './types';
+
+export type HourPolicy = Pick<AppState['settings'], 'hourCountingRule' | 'clinicalHourMinutes'>;
+
+export const HOUR_RULE_LABELS: Record<HourCountingRule, string> = {
+  [HourCountingRule.Exact]: '按实际时长',
+  [HourCountingRule.ClinicalHour]: '按临床小时取整',
+  [HourCountingRule.PerSession]: '每次咨询计 1 小时',
+};
+
+// Hours credited for one session under the counting rule
+export const sessionHours = (appt: Pick<Appointment, 'startAt' | 'endAt'>, policy: HourPolicy) => {
+  const minutes = Math.max(0, (appt.endAt - appt.startAt) / 60000);
+  switch (policy.hourCountingRule) {
+    case HourCountingRule.PerSession:
+      return 1;
+    case HourCountingRule.ClinicalHour:
+      // Nearest whole clinical hour, but at least 1: a 20- or 50-minute session is 1, a 90-minute one 2
+      return minutes > 0 ? Math.max(1, Math.round(minutes / (policy.clinicalHourMinutes || 50))) : 0;
+    default:
+      return minutes / 60;
+  }
+};
+
+// Each session is credited under the rule first (clinical hours round per session), then the total is rounded to 2 decimals
+export const countHours = (appts: Pick<Appointment, 'startAt' | 'endAt'>[], policy: HourPolicy) =>
+  Math.round(appts.reduce((sum, a) => sum + sessionHours(a, policy), 0) * 100) / 100;
+
+export const formatHours = (hours: number) => String(Math.round(hours * 100) / 100);
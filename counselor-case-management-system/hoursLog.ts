@@ -0,0 +1,186 @@
+import { format } from 'date-fns';
+import { AppState, AppointmentStatus, IcsPrivacy, SupervisionFormat } from './types';
+import { formatHours, sessionHours } from './hours';
+import { ICS_PRIVACY_LABELS, clientLabel } from './ics';
+import { escapeHtml } from './print';
+import { toCsv } from './csv';
+
+export const SUPERVISION_FORMAT_LABELS: Record<SupervisionFormat, string> = {
+  [SupervisionFormat.Individual]: '个体督导',
+  [SupervisionFormat.Group]: '团体督导',
+};
+
+export type LogCategory = 'direct' | SupervisionFormat;
+
+export const LOG_CATEGORY_LABELS: Record<LogCategory, string> = {
+  direct: '直接咨询',
+  ...SUPERVISION_FORMAT_LABELS,
+};
+
+export type LogPeriod = 'month' | 'quarter' | 'year';
+
+export const LOG_PERIOD_LABELS: Record<LogPeriod, string> = {
+  month: '按月',
+  quarter: '按季度',
+  year: '按年',
+};
+
+// How clients are named in exports; the report may leave the practice, so it defaults to the calendar export setting
+export const LOG_PRIVACY_LABELS: Record<IcsPrivacy, string> = {
+  ...ICS_PRIVACY_LABELS,
+  [IcsPrivacy.Generic]: '不显示个案身份',
+};
+
+export interface LogEntry {
+  id: string;
+  at: number;
+  category: LogCategory;
+  durationMin: number;
+  hours: number;
+  clientIds: string[];
+  supervisor?: string;
+}
+
+export interface PeriodTotals {
+  key: string;
+  label: string;
+  direct: number;
+  directSessions: number;
+  [SupervisionFormat.Individual]: number;
+  [SupervisionFormat.Group]: number;
+}
+
+/**
+ * Completed sessions and supervision in [from, to], oldest first. Client hours
+ * follow the counting rule in settings; supervision counts its actual length.
+ */
+export const hoursLogEntries = (state: AppState, from: number, to: number): LogEntry[] => {
+  const direct: LogEntry[] = state.appointments
+    .filter(a => a.status === AppointmentStatus.Completed && a.startAt >= from && a.startAt <= to)
+    .map(a => ({
+      id: a.id,
+      at: a.startAt,
+      category: 'direct',
+      durationMin: Math.round((a.endAt - a.startAt) / 60000),
+      hours: sessionHours(a, state.settings),
+      clientIds: [a.clientId],
+    }));
+  const supervision: LogEntry[] = state.supervisionSessions
+    .filter(s => s.startAt >= from && s.startAt <= to)
+    .map(s => ({
+      id: s.id,
+      at: s.startAt,
+      category: s.format,
+      durationMin: s.durationMin,
+      hours: s.durationMin / 60,
+      clientIds: s.clientIds,
+      supervisor: s.supervisor,
+    }));
+  return [...direct, ...supervision].sort((a, b) => a.at - b.at);
+};
+
+const periodOf = (at: number, period: LogPeriod) => {
+  const d = new Date(at);
+  const year = d.getFullYear();
+  if (period === 'year') return { key: `${year}`, label: `${year}年` };
+  if (period === 'quarter') {
+    const quarter = Math.floor(d.getMonth() / 3) + 1;
+    return { key: `${year}-Q${quarter}`, label: `${year}年第${quarter}季度` };
+  }
+  return { key: format(d, 'yyyy-MM'), label: `${year}年${d.getMonth() + 1}月` };
+};
+
+const emptyTotals = (key: string, label: string): PeriodTotals => ({
+  key,
+  label,
+  direct: 0,
+  directSessions: 0,
+  [SupervisionFormat.Individual]: 0,
+  [SupervisionFormat.Group]: 0,
+});
+
+const addEntry = (totals: PeriodTotals, entry: LogEntry) => {
+  totals[entry.category] += entry.hours;
+  if (entry.category === 'direct') totals.directSessions++;
+};
+
+export const totalsByPeriod = (entries: LogEntry[], period: LogPeriod): PeriodTotals[] => {
+  const byKey = new Map<string, PeriodTotals>();
+  entries.forEach(entry => {
+    const { key, label } = periodOf(entry.at, period);
+    if (!byKey.has(key)) byKey.set(key, emptyTotals(key, label));
+    addEntry(byKey.get(key)!, entry);
+  });
+  return Array.from(byKey.values()).sort((a, b) => a.key.localeCompare(b.key));
+};
+
+export const grandTotals = (entries: LogEntry[]): PeriodTotals => {
+  const totals = emptyTotals('total', '合计');
+  entries.forEach(entry => addEntry(totals, entry));
+  return totals;
+};
+
+const describeClients = (state: AppState, clientIds: string[], privacy: IcsPrivacy) =>
+  clientIds
+    .map(id => state.clients.find(c => c.id === id))
+    .map(c => c ? clientLabel(c, privacy) : '已删除个案')
+    .join('、');
+
+export const hoursLogCsv = (state: AppState, entries: LogEntry[], privacy: IcsPrivacy) => {
+  const header = ['日期', '开始时间', '类别', '时长（分钟）', '计入时数', '个案', '督导师'];
+  const rows = entries.map(e => [
+    format(e.at, 'yyyy-MM-dd'),
+    format(e.at, 'HH:mm'),
+    LOG_CATEGORY_LABELS[e.category],
+    e.durationMin,
+    formatHours(e.hours),
+    describeClients(state, e.clientIds, privacy),
+    e.supervisor || '',
+  ]);
+  return toCsv([header, ...rows]);
+};
+
+const totalsRow = (t: PeriodTotals, tag: 'td' | 'th' = 'td') => {
+  const supervision = t[SupervisionFormat.Individual] + t[SupervisionFormat.Group];
+  return `<tr>
+    <${tag}>${escapeHtml(t.label)}</${tag}>
+    <${tag} class="num">${formatHours(t.direct)}</${tag}>
+    <${tag} class="num">${t.directSessions}</${tag}>
+    <${tag} class="num">${formatHours(t[SupervisionFormat.Individual])}</${tag}>
+    <${tag} class="num">${formatHours(t[SupervisionFormat.Group])}</${tag}>
+    <${tag} class="num">${formatHours(supervision)}</${tag}>
+  </tr>`;
+};
+
+// Body of the printable report: totals per period, the itemised log and signature lines
+export const hoursLogHtml = (
+  state: AppState,
+  entries: LogEntry[],
+  options: { period: LogPeriod; privacy: IcsPrivacy; from: number; to: number }
+) => {
+  const detail = entries.map(e => `<tr>
+    <td>${format(e.at, 'yyyy-MM-dd HH:mm')}</td>
+    <td>${LOG_CATEGORY_LABELS[e.category]}</td>
+    <td class="num">${e.durationMin}</td>
+    <td class="num">${formatHours(e.hours)}</td>
+    <td>${escapeHtml(describeClients(state, e.clientIds, options.privacy))}</td>
+    <td>${escapeHtml(e.supervisor || '')}</td>
+  </tr>`).join('');
+
+  return `
+    <h1>咨询与督导时数记录</h1>
+    <p class="muted">期间：${format(options.from, 'yyyy-MM-dd')} 至 ${format(options.to, 'yyyy-MM-dd')}</p>
+    <table>
+      <thead><tr><th>期间</th><th class="num">直接咨询（小时）</th><th class="num">咨询次数</th><th class="num">个体督导（小时）</th><th class="num">团体督导（小时）</th><th class="num">督导合计（小时）</th></tr></thead>
+      <tbody>${totalsByPeriod(entries, options.period).map(t => totalsRow(t)).join('')}${totalsRow(grandTotals(entries), 'th')}</tbody>
+    </table>
+    <h2 style="font-size: 15px; margin-top: 24px;">明细</h2>
+    <table>
+      <thead><tr><th>时间</th><th>类别</th><th class="num">时长（分钟）</th><th class="num">计入时数</th><th>个案</th><th>督导师</th></tr></thead>
+      <tbody>${detail || '<tr><td colspan="6" class="muted">该期间没有记录</td></tr>'}</tbody>
+    </table>
+    <table class="summary" style="margin-top: 48px;">
+      <tr><td>咨询师签名：________________</td><td>督导师签名：________________</td><td>日期：____________</td></tr>
+    </table>
+  `;
+};
@@ -0,0 +1,550 @@
+import { AppState, Appointment, AppointmentStatus, BusyBlock, Client, IcsPrivacy, RecurringSeries } from './types';
+import { RRule, WEEKDAYS as RRULE_WEEKDAYS, getSeriesRule, buildRRule, parseRRule } from './recurrence';
+import { uuid } from './store';
+
+export const ICS_PRIVACY_LABELS: Record<IcsPrivacy, string> = {
+  [IcsPrivacy.FullName]: '完整姓名',
+  [IcsPrivacy.Initials]: '姓氏 / 首字母',
+  [IcsPrivacy.ClientCode]: '个案编号',
+  [IcsPrivacy.Generic]: '仅显示“咨询”',
+};
+
+const PRODID = '-//CaseManager//Counselor Case Management//CN';
+const UID_DOMAIN = 'casemanager.local';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatUtc = (at: number) => {
+  const d = new Date(at);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+const formatLocal = (at: number | Date) => {
+  const d = new Date(at);
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}T${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+};
+
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC5545 §3.1: lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// Stable short code derived from the client id, so it survives renames
+export const clientCode = (client: Pick<Client, 'id'>) => {
+  let hash = 0;
+  for (const char of client.id) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return `C-${hash.toString(36).toUpperCase().padStart(4, '0').slice(-4)}`;
+};
+
+const initialsOf = (name: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) return '个案';
+  // CJK names keep the surname only, Latin names become initials
+  if (/^[\u4e00-\u9fff]/.test(trimmed)) return `${trimmed[0]}某`;
+  return trimmed.split(/\s+/).map(w => `${w[0].toUpperCase()}.`).join('');
+};
+
+// How a client is named in anything that leaves the app (calendar feeds, exported reports)
+export const clientLabel = (client: Pick<Client, 'id' | 'name'>, privacy: IcsPrivacy) => {
+  if (privacy === IcsPrivacy.FullName) return client.name;
+  if (privacy === IcsPrivacy.ClientCode) return clientCode(client);
+  if (privacy === IcsPrivacy.Initials) return initialsOf(client.name);
+  return '个案';
+};
+
+export const eventTitle = (client: Pick<Client, 'id' | 'name'> | undefined, privacy: IcsPrivacy) => {
+  if (!client || privacy === IcsPrivacy.Generic) return '咨询';
+  return `咨询 · ${clientLabel(client, privacy)}`;
+};
+
+const offsetAt = (at: Date) => -at.getTimezoneOffset();
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes >= 0 ? '+' : '-';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+// First instant in `year` (from the start of `fromMonth`) at which the UTC offset changes
+const findTransition = (year: number, fromMonth: number) => {
+  const day = new Date(year, fromMonth, 1);
+  const start = offsetAt(day);
+  while (day.getFullYear() === year) {
+    const next = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    if (offsetAt(next) !== start) {
+      const hour = new Date(day);
+      while (offsetAt(hour) === start) hour.setTime(hour.getTime() + 60 * 60 * 1000);
+      return { at: hour, from: start, to: offsetAt(hour) };
+    }
+    day.setTime(next.getTime());
+  }
+  return null;
+};
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const transitionRule = (at: Date) => {
+  const daysInMonth = new Date(at.getFullYear(), at.getMonth() + 1, 0).getDate();
+  const nth = at.getDate() + 7 > daysInMonth ? -1 : Math.ceil(at.getDate() / 7);
+  return `FREQ=YEARLY;BYMONTH=${at.getMonth() + 1};BYDAY=${nth}${WEEKDAYS[at.getDay()]}`;
+};
+
+/**
+ * VTIMEZONE for the browser's zone. Zones without DST get one STANDARD block;
+ * otherwise both transitions of the current year are described as yearly rules.
+ */
+const buildTimezone = (tzid: string) => {
+  const year = new Date().getFullYear();
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${tzid}`];
+  const first = findTransition(year, 0);
+  const second = first && findTransition(year, first.at.getMonth() + 1);
+  if (!first || !second) {
+    const offset = formatOffset(offsetAt(new Date(year, 0, 1)));
+    lines.push('BEGIN:STANDARD', `DTSTART:${year}0101T000000`, `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  } else {
+    [first, second].forEach(t => {
+      const kind = t.to > t.from ? 'DAYLIGHT' : 'STANDARD';
+      lines.push(
+        `BEGIN:${kind}`,
+        // Wall-clock time of the transition, still expressed in the old offset
+        `DTSTART:${formatUtc(t.at.getTime() + t.from * 60 * 1000).slice(0, -1)}`,
+        `RRULE:${transitionRule(t.at)}`,
+        `TZOFFSETFROM:${formatOffset(t.from)}`,
+        `TZOFFSETTO:${formatOffset(t.to)}`,
+        `END:${kind}`
+      );
+    });
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+export interface IcsOptions {
+  privacy: IcsPrivacy;
+  calendarName?: string;
+}
+
+/**
+ * Serializes appointments and recurring series as an RFC5545 calendar.
+ * Series become one VEVENT with RRULE/EXDATE; moved or completed occurrences
+ * are overrides sharing the series UID with a RECURRENCE-ID. Canceled sessions are left out.
+ */
+export const serializeIcs = (state: AppState, { privacy, calendarName = '咨询排班' }: IcsOptions) => {
+  const tzid = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  const stamp = formatUtc(Date.now());
+  const clients = new Map(state.clients.map(c => [c.id, c]));
+  const seriesIds = new Set(state.recurringSeries.map(s => s.id));
+  const local = (name: string, at: number) => `${name};TZID=${tzid}:${formatLocal(at)}`;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${tzid}`,
+    ...buildTimezone(tzid),
+  ];
+
+  const pushEvent = (uid: string, appt: Pick<Appointment, 'clientId' | 'startAt' | 'endAt' | 'updatedAt'>, extra: string[]) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${formatUtc(appt.updatedAt)}`,
+      local('DTSTART', appt.startAt),
+      local('DTEND', appt.endAt),
+      `SUMMARY:${escapeText(eventTitle(clients.get(appt.clientId), privacy))}`,
+      ...extra,
+      'END:VEVENT'
+    );
+  };
+
+  state.recurringSeries.forEach(series => {
+    const rule = getSeriesRule(series);
+    if (!rule) return;
+    const exceptions = state.appointments.filter(a => a.recurringSeriesId === series.id && a.originalInstanceAt !== undefined);
+    const exdates = [
+      ...(series.exdates || []),
+      ...exceptions.filter(a => a.status === AppointmentStatus.Canceled).map(a => a.originalInstanceAt!),
+    ].sort((a, b) => a - b);
+
+    pushEvent(series.id, {
+      clientId: series.clientId,
+      startAt: series.dtstart,
+      endAt: series.dtstart + series.durationMin * 60 * 1000,
+      updatedAt: series.updatedAt,
+    }, [
+      `RRULE:${buildRRule(rule)}`,
+      ...(exdates.length ? [`EXDATE;TZID=${tzid}:${exdates.map(formatLocal).join(',')}`] : []),
+      'STATUS:CONFIRMED',
+    ]);
+
+    exceptions
+      .filter(a => a.status !== AppointmentStatus.Canceled)
+      .forEach(a => pushEvent(series.id, a, [local('RECURRENCE-ID', a.originalInstanceAt!), 'STATUS:CONFIRMED']));
+  });
+
+  state.appointments
+    .filter(a => a.status !== AppointmentStatus.Canceled)
+    // Occurrence overrides were emitted with their series above
+    .filter(a => !(a.recurringSeriesId && seriesIds.has(a.recurringSeriesId) && a.originalInstanceAt !== undefined))
+    .forEach(a => pushEvent(a.id, a, ['STATUS:CONFIRMED']));
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+export const downloadIcs = (content: string, filename = 'calendar.ics') => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/calendar;charset=utf-8' }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
+
+export interface IcsEvent {
+  uid: string; // Dedupe key: the VEVENT UID, suffixed with the RECURRENCE-ID for overrides
+  masterUid: string;
+  summary: string;
+  startAt: number;
+  endAt: number;
+  allDay: boolean;
+  rule?: RRule;
+  // RRULE uses parts the scheduler cannot expand; only the first occurrence is kept
+  unsupportedRule: boolean;
+  exdates: number[];
+  recurrenceId?: number;
+  canceled: boolean;
+  transparent: boolean; // TRANSP:TRANSPARENT, i.e. marked as free time
+}
+
+export interface ParsedIcs {
+  calendarName?: string;
+  events: IcsEvent[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\;,nN])/g, (_m, c) => (c === 'n' || c === 'N' ? '\n' : c));
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon that is not inside a quoted parameter
+  let quoted = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+  const [name, ...rawParams] = line.slice(0, split).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+};
+
+// Offset of `tz` from UTC at the given instant, in ms
+const zoneOffset = (tz: string, at: number) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - Math.floor(at / 1000) * 1000;
+};
+
+const zonedToUtc = (fields: number[], tz: string) => {
+  const [y, mo, d, h, mi, sec] = fields;
+  const wall = Date.UTC(y, mo - 1, d, h, mi, sec);
+  try {
+    // Second pass corrects the guess when it lands on the other side of a DST change
+    const first = wall - zoneOffset(tz, wall);
+    return wall - zoneOffset(tz, first);
+  } catch {
+    // Unknown zone names (e.g. Windows ids like "China Standard Time") fall back to local time
+    return new Date(y, mo - 1, d, h, mi, sec).getTime();
+  }
+};
+
+const parseIcsDate = (value: string, params: Record<string, string>): { at: number; allDay: boolean } | null => {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, sec, utc] = m;
+  if (h === undefined || params.VALUE === 'DATE') {
+    return { at: new Date(+y, +mo - 1, +d).getTime(), allDay: true };
+  }
+  const fields = [+y, +mo, +d, +h, +mi, +(sec || 0)];
+  if (utc) return { at: Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]), allDay: false };
+  if (params.TZID) return { at: zonedToUtc(fields, params.TZID.replace(/^\//, '')), allDay: false };
+  return { at: new Date(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]).getTime(), allDay: false };
+};
+
+const parseDuration = (value: string) => {
+  const m = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, sign, w, d, h, mi, sec] = m;
+  const ms = ((+(w || 0) * 7 + +(d || 0)) * 86400 + +(h || 0) * 3600 + +(mi || 0) * 60 + +(sec || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const UNSUPPORTED_RULE_PARTS = ['BYMONTHDAY', 'BYSETPOS', 'BYMONTH', 'BYYEARDAY', 'BYWEEKNO', 'BYHOUR', 'BYMINUTE', 'BYSECOND'];
+
+// Maps an RRULE onto what recurrence.ts can expand, or null when it cannot
+const toSupportedRule = (value: string): RRule | null => {
+  const keys = value.toUpperCase().split(';').map(part => part.split('='));
+  const byDay = keys.find(([k]) => k === 'BYDAY')?.[1] || '';
+  if (keys.some(([k]) => UNSUPPORTED_RULE_PARTS.includes(k))) return null;
+  // Ordinal weekdays (e.g. 2TU, -1FR) only make sense for monthly/yearly rules we do not expand
+  if (byDay && !byDay.split(',').every(d => RRULE_WEEKDAYS.includes(d))) return null;
+  const rule = parseRRule(value);
+  if (!rule) return null;
+  if (rule.freq === 'MONTHLY' && rule.byDay.length) return null;
+  // DAILY;BYDAY=MO,...,FR is the common "every weekday" rule
+  if (rule.freq === 'DAILY' && rule.byDay.length) {
+    return rule.interval === 1 ? { ...rule, freq: 'WEEKLY' } : null;
+  }
+  return rule;
+};
+
+/**
+ * Parses the VEVENTs of an RFC5545 calendar. Nested components such as VALARM
+ * are ignored; times with a TZID are converted through Intl.
+ */
+export const parseIcs = (text: string): ParsedIcs => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('文件不是有效的 iCalendar (.ics) 格式');
+  }
+
+  let calendarName: string | undefined;
+  const events: IcsEvent[] = [];
+  const stack: string[] = [];
+  let props: ContentLine[] = [];
+
+  const finishEvent = () => {
+    const get = (name: string) => props.find(p => p.name === name);
+    const dtstart = get('DTSTART');
+    const start = dtstart && parseIcsDate(dtstart.value, dtstart.params);
+    if (!start) return;
+
+    const dtend = get('DTEND');
+    const end = dtend && parseIcsDate(dtend.value, dtend.params);
+    const duration = get('DURATION');
+    const length = end
+      ? end.at - start.at
+      : duration
+      ? parseDuration(duration.value) ?? 0
+      : start.allDay ? 24 * 60 * 60 * 1000 : 0;
+
+    const rrule = get('RRULE');
+    const rule = rrule ? toSupportedRule(rrule.value) : null;
+    const recurrence = get('RECURRENCE-ID');
+    const recurrenceId = recurrence ? parseIcsDate(recurrence.value, recurrence.params)?.at : undefined;
+    const summary = unescapeText(get('SUMMARY')?.value || '');
+    const masterUid = get('UID')?.value || `${start.at}-${summary}`;
+
+    events.push({
+      uid: recurrenceId !== undefined ? `${masterUid}#${recurrenceId}` : masterUid,
+      masterUid,
+      summary,
+      startAt: start.at,
+      endAt: start.at + Math.max(0, length),
+      allDay: start.allDay,
+      rule: rule || undefined,
+      unsupportedRule: !!rrule && !rule,
+      exdates: props
+        .filter(p => p.name === 'EXDATE')
+        .flatMap(p => p.value.split(',').map(v => parseIcsDate(v, p.params)?.at))
+        .filter((at): at is number => at !== undefined),
+      recurrenceId,
+      canceled: get('STATUS')?.value.toUpperCase() === 'CANCELLED',
+      transparent: get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT',
+    });
+  };
+
+  lines.forEach(raw => {
+    const line = parseContentLine(raw.trim());
+    if (!line) return;
+    if (line.name === 'BEGIN') {
+      stack.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === 'VEVENT') props = [];
+      return;
+    }
+    if (line.name === 'END') {
+      if (stack.pop() === 'VEVENT') finishEvent();
+      return;
+    }
+    const current = stack[stack.length - 1];
+    if (current === 'VEVENT') props.push(line);
+    else if (current === 'VCALENDAR' && line.name === 'X-WR-CALNAME') calendarName = unescapeText(line.value);
+  });
+
+  return { calendarName, events };
+};
+
+export type IcsImportTarget = 'busy' | 'appointments';
+
+export interface ImportCounts {
+  added: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+}
+
+export interface IcsImportResult extends ImportCounts {
+  state: AppState;
+}
+
+interface ImportedRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Updates the record matched by UID in place, keeping its id, or appends a new one
+const upsert = <T extends ImportedRecord>(records: T[], existing: T | undefined, fields: Omit<T, keyof ImportedRecord>, counts: ImportCounts): T[] => {
+  if (!existing) {
+    counts.added += 1;
+    return [...records, { ...fields, id: uuid(), createdAt: Date.now(), updatedAt: Date.now() } as T];
+  }
+  const changed = (Object.keys(fields) as (keyof typeof fields)[])
+    .some(key => JSON.stringify(existing[key as keyof T]) !== JSON.stringify(fields[key]));
+  if (!changed) {
+    counts.unchanged += 1;
+    return records;
+  }
+  counts.updated += 1;
+  return records.map(r => r === existing ? { ...r, ...fields, updatedAt: Date.now() } : r);
+};
+
+// RRULE fields in the shape RecurringSeries and BusyBlock store them
+const storedRule = (rule: RRule) => ({
+  rrule: buildRRule({ ...rule, count: undefined, until: undefined }),
+  untilAt: rule.until,
+  count: rule.count,
+});
+
+// EXDATEs of a master plus the instances replaced or canceled by override VEVENTs
+const exdatesOf = (master: IcsEvent, events: IcsEvent[], includeOverrides: boolean) =>
+  Array.from(new Set([
+    ...master.exdates,
+    ...events
+      .filter(e => e.masterUid === master.masterUid && e.recurrenceId !== undefined && (includeOverrides || e.canceled))
+      .map(e => e.recurrenceId!),
+  ])).sort((a, b) => a - b);
+
+/**
+ * Imports events as read-only busy blocks. Overrides of a recurring event become
+ * their own blocks, with the replaced instance excluded from the master.
+ */
+export const importAsBusy = (state: AppState, parsed: ParsedIcs, source: string): IcsImportResult => {
+  const counts: ImportCounts = { added: 0, updated: 0, unchanged: 0, skipped: 0 };
+  let busyBlocks = state.busyBlocks;
+
+  parsed.events.forEach(event => {
+    if (event.canceled || event.transparent || event.endAt <= event.startAt) {
+      counts.skipped += 1;
+      return;
+    }
+    const existing = busyBlocks.find(b => b.uid === event.uid);
+    busyBlocks = upsert<BusyBlock>(busyBlocks, existing, {
+      uid: event.uid,
+      source,
+      title: event.summary || '忙碌',
+      startAt: event.startAt,
+      endAt: event.endAt,
+      ...(event.rule
+        ? { ...storedRule(event.rule), exdates: exdatesOf(event, parsed.events, true) }
+        : { rrule: undefined, untilAt: undefined, count: undefined, exdates: undefined }),
+    }, counts);
+  });
+
+  return { ...counts, state: { ...state, busyBlocks } };
+};
+
+/**
+ * Imports timed events as Scheduled appointments of one client. Recurring events
+ * become series; their overrides become stored exceptions of that series.
+ * All-day events are skipped, since they do not describe a session.
+ */
+export const importAsAppointments = (state: AppState, parsed: ParsedIcs, clientId: string): IcsImportResult => {
+  const counts: ImportCounts = { added: 0, updated: 0, unchanged: 0, skipped: 0 };
+  let { appointments, recurringSeries } = state;
+  const usable = (e: IcsEvent) => !e.canceled && !e.allDay && e.endAt > e.startAt;
+
+  parsed.events.filter(e => e.rule && e.recurrenceId === undefined).forEach(event => {
+    if (!usable(event)) {
+      counts.skipped += 1;
+      return;
+    }
+    const existing = recurringSeries.find(s => s.externalUid === event.uid);
+    recurringSeries = upsert<RecurringSeries>(recurringSeries, existing, {
+      clientId,
+      dtstart: event.startAt,
+      durationMin: Math.round((event.endAt - event.startAt) / 60000),
+      ...storedRule(event.rule!),
+      exdates: exdatesOf(event, parsed.events, false),
+      externalUid: event.uid,
+    }, counts);
+  });
+
+  parsed.events.filter(e => !e.rule || e.recurrenceId !== undefined).forEach(event => {
+    const series = event.recurrenceId !== undefined
+      ? recurringSeries.find(s => s.externalUid === event.masterUid)
+      : undefined;
+    // Canceled overrides are already EXDATEs of their series
+    if (event.canceled && series) return;
+    if (!usable(event)) {
+      counts.skipped += 1;
+      return;
+    }
+    const existing = appointments.find(a => a.externalUid === event.uid);
+    appointments = upsert<Appointment>(appointments, existing, {
+      clientId,
+      startAt: event.startAt,
+      endAt: event.endAt,
+      status: existing?.status ?? AppointmentStatus.Scheduled,
+      recurringSeriesId: series?.id,
+      originalInstanceAt: series ? event.recurrenceId : undefined,
+      externalUid: event.uid,
+    }, counts);
+  });
+
+  return { ...counts, state: { ...state, appointments, recurringSeries } };
+};
+
+export const importIcs = (state: AppState, parsed: ParsedIcs, target: IcsImportTarget, options: { source: string; clientId: string }) =>
+  target === 'busy' ? importAsBusy(state, parsed, options.source) : importAsAppointments(state, parsed, options.clientId);
@@ -0,0 +1,131 @@
+import { differenceInYears, format } from 'date-fns';
+import { AppState, Client, ClientIntake, CustomFieldDefinition, CustomFieldType, Gender } from './types';
+import { toCsv } from './csv';
+
+export const GENDER_LABELS: Record<Gender, string> = {
+  [Gender.Female]: '女',
+  [Gender.Male]: '男',
+  [Gender.Other]: '其他',
+  [Gender.Undisclosed]: '不愿透露',
+};
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  [CustomFieldType.Text]: '文本',
+  [CustomFieldType.Number]: '数字',
+  [CustomFieldType.Date]: '日期',
+  [CustomFieldType.Select]: '单选',
+};
+
+export interface IntakeField {
+  key: keyof ClientIntake;
+  label: string;
+  input: 'text' | 'tel' | 'email' | 'date' | 'gender' | 'textarea';
+  group: 'contact' | 'emergency' | 'background';
+}
+
+export const INTAKE_GROUP_LABELS: Record<IntakeField['group'], string> = {
+  contact: '联系方式',
+  emergency: '紧急联系人',
+  background: '基本情况',
+};
+
+export const INTAKE_FIELDS: IntakeField[] = [
+  { key: 'phone', label: '电话', input: 'tel', group: 'contact' },
+  { key: 'email', label: '邮箱', input: 'email', group: 'contact' },
+  { key: 'wechat', label: '微信', input: 'text', group: 'contact' },
+  { key: 'emergencyContactName', label: '姓名', input: 'text', group: 'emergency' },
+  { key: 'emergencyContactRelation', label: '关系', input: 'text', group: 'emergency' },
+  { key: 'emergencyContactPhone', label: '电话', input: 'tel', group: 'emergency' },
+  { key: 'birthDate', label: '出生日期', input: 'date', group: 'background' },
+  { key: 'gender', label: '性别', input: 'gender', group: 'background' },
+  { key: 'occupation', label: '职业', input: 'text', group: 'background' },
+  { key: 'referralSource', label: '来源渠道', input: 'text', group: 'background' },
+  { key: 'firstContactDate', label: '首次接触日期', input: 'date', group: 'background' },
+  { key: 'presentingProblem', label: '主诉问题', input: 'textarea', group: 'background' },
+];
+
+export const ageOf = (birthDate: string | undefined, now = Date.now()) => {
+  if (!birthDate) return undefined;
+  const born = new Date(`${birthDate}T00:00:00`);
+  return isNaN(born.getTime()) ? undefined : differenceInYears(now, born);
+};
+
+/**
+ * A client attribute that can be filtered on and exported: the filterable
+ * intake fields, age, and every custom field from settings. `value` returns
+ * text as shown to the user, e.g. the gender label rather than the enum.
+ */
+export interface ClientField {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  value: (client: Client) => string | undefined;
+}
+
+const intakeText = (key: keyof ClientIntake) => (client: Client) => client.intake?.[key] || undefined;
+
+export const clientFields = (customFields: CustomFieldDefinition[]): ClientField[] => [
+  { key: 'gender', label: '性别', type: CustomFieldType.Select, options: Object.values(GENDER_LABELS), value: c => c.intake?.gender && GENDER_LABELS[c.intake.gender] },
+  { key: 'age', label: '年龄', type: CustomFieldType.Number, options: [], value: c => ageOf(c.intake?.birthDate)?.toString() },
+  { key: 'occupation', label: '职业', type: CustomFieldType.Text, options: [], value: intakeText('occupation') },
+  { key: 'referralSource', label: '来源渠道', type: CustomFieldType.Text, options: [], value: intakeText('referralSource') },
+  { key: 'presentingProblem', label: '主诉问题', type: CustomFieldType.Text, options: [], value: intakeText('presentingProblem') },
+  { key: 'firstContactDate', label: '首次接触日期', type: CustomFieldType.Date, options: [], value: intakeText('firstContactDate') },
+  ...customFields.map(def => ({
+    key: `custom:${def.id}`,
+    label: def.label,
+    type: def.type,
+    options: def.options,
+    value: (c: Client) => c.customFields?.[def.id] || undefined,
+  })),
+];
+
+// Text matches a substring, select an exact choice; number and date take an inclusive range
+export interface FieldFilter {
+  key: string;
+  text: string;
+  from: string;
+  to: string;
+}
+
+export const isFilterActive = (filter: FieldFilter) => !!filter.key && !!(filter.text || filter.from || filter.to);
+
+export const matchesFieldFilter = (field: ClientField, client: Client, filter: FieldFilter) => {
+  const value = field.value(client);
+  switch (field.type) {
+    case CustomFieldType.Select:
+      return !filter.text || value === filter.text;
+    case CustomFieldType.Text:
+      return !filter.text || (value ?? '').toLowerCase().includes(filter.text.toLowerCase());
+    case CustomFieldType.Number: {
+      if (!filter.from && !filter.to) return true;
+      const n = Number(value);
+      if (value === undefined || isNaN(n)) return false;
+      return (!filter.from || n >= Number(filter.from)) && (!filter.to || n <= Number(filter.to));
+    }
+    case CustomFieldType.Date:
+      if (!filter.from && !filter.to) return true;
+      if (!value) return false;
+      return (!filter.from || value >= filter.from) && (!filter.to || value <= filter.to);
+  }
+};
+
+// One row per client with every intake and custom field
+export const clientsCsv = (state: AppState, clients: Client[]) => {
+  const custom = state.settings.customFields;
+  const intakeColumns = INTAKE_FIELDS.map(f => f.group === 'emergency' ? `紧急联系人${f.label}` : f.label);
+  const header = ['姓名', '状态', '标签', ...intakeColumns, '年龄', ...custom.map(f => f.label), '创建日期'];
+  const rows = clients.map(c => [
+    c.name,
+    c.status,
+    c.tags.join(' '),
+    ...INTAKE_FIELDS.map(f => f.key === 'gender'
+      ? (c.intake?.gender ? GENDER_LABELS[c.intake.gender] : '')
+      : c.intake?.[f.key] || ''),
+    ageOf(c.intake?.birthDate) ?? '',
+    ...custom.map(f => c.customFields?.[f.id] || ''),
+    format(c.createdAt, 'yyyy-MM-dd'),
+  ]);
+  return toCsv([header, ...rows]);
+};
@@ -0,0 +1,67 @@
+import { differenceInCalendarDays, endOfQuarter, startOfQuarter } from 'date-fns';
+import { AppState, Client, ClientStatus, StatusChange } from './types';
+
+export type StatusChangeDetails = Pick<StatusChange, 'reason' | 'terminationSummary' | 'referral'>;
+
+export const changeClientStatus = (
+  state: AppState,
+  clientId: string,
+  to: ClientStatus,
+  details: StatusChangeDetails,
+  now = Date.now(),
+): AppState => ({
+  ...state,
+  clients: state.clients.map(c => {
+    if (c.id !== clientId || c.status === to) return c;
+    const change: StatusChange = { from: c.status, to, at: now, ...details };
+    return { ...c, status: to, statusHistory: [...(c.statusHistory || []), change], updatedAt: now };
+  }),
+});
+
+// When the client entered their current status, if the history covers it
+export const currentStatusSince = (client: Client) => {
+  const history = client.statusHistory || [];
+  const last = history[history.length - 1];
+  return last?.to === client.status ? last.at : undefined;
+};
+
+/**
+ * Time from first being a Potential client to first becoming Active after
+ * that. Clients created as Active, or whose history starts later, have none.
+ */
+export const timeToActive = (client: Client) => {
+  const history = client.statusHistory || [];
+  const potential = history.find(h => h.to === ClientStatus.Potential);
+  if (!potential) return undefined;
+  const active = history.find(h => h.to === ClientStatus.Active && h.at >= potential.at);
+  return active ? active.at - potential.at : undefined;
+};
+
+export const averageDaysToActive = (clients: Client[]) => {
+  const days = clients
+    .map(timeToActive)
+    .filter((ms): ms is number => ms !== undefined)
+    .map(ms => ms / 86400000);
+  return {
+    count: days.length,
+    average: days.length ? days.reduce((sum, d) => sum + d, 0) / days.length : undefined,
+  };
+};
+
+// Clients moved to Closed in the range, each with their latest such change; most recent first
+export const closedBetween = (clients: Client[], from: number, to: number) =>
+  clients
+    .map(client => {
+      const closings = (client.statusHistory || []).filter(h => h.to === ClientStatus.Closed && h.at >= from && h.at <= to);
+      return { client, change: closings[closings.length - 1] };
+    })
+    .filter((c): c is { client: Client; change: StatusChange } => !!c.change)
+    .sort((a, b) => b.change.at - a.change.at);
+
+export const closedThisQuarter = (clients: Client[], now = Date.now()) =>
+  closedBetween(clients, startOfQuarter(now).getTime(), endOfQuarter(now).getTime());
+
+export const daysInStatus = (client: Client, now = Date.now()) => {
+  const since = currentStatusSince(client);
+  return since === undefined ? undefined : differenceInCalendarDays(now, since);
+};
@@ -0,0 +1,354 @@
+import React, { useMemo } from 'react';
+
+/**
+ * A small Markdown subset for notes: headings, paragraphs, (nested) lists with
+ * GFM task items, block quotes, fenced code, rules and inline emphasis, code
+ * and links. Rendering builds React elements from the parsed tree, so raw HTML
+ * in a note shows up as text and is never injected into the page.
+ */
+
+type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'br' };
+
+interface ListItem {
+  line: number; // Source line of the item marker, used to toggle checkboxes
+  checked: boolean | null; // null when the item is not a task
+  children: Inline[];
+  blocks: Block[];
+}
+
+type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'quote'; blocks: Block[] }
+  | { type: 'code'; text: string }
+  | { type: 'hr' };
+
+interface Line {
+  text: string;
+  line: number;
+}
+
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(```+|~~~+)/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const TASK = /^\[([ xX])\](?:\s+(.*))?$/;
+const TASK_MARKER = /^(\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/;
+const SAFE_URL = /^(https?:|mailto:|tel:|#)/i;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!~>|]/;
+
+const indentOf = (text: string) => text.match(/^\s*/)![0].length;
+const isBlank = (text: string) => !text.trim();
+const startsBlock = (text: string) =>
+  HEADING.test(text) || RULE.test(text) || FENCE.test(text) || QUOTE.test(text) || LIST_ITEM.test(text);
+
+// Finds the closing delimiter for an emphasis run starting at `from`
+const findClosing = (text: string, delimiter: string, from: number) => {
+  let i = from;
+  while ((i = text.indexOf(delimiter, i)) !== -1) {
+    // `*a**` must not close a single `*` on the first half of a `**`
+    const doubled = delimiter.length === 1 && text[i + 1] === delimiter;
+    if (i > from && text[i - 1] !== ' ' && text[i - 1] !== '\\' && !doubled) return i;
+    i += doubled ? 2 : 1;
+  }
+  return -1;
+};
+
+const parseInline = (text: string): Inline[] => {
+  const out: Inline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) out.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    if (ch === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === '\n') {
+      flush();
+      out.push({ type: 'br' });
+      i++;
+      continue;
+    }
+    if (ch === '`') {
+      const run = rest.match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        flush();
+        out.push({ type: 'code', text: text.slice(i + run.length, end).trim() });
+        i = end + run.length;
+        continue;
+      }
+    }
+    const pair = rest.startsWith('**') ? '**' : rest.startsWith('__') ? '__' : rest.startsWith('~~') ? '~~' : null;
+    if (pair) {
+      const end = findClosing(text, pair, i + 2);
+      if (end !== -1 && text[i + 2] !== ' ') {
+        flush();
+        out.push({ type: pair === '~~' ? 'del' : 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+    // Underscores inside words (snake_case, file_names) are not emphasis
+    if ((ch === '*' || (ch === '_' && !/\w/.test(text[i - 1] || ''))) && text[i + 1] !== ' ' && text[i + 1] !== ch) {
+      const end = findClosing(text, ch, i + 1);
+      if (end !== -1 && !(ch === '_' && /\w/.test(text[end + 1] || ''))) {
+        flush();
+        out.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+    if (ch === '[') {
+      const link = rest.match(/^\[([^\]]*)\]\(\s*<?((?:[^\s()<>]|\([^\s()<>]*\))*)>?(?:\s+"[^"]*")?\s*\)/);
+      if (link) {
+        flush();
+        const children = parseInline(link[1]);
+        // Anything but web, mail and phone links (javascript:, data:, ...) stays plain text
+        if (SAFE_URL.test(link[2])) out.push({ type: 'link', href: link[2], children });
+        else out.push(...children);
+        i += link[0].length;
+        continue;
+      }
+    }
+    if ((ch === 'h' || ch === 'H') && !/\w/.test(text[i - 1] || '')) {
+      const url = rest.match(/^https?:\/\/[^\s<>，。；）]+[^\s<>，。；）.,;:!?'")\]]/i);
+      if (url) {
+        flush();
+        out.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+    buffer += ch;
+    i++;
+  }
+  flush();
+  return out;
+};
+
+const parseList = (lines: Line[], start: number): { block: Block; next: number } => {
+  const first = lines[start].text.match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].text.match(LIST_ITEM);
+    if (!match || match[1].length !== indent || /\d/.test(match[2]) !== ordered) break;
+
+    const task = (match[3] || '').match(TASK);
+    const textLines = [task ? task[2] || '' : match[3] || ''];
+    const nested: Line[] = [];
+    let j = i + 1;
+    let sawBlank = false;
+    for (; j < lines.length; j++) {
+      const { text } = lines[j];
+      if (isBlank(text)) {
+        sawBlank = true;
+        nested.push(lines[j]);
+        continue;
+      }
+      if (indentOf(text) > indent) {
+        // Indented text directly under the item continues it; anything else nests
+        if (!sawBlank && !nested.length && !startsBlock(text)) textLines.push(text.trim());
+        else nested.push({ text: text.slice(Math.min(indentOf(text), indent + 2)), line: lines[j].line });
+        sawBlank = false;
+        continue;
+      }
+      // Lazy continuation: an unindented plain line right after the item text
+      if (!sawBlank && !nested.length && !startsBlock(text)) {
+        textLines.push(text.trim());
+        continue;
+      }
+      break;
+    }
+
+    items.push({
+      line: lines[i].line,
+      checked: task ? task[1] !== ' ' : null,
+      children: parseInline(textLines.join('\n')),
+      blocks: parseBlocks(nested),
+    });
+    // Blank lines went into `nested`, so `j` is the next sibling or whatever ends the list
+    i = j;
+  }
+
+  return { block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+};
+
+const parseBlocks = (lines: Line[]): Block[] => {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const { text } = lines[i];
+    if (isBlank(text)) {
+      i++;
+      continue;
+    }
+
+    const fence = text.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].text.trimStart().startsWith(fence[1])) body.push(lines[i++].text);
+      blocks.push({ type: 'code', text: body.join('\n') });
+      i++;
+      continue;
+    }
+
+    const heading = text.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(text)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(text)) {
+      const quoted: Line[] = [];
+      while (i < lines.length && QUOTE.test(lines[i].text)) {
+        quoted.push({ text: lines[i].text.replace(QUOTE, ''), line: lines[i].line });
+        i++;
+      }
+      blocks.push({ type: 'quote', blocks: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(text)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i].text) && (!paragraph.length || !startsBlock(lines[i].text))) {
+      paragraph.push(lines[i++].text.trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+  return blocks;
+};
+
+const toLines = (source: string): Line[] =>
+  source.split('\n').map((text, line) => ({
+    text: text.replace(/\r$/, '').replace(/^\t+/, tabs => '    '.repeat(tabs.length)),
+    line,
+  }));
+
+export const parseMarkdown = (source: string): Block[] => parseBlocks(toLines(source));
+
+// Flips the checkbox of the task item on the given source line
+export const toggleTask = (source: string, line: number): string => {
+  const lines = source.split('\n');
+  if (line < 0 || line >= lines.length) return source;
+  lines[line] = lines[line].replace(TASK_MARKER, (_all, prefix: string, mark: string) => `${prefix}[${mark === ' ' ? 'x' : ' '}]`);
+  return lines.join('\n');
+};
+
+const HEADING_CLASSES = [
+  'text-xl font-bold mt-6 mb-3 first:mt-0',
+  'text-lg font-bold mt-5 mb-2 pb-1 border-b border-gray-100 first:mt-0',
+  'text-base font-bold mt-4 mb-2 first:mt-0',
+  'text-sm font-bold mt-3 mb-1 first:mt-0',
+  'text-sm font-semibold mt-3 mb-1 first:mt-0',
+  'text-sm font-semibold text-gray-500 mt-3 mb-1 first:mt-0',
+];
+
+const renderInline = (nodes: Inline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'br': return <br key={i} />;
+      case 'strong': return <strong key={i} className="font-semibold text-gray-900">{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del': return <del key={i} className="text-gray-400">{renderInline(node.children)}</del>;
+      case 'code': return <code key={i} className="px-1 py-0.5 bg-gray-100 rounded text-[0.9em] font-mono">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: Block[], onToggleTask?: (line: number) => void): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading':
+        return React.createElement(`h${block.level}`, { key: i, className: HEADING_CLASSES[block.level - 1] }, renderInline(block.children));
+      case 'paragraph':
+        return <p key={i} className="my-2">{renderInline(block.children)}</p>;
+      case 'hr':
+        return <hr key={i} className="my-4 border-gray-200" />;
+      case 'code':
+        return <pre key={i} className="my-3 p-3 bg-gray-50 border border-gray-100 rounded-lg text-xs font-mono overflow-x-auto">{block.text}</pre>;
+      case 'quote':
+        return (
+          <blockquote key={i} className="my-3 pl-3 border-l-4 border-gray-200 text-gray-500">
+            {renderBlocks(block.blocks, onToggleTask)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map(item => (
+          <li key={item.line} className={item.checked !== null ? 'list-none -ml-5 flex gap-2' : ''}>
+            {item.checked !== null && (
+              <input
+                type="checkbox"
+                checked={item.checked}
+                disabled={!onToggleTask}
+                onChange={() => onToggleTask?.(item.line)}
+                className="mt-1 shrink-0 accent-blue-600 cursor-pointer disabled:cursor-default"
+              />
+            )}
+            <div className="min-w-0">
+              {item.checked ? <span className="line-through text-gray-400">{renderInline(item.children)}</span> : renderInline(item.children)}
+              {renderBlocks(item.blocks, onToggleTask)}
+            </div>
+          </li>
+        ));
+        return block.ordered
+          ? <ol key={i} start={block.start} className="my-2 pl-5 list-decimal space-y-1">{items}</ol>
+          : <ul key={i} className="my-2 pl-5 list-disc space-y-1">{items}</ul>;
+      }
+    }
+  });
+
+export const MarkdownView: React.FC<{
+  source: string;
+  // Makes task checkboxes clickable; receives the source line of the item
+  onToggleTask?: (line: number) => void;
+  className?: string;
+}> = ({ source, onToggleTask, className }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <div className={`text-sm text-gray-700 leading-relaxed break-words ${className || ''}`}>
+      {renderBlocks(blocks, onToggleTask)}
+    </div>
+  );
+};
@@ -0,0 +1,404 @@
+import { AppState, AppointmentStatus, ClientStatus, ConflictPolicy, FileCategory, HourCountingRule, IcsPrivacy, RECORD_COLLECTIONS, RecordCollection, SupervisionFormat } from './types';
+import { DEFAULT_NOTE_TEMPLATES, DEFAULT_WORKING_HOURS, INITIAL_STATE, SCHEMA_VERSION } from './constants';
+import { hashContent } from './templates';
+
+export interface Migration {
+  version: number; // schema version this step upgrades to
+  description: string;
+  up: (data: any) => any;
+}
+
+export interface ValidationIssue {
+  collection: string;
+  id?: string;
+  message: string;
+  // Errors exclude the record from the working state; warnings keep it
+  severity: 'error' | 'warning';
+}
+
+// A record left out of the working state, handed back so it can be quarantined
+export interface RejectedRecord {
+  collection: string;
+  record: unknown;
+  reason: string;
+}
+
+export interface LoadReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  issues: ValidationIssue[];
+  snapshotId?: string;
+}
+
+/**
+ * Ordered registry of schema upgrades. Append a step (never edit a shipped one)
+ * whenever a persisted field is added or reshaped, and bump SCHEMA_VERSION.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: '补全缺失的集合、设置项与个案次数修正',
+    up: data => ({
+      ...data,
+      clients: (data.clients || []).map((c: any) => ({
+        ...c,
+        tags: Array.isArray(c.tags) ? c.tags : [],
+        manualSessionAdjustment: c.manualSessionAdjustment || 0,
+      })),
+      appointments: data.appointments || [],
+      recurringSeries: data.recurringSeries || [],
+      files: data.files || [],
+      settings: { ...INITIAL_STATE.settings, ...data.settings },
+    }),
+  },
+  {
+    version: 2,
+    description: '重复预约增加例外日期 (EXDATE)',
+    up: data => ({
+      ...data,
+      recurringSeries: data.recurringSeries.map((s: any) => ({ ...s, exdates: s.exdates || [] })),
+    }),
+  },
+  {
+    version: 3,
+    description: '设置增加自动锁定时间',
+    up: data => ({
+      ...data,
+      settings: { autoLockMinutes: 15, ...data.settings },
+    }),
+  },
+  {
+    version: 4,
+    description: '设置增加日历导出的标题隐私级别',
+    up: data => ({
+      ...data,
+      settings: { icsPrivacy: IcsPrivacy.Initials, ...data.settings },
+    }),
+  },
+  {
+    version: 5,
+    description: '增加从外部日历导入的忙碌时段',
+    up: data => ({
+      ...data,
+      busyBlocks: data.busyBlocks || [],
+    }),
+  },
+  {
+    version: 6,
+    description: '设置增加本地服务同步',
+    up: data => ({
+      ...data,
+      settings: { syncEnabled: false, syncServerUrl: 'http://localhost:17776', ...data.settings },
+    }),
+  },
+  {
+    version: 7,
+    description: '单一笔记模板升级为模板库，保留原模板作为常规咨询模板',
+    up: data => {
+      const { noteTemplate, ...settings } = data.settings;
+      return {
+        ...data,
+        settings: {
+          ...settings,
+          // v1 may already have filled in the defaults from INITIAL_STATE
+          noteTemplates: (settings.noteTemplates || DEFAULT_NOTE_TEMPLATES).map((t: any) =>
+            t.id === 'default-regular' && typeof noteTemplate === 'string' ? { ...t, content: noteTemplate } : t
+          ),
+        },
+      };
+    },
+  },
+  {
+    version: 8,
+    description: '增加笔记历史版本及其保留策略',
+    up: data => ({
+      ...data,
+      noteRevisions: data.noteRevisions || [],
+      settings: { revisionKeepCount: 50, revisionKeepDays: 365, ...data.settings },
+    }),
+  },
+  {
+    version: 9,
+    description: '设置增加工作时间、咨询间隔、停诊日期与冲突处理方式',
+    up: data => ({
+      ...data,
+      settings: {
+        workingHours: DEFAULT_WORKING_HOURS,
+        bufferMinutes: 0,
+        blockedDates: [],
+        conflictPolicy: ConflictPolicy.Warn,
+        ...data.settings,
+      },
+    }),
+  },
+  {
+    version: 10,
+    description: '个案增加默认咨询费用',
+    up: data => ({
+      ...data,
+      clients: data.clients.map((c: any) => ({ ...c, defaultFee: c.defaultFee ?? 0 })),
+    }),
+  },
+  {
+    version: 11,
+    description: '咨询时长按实际时间统计，个案分别修正次数与时长',
+    up: data => ({
+      ...data,
+      // Adjusted sessions used to count as one hour each, so they carry over as hours
+      clients: data.clients.map((c: any) => ({ ...c, manualHourAdjustment: c.manualHourAdjustment ?? c.manualSessionAdjustment ?? 0 })),
+      settings: { hourCountingRule: HourCountingRule.Exact, clinicalHourMinutes: 50, ...data.settings },
+    }),
+  },
+  {
+    version: 12,
+    description: '增加督导记录',
+    up: data => ({
+      ...data,
+      supervisionSessions: data.supervisionSessions || [],
+    }),
+  },
+  {
+    version: 13,
+    description: '增加量表测评',
+    up: data => ({
+      ...data,
+      scaleResults: data.scaleResults || [],
+      settings: { customScales: [], ...data.settings },
+    }),
+  },
+  {
+    version: 14,
+    description: '个案增加基本资料与自定义字段',
+    up: data => ({
+      ...data,
+      clients: data.clients.map((c: any) => ({ ...c, intake: c.intake ?? {}, customFields: c.customFields ?? {} })),
+      settings: { customFields: [], ...data.settings },
+    }),
+  },
+  {
+    version: 15,
+    description: '个案增加状态变更记录',
+    up: data => ({
+      ...data,
+      clients: data.clients.map((c: any) => ({ ...c, statusHistory: c.statusHistory ?? [] })),
+    }),
+  },
+  {
+    version: 16,
+    description: '增加提醒通知设置',
+    up: data => ({
+      ...data,
+      settings: {
+        reminderEnabled: false,
+        reminderLeadMinutes: [60, 10],
+        reminderOverdueNotes: true,
+        reminderNoteHours: 24,
+        reminderRiskFollowUps: true,
+        reminderDigest: true,
+        reminderDigestTime: '08:00',
+        reminderPrivacy: IcsPrivacy.Initials,
+        ...data.settings,
+      },
+    }),
+  },
+  {
+    version: 17,
+    description: '待完成记录只统计此后的咨询，笔记模板改存指纹',
+    up: data => ({
+      ...data,
+      // Sessions from before the queue existed would otherwise all show up as missing notes. Set
+      // outright: for pre-v1 data, step 1 has already filled in the INITIAL_STATE value of 0.
+      settings: { ...data.settings, notesQueueSince: Date.now() },
+      files: data.files.map(({ templateContent, ...f }: any) =>
+        typeof templateContent === 'string' ? { ...f, templateHash: hashContent(templateContent) } : f),
+    }),
+  },
+];
+
+const isString = (v: unknown) => typeof v === 'string' && v.length > 0;
+const isTime = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+const isOneOf = (values: object) => (v: unknown) => Object.values(values).includes(v);
+
+type Check = [field: string, test: (v: unknown) => boolean];
+
+const RECORD_CHECKS: Record<RecordCollection, Check[]> = {
+  clients: [
+    ['id', isString],
+    ['name', isString],
+    ['status', isOneOf(ClientStatus)],
+    ['tags', Array.isArray],
+  ],
+  appointments: [
+    ['id', isString],
+    ['clientId', isString],
+    ['startAt', isTime],
+    ['endAt', isTime],
+    ['status', isOneOf(AppointmentStatus)],
+  ],
+  recurringSeries: [
+    ['id', isString],
+    ['clientId', isString],
+    ['rrule', isString],
+    ['dtstart', isTime],
+    ['durationMin', isTime],
+  ],
+  busyBlocks: [
+    ['id', isString],
+    ['uid', isString],
+    ['startAt', isTime],
+    ['endAt', isTime],
+  ],
+  files: [
+    ['id', isString],
+    ['clientId', isString],
+    ['category', isOneOf(FileCategory)],
+    ['title', v => typeof v === 'string'],
+    ['content', v => typeof v === 'string'],
+  ],
+  noteRevisions: [
+    ['id', isString],
+    ['fileId', isString],
+    ['content', v => typeof v === 'string'],
+    ['createdAt', isTime],
+  ],
+  supervisionSessions: [
+    ['id', isString],
+    ['startAt', isTime],
+    ['durationMin', isTime],
+    ['format', isOneOf(SupervisionFormat)],
+    ['clientIds', Array.isArray],
+  ],
+  scaleResults: [
+    ['id', isString],
+    ['clientId', isString],
+    ['scaleId', isString],
+    ['answers', Array.isArray],
+    ['score', isTime],
+    ['administeredAt', isTime],
+  ],
+};
+
+// Invalid fields with a safe default are repaired in place instead of costing the whole record
+const RECORD_REPAIRS: Partial<Record<RecordCollection, Record<string, () => unknown>>> = {
+  clients: {
+    tags: () => [],
+    status: () => ClientStatus.Potential,
+  },
+  files: {
+    title: () => '未命名',
+  },
+  supervisionSessions: {
+    clientIds: () => [],
+  },
+};
+
+export type RecordCheck = { record: any; repaired: string[] } | { reason: string };
+
+/**
+ * Runs the per-record checks for one collection. Fields with a default are
+ * repaired; a record that still fails comes back with the reason instead.
+ */
+export const checkRecord = (collection: RecordCollection, record: any): RecordCheck => {
+  const repairs = RECORD_REPAIRS[collection] || {};
+  const failed = RECORD_CHECKS[collection]
+    .filter(([field, test]) => !test(record?.[field]))
+    .map(([field]) => field);
+  const repairable = record && typeof record === 'object' ? failed.filter(field => field in repairs) : [];
+  const remaining = failed.filter(field => !repairable.includes(field));
+  if (remaining.length) return { reason: `字段无效: ${remaining.join(', ')}` };
+  if (repairable.length === 0) return { record, repaired: [] };
+  return { record: { ...record, ...Object.fromEntries(repairable.map(field => [field, repairs[field]()])) }, repaired: repairable };
+};
+
+/**
+ * Splits each collection into valid records and reported issues, using
+ * checkRecord; records that fail are returned as rejected. Broken references
+ * are only warnings, since the record itself is still usable.
+ */
+export const validateState = (data: any): { state: AppState; issues: ValidationIssue[]; rejected: RejectedRecord[] } => {
+  const issues: ValidationIssue[] = [];
+  const rejected: RejectedRecord[] = [];
+  const state = { ...data };
+
+  RECORD_COLLECTIONS.forEach(collection => {
+    const records = Array.isArray(data[collection]) ? data[collection] : [];
+    if (!Array.isArray(data[collection])) {
+      issues.push({ collection, message: '集合缺失或不是数组', severity: 'error' });
+    }
+    state[collection] = records.flatMap((record: any) => {
+      const result = checkRecord(collection, record);
+      if ('reason' in result) {
+        issues.push({ collection, id: record?.id, message: result.reason, severity: 'error' });
+        rejected.push({ collection, record, reason: result.reason });
+        return [];
+      }
+      if (result.repaired.length) {
+        issues.push({ collection, id: record.id, message: `已用默认值修复字段: ${result.repaired.join(', ')}`, severity: 'warning' });
+      }
+      return [result.record];
+    });
+  });
+
+  const clientIds = new Set(state.clients.map((c: any) => c.id));
+  (['appointments', 'recurringSeries', 'files', 'scaleResults'] as const).forEach(collection => {
+    state[collection].forEach((record: any) => {
+      if (!clientIds.has(record.clientId)) {
+        issues.push({ collection, id: record.id, message: `关联的个案不存在: ${record.clientId}`, severity: 'warning' });
+      }
+    });
+  });
+  const fileIds = new Set(state.files.map((f: any) => f.id));
+  state.noteRevisions.forEach((r: any) => {
+    if (!fileIds.has(r.fileId)) {
+      issues.push({ collection: 'noteRevisions', id: r.id, message: `关联的笔记不存在: ${r.fileId}`, severity: 'warning' });
+    }
+  });
+  state.supervisionSessions.forEach((s: any) => {
+    const missing = s.clientIds.filter((id: string) => !clientIds.has(id));
+    if (missing.length) {
+      issues.push({ collection: 'supervisionSessions', id: s.id, message: `讨论的个案不存在: ${missing.join(', ')}`, severity: 'warning' });
+    }
+  });
+  state.appointments.forEach((a: any) => {
+    if (a.endAt < a.startAt) {
+      issues.push({ collection: 'appointments', id: a.id, message: '结束时间早于开始时间', severity: 'warning' });
+    }
+  });
+
+  return { state, issues, rejected };
+};
+
+/**
+ * Upgrades a persisted snapshot one version at a time, then validates it.
+ * Snapshots from before versioning count as version 0.
+ */
+export const upgradeState = (raw: any): { state: AppState; report: LoadReport; rejected: RejectedRecord[] } => {
+  const fromVersion = Number(raw?.schemaVersion) || 0;
+  const applied: string[] = [];
+  const issues: ValidationIssue[] = [];
+  let data = { ...raw };
+
+  if (fromVersion > SCHEMA_VERSION) {
+    issues.push({
+      collection: 'schema',
+      message: `数据版本 ${fromVersion} 高于当前程序支持的版本 ${SCHEMA_VERSION}，请更新程序`,
+      severity: 'warning',
+    });
+  }
+
+  MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .forEach(m => {
+      data = { ...m.up(data), schemaVersion: m.version };
+      applied.push(`v${m.version}: ${m.description}`);
+    });
+
+  const validated = validateState(data);
+  return {
+    state: { ...validated.state, schemaVersion: Math.max(fromVersion, SCHEMA_VERSION) },
+    report: { fromVersion, toVersion: SCHEMA_VERSION, applied, issues: [...issues, ...validated.issues] },
+    rejected: validated.rejected,
+  };
+};
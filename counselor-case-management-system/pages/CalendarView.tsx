@@ -1,5 +1,6 @@
 
 import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import FullCalendar from '@fullcalendar/react';
 import dayGridPlugin from '@fullcalendar/daygrid';
 import timeGridPlugin from '@fullcalendar/timegrid';
@@ -16,59 +17,567 @@ import {
   MoreVertical,
   RotateCcw,
   X,
-  Trash2
+  Trash2,
+  Repeat,
+  Upload,
+  Ban,
+  AlertTriangle,
+  ShieldAlert,
+  Target,
+  UserPlus
 } from 'lucide-react';
-import { AppState, Appointment, AppointmentStatus, Client, FileCategory, FileEntry } from '../types';
+import { AppState, Appointment, AppointmentStatus, Client, ConflictPolicy, PaymentMethod, PaymentStatus, RiskAssessment, RiskLevel, TreatmentGoal } from '../types';
 import { uuid } from '../store';
-import { APPOINTMENT_COLORS } from '../constants';
-import { format, addMinutes, startOfDay } from 'date-fns';
+import {
+  SeriesScope,
+  getAppointmentsInRange,
+  materializeInstance,
+  rescheduleSeries,
+  cancelSeries,
+  deleteFromSeries,
+  createWeeklySeries,
+  describeSeries,
+  describeSlot,
+  getBusyInRange,
+  nextSlotOf,
+  BusyInstance
+} from '../recurrence';
+import { IcsImportTarget, ParsedIcs, parseIcs, importIcs } from '../ics';
+import { createSessionNote } from '../pendingNotes';
+import { MODALITY_LABELS, SlotMatch, URGENCY_COLORS, URGENCY_LABELS, bookFromWaitlist, suggestForSlot } from '../waitlist';
+import { WEEKDAY_NAMES } from '../scheduling';
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS, feeOf, formatMoney, paymentStatusOf, updatePayment } from '../billing';
+import { PROGRESS_MAX, activeGoals, isReviewDue, rateProgress, sessionsSinceReview } from '../treatment';
+import { RISK_EVENT_BORDER_COLORS, RISK_FACTORS, RISK_LEVEL_COLORS, RISK_LEVEL_LABELS, currentRisks, defaultFollowUpBy, isElevatedRisk, updateRisk } from '../risk';
+import { PlacementIssue, blockedRangeAt, checkPlacement, checkSeriesPlacement, toBusinessHours, visibleSlotRange } from '../scheduling';
+import { APPOINTMENT_COLORS, APPOINTMENT_STATUS_LABELS, BLOCKED_DATE_COLOR, BUSY_COLOR } from '../constants';
+import { format, addMinutes, addDays, startOfDay, startOfWeek, endOfDay } from 'date-fns';
 
 interface CalendarViewProps {
   state: AppState;
-  updateState: (updater: (prev: AppState) => AppState) => void;
+  updateState: (updater: (prev: AppState) => AppState, action?: string) => void;
 }
 
+type RepeatMode = 'none' | 'weekly' | 'biweekly';
+type RepeatEnd = 'never' | 'until' | 'count';
+
+interface NewAppointmentForm {
+  clientId: string;
+  start: Date;
+  duration: number;
+  repeat: RepeatMode;
+  repeatEnd: RepeatEnd;
+  untilDate: string;
+  count: number;
+}
+
+interface PendingScopeAction {
+  title: string;
+  apply: (scope: SeriesScope) => void;
+  dismiss?: () => void;
+}
+
+const SCOPE_OPTIONS: { scope: SeriesScope; label: string; hint: string }[] = [
+  { scope: 'this', label: '仅此一次', hint: '其他日期保持不变' },
+  { scope: 'following', label: '此次及之后', hint: '之前的预约保持不变' },
+  { scope: 'all', label: '整个系列', hint: '改期包括已过去的日期；取消或删除会保留已发生的' },
+];
+
+// Appended to undo labels so the toast says which occurrences changed
+const SCOPE_SUFFIX: Record<SeriesScope, string> = { this: '', following: '（此次及之后）', all: '（整个系列）' };
+
+interface PendingImport {
+  fileName: string;
+  parsed: ParsedIcs;
+  target: IcsImportTarget;
+  source: string;
+  clientId: string;
+}
+
+const emptyForm = (start: Date): NewAppointmentForm => ({
+  clientId: '',
+  start,
+  duration: 50,
+  repeat: 'none',
+  repeatEnd: 'never',
+  untilDate: format(addDays(start, 90), 'yyyy-MM-dd'),
+  count: 10,
+});
+
+const seriesFromForm = (form: NewAppointmentForm) => createWeeklySeries(
+  form.clientId,
+  form.start,
+  form.duration,
+  form.repeat === 'biweekly' ? 2 : 1,
+  {
+    untilAt: form.repeatEnd === 'until' ? endOfDay(new Date(form.untilDate)).getTime() : undefined,
+    count: form.repeatEnd === 'count' ? Math.max(1, form.count) : undefined,
+  }
+);
+
+const RiskAssessmentEditor: React.FC<{
+  appt: Appointment;
+  onSave: (risk: RiskAssessment) => void;
+}> = ({ appt, onSave }) => {
+  const [level, setLevel] = useState<RiskLevel | null>(appt.risk?.level ?? null);
+  const [factors, setFactors] = useState<string[]>(appt.risk?.factors ?? []);
+  const [otherFactor, setOtherFactor] = useState('');
+  const [followUpPlan, setFollowUpPlan] = useState(appt.risk?.followUpPlan ?? '');
+  const [followUpBy, setFollowUpBy] = useState(appt.risk?.followUpBy);
+
+  const customFactors = factors.filter(f => !RISK_FACTORS.includes(f));
+  const toggleFactor = (factor: string) =>
+    setFactors(factors.includes(factor) ? factors.filter(f => f !== factor) : [...factors, factor]);
+
+  const chooseLevel = (next: RiskLevel) => {
+    setLevel(next);
+    if (!appt.risk || appt.risk.level !== next) setFollowUpBy(defaultFollowUpBy(next, appt.startAt));
+  };
+
+  const handleSave = () => {
+    if (!level) return;
+    const extra = otherFactor.trim();
+    onSave({
+      level,
+      factors: extra && !factors.includes(extra) ? [...factors, extra] : factors,
+      followUpPlan: followUpPlan.trim(),
+      followUpBy: level === RiskLevel.None ? undefined : followUpBy,
+      // A new due date reopens the follow-up
+      followUpDoneAt: followUpBy === appt.risk?.followUpBy ? appt.risk?.followUpDoneAt : undefined,
+      assessedAt: Date.now(),
+    });
+    setOtherFactor('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-gray-700 flex items-center gap-1">
+        <ShieldAlert className="w-4 h-4" /> 风险评估
+        {!appt.risk && <span className="ml-2 text-xs font-normal text-amber-600">未评估</span>}
+      </p>
+      <div className="grid grid-cols-4 gap-2">
+        {Object.values(RiskLevel).map(l => (
+          <button
+            key={l}
+            onClick={() => chooseLevel(l)}
+            className={`px-2 py-1.5 rounded-lg border text-xs font-medium ${level === l ? RISK_LEVEL_COLORS[l] : 'border-gray-100 hover:bg-gray-50'}`}
+          >
+            {RISK_LEVEL_LABELS[l]}
+          </button>
+        ))}
+      </div>
+      {level && level !== RiskLevel.None && (
+        <>
+          <div className="flex flex-wrap gap-1.5">
+            {[...RISK_FACTORS, ...customFactors].map(factor => (
+              <button
+                key={factor}
+                onClick={() => toggleFactor(factor)}
+                className={`px-2 py-1 rounded-full border text-xs ${factors.includes(factor) ? 'bg-blue-50 border-blue-200 text-blue-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+              >
+                {factor}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={otherFactor}
+            onChange={e => setOtherFactor(e.target.value)}
+            placeholder="其他风险因素"
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+          />
+          <textarea
+            rows={2}
+            value={followUpPlan}
+            onChange={e => setFollowUpPlan(e.target.value)}
+            placeholder="跟进计划，如安全计划、紧急联系人、转介评估"
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+          />
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-500 shrink-0">跟进截止</span>
+            <input
+              type="date"
+              value={followUpBy !== undefined ? format(followUpBy, 'yyyy-MM-dd') : ''}
+              onChange={e => setFollowUpBy(e.target.value ? new Date(`${e.target.value}T00:00:00`).getTime() : undefined)}
+              className="flex-1 px-3 py-1.5 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </div>
+        </>
+      )}
+      <button
+        onClick={handleSave}
+        disabled={!level}
+        className="w-full px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+      >
+        保存风险评估
+      </button>
+    </div>
+  );
+};
+
+// Active goals of the plan, plus any since closed that this session already rated
+const GoalProgressEditor: React.FC<{
+  appt: Appointment;
+  goals: TreatmentGoal[];
+  onSave: (ratings: Record<string, number>) => void;
+}> = ({ appt, goals, onSave }) => {
+  const [ratings, setRatings] = useState<Record<string, number>>(appt.goalProgress ?? {});
+  const changed = JSON.stringify(ratings) !== JSON.stringify(appt.goalProgress ?? {});
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-gray-700 flex items-center gap-1">
+        <Target className="w-4 h-4" /> 目标进展
+        <span className="ml-2 text-xs font-normal text-gray-400">0 = 尚无进展，{PROGRESS_MAX} = 已达成</span>
+      </p>
+      {goals.map(goal => (
+        <div key={goal.id} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <p className="flex-1 text-sm text-gray-800 truncate" title={goal.description}>{goal.description}</p>
+            {ratings[goal.id] !== undefined && (
+              <button
+                onClick={() => {
+                  const { [goal.id]: _removed, ...rest } = ratings;
+                  setRatings(rest);
+                }}
+                className="text-xs text-gray-400 hover:text-red-500"
+              >
+                清除
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-11 gap-1">
+            {Array.from({ length: PROGRESS_MAX + 1 }, (_, value) => (
+              <button
+                key={value}
+                onClick={() => setRatings({ ...ratings, [goal.id]: value })}
+                className={`py-1 rounded border text-xs ${ratings[goal.id] === value ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-100 text-gray-500 hover:bg-gray-50'}`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={() => onSave(ratings)}
+        disabled={!changed}
+        className="w-full px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+      >
+        保存目标进展
+      </button>
+    </div>
+  );
+};
+
+// Matches shown for a freed slot
+const SLOT_SUGGESTION_LIMIT = 5;
+
+const SlotSuggestions: React.FC<{
+  slot: { startAt: number; endAt: number };
+  matches: SlotMatch[];
+  onBook: (match: SlotMatch) => void;
+  onClose: () => void;
+}> = ({ slot, matches, onBook, onClose }) => (
+  <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+    <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-bold">空出的时段</h3>
+          <p className="text-sm text-gray-500">
+            {describeSlot(slot.startAt)}–{format(slot.endAt, 'HH:mm')}，以下等候中的个案可能合适
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+        {matches.map(match => (
+          <div key={match.client.id} className="p-4 flex items-center gap-3">
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold truncate">{match.client.name}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${URGENCY_COLORS[match.entry.urgency]}`}>
+                  {URGENCY_LABELS[match.entry.urgency]}
+                </span>
+                <span className="text-xs text-gray-400">{MODALITY_LABELS[match.entry.modality]}</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {match.entry.preferredDays.length ? match.entry.preferredDays.map(d => WEEKDAY_NAMES[d]).join('、') : '任意日期'}
+                {' · '}
+                {match.entry.preferredFrom || match.entry.preferredTo
+                  ? `${match.entry.preferredFrom || '不限'}–${match.entry.preferredTo || '不限'}`
+                  : '任意时间'}
+                {' · '}已等待 {match.waitingDays} 天
+              </p>
+              <div className="flex gap-1.5 text-[10px]">
+                <span className={`px-1.5 py-0.5 rounded ${match.dayMatch ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-400'}`}>
+                  {match.dayMatch ? '日期符合' : '日期不符'}
+                </span>
+                <span className={`px-1.5 py-0.5 rounded ${match.timeMatch ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-400'}`}>
+                  {match.timeMatch ? '时间符合' : '时间不符'}
+                </span>
+              </div>
+            </div>
+            <button
+              onClick={() => onBook(match)}
+              className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+            >
+              <UserPlus className="w-4 h-4" />
+              预约初始访谈
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
 const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
   const calendarRef = useRef<FullCalendar>(null);
+  const icsInputRef = useRef<HTMLInputElement>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedAppt, setSelectedAppt] = useState<Appointment | null>(null);
-  const [newAppt, setNewAppt] = useState<{ clientId: string; start: Date; duration: number }>({
-    clientId: '',
-    start: new Date(),
-    duration: 50,
+  const [newAppt, setNewAppt] = useState<NewAppointmentForm>(emptyForm(new Date()));
+  const [editTime, setEditTime] = useState<{ start: Date; duration: number } | null>(null);
+  const [pendingScope, setPendingScope] = useState<PendingScopeAction | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [selectedBusy, setSelectedBusy] = useState<BusyInstance | null>(null);
+  const [freedSlot, setFreedSlot] = useState<{ startAt: number; endAt: number } | null>(null);
+  const [visibleRange, setVisibleRange] = useState(() => {
+    const start = startOfWeek(new Date(), { weekStartsOn: 1 });
+    return { start: start.getTime(), end: addDays(start, 7).getTime() };
   });
 
-  const events = state.appointments.map(appt => {
+  // Search results link here with ?date=yyyy-MM-dd&appt=<id>; jump to that day and open the appointment
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedDate = searchParams.get('date');
+  const linkedApptId = searchParams.get('appt');
+  useEffect(() => {
+    if (!linkedDate) return;
+    const day = new Date(`${linkedDate}T00:00:00`);
+    if (!isNaN(day.getTime())) {
+      calendarRef.current?.getApi().gotoDate(day);
+      const appt = linkedApptId && getAppointmentsInRange(state, day.getTime(), endOfDay(day).getTime())
+        .find(a => a.id === linkedApptId);
+      if (appt) {
+        setSelectedAppt(appt);
+        setEditTime(null);
+        setIsModalOpen(true);
+      }
+    }
+    setSearchParams({}, { replace: true });
+  }, [linkedDate, linkedApptId, state, setSearchParams]);
+
+  const risks = currentRisks(state);
+  const events = getAppointmentsInRange(state, visibleRange.start, visibleRange.end).map(appt => {
     const client = state.clients.find(c => c.id === appt.clientId);
+    const riskLevel = risks.get(appt.clientId)?.assessment.level;
+    const flagged = riskLevel !== undefined && isElevatedRisk(riskLevel);
     return {
       id: appt.id,
-      title: client?.name || '未知个案',
+      title: `${flagged ? '⚠ ' : ''}${client?.name || '未知个案'}${appt.recurringSeriesId ? ' ↻' : ''}`,
       start: appt.startAt,
       end: appt.endAt,
       color: APPOINTMENT_COLORS[appt.status],
+      borderColor: flagged ? RISK_EVENT_BORDER_COLORS[riskLevel] : undefined,
       extendedProps: { ...appt, clientName: client?.name }
     };
   });
 
+  const busyEvents = getBusyInRange(state, visibleRange.start, visibleRange.end).map(busy => ({
+    id: `busy:${busy.id}`,
+    title: `忙碌 · ${busy.block.title}`,
+    start: busy.startAt,
+    end: busy.endAt,
+    color: BUSY_COLOR,
+    editable: false,
+    classNames: ['opacity-70'],
+    extendedProps: { busy }
+  }));
+
+  // Blocked dates are shaded as all-day background events
+  const blockedEvents: { id: string; start: number; end: number; title: string; display: string; color: string }[] = [];
+  for (let day = startOfDay(visibleRange.start); day.getTime() < visibleRange.end; day = addDays(day, 1)) {
+    const blocked = blockedRangeAt(state.settings.blockedDates, day.getTime());
+    if (blocked) {
+      blockedEvents.push({
+        id: `blocked:${blocked.id}:${day.getTime()}`,
+        start: day.getTime(),
+        end: addDays(day, 1).getTime(),
+        title: blocked.reason || '停诊',
+        display: 'background',
+        color: BLOCKED_DATE_COLOR,
+      });
+    }
+  }
+
+  const { workingHours, conflictPolicy } = state.settings;
+  const slotRange = visibleSlotRange(workingHours, events.map(e => e.extendedProps));
+
+  const busySources = Array.from(
+    state.busyBlocks.reduce((acc, b) => acc.set(b.source, (acc.get(b.source) || 0) + 1), new Map<string, number>())
+  );
+
+  const newApptIssues = !isModalOpen || selectedAppt
+    ? []
+    : newAppt.repeat !== 'none'
+    ? checkSeriesPlacement(state, seriesFromForm(newAppt))
+    : checkPlacement(state, { startAt: newAppt.start.getTime(), endAt: addMinutes(newAppt.start, newAppt.duration).getTime() });
+  const isNewApptBlocked = conflictPolicy === ConflictPolicy.Block && newApptIssues.length > 0;
+
+  // Payment and risk edits keep the modal open, so read the stored copy rather than the snapshot.
+  // A series occurrence completed from this modal was stored under a new id.
+  const billedAppt = selectedAppt?.status === AppointmentStatus.Completed
+    ? state.appointments.find(a => a.id === selectedAppt.id || (
+      selectedAppt.recurringSeriesId !== undefined &&
+      a.recurringSeriesId === selectedAppt.recurringSeriesId &&
+      a.originalInstanceAt === selectedAppt.originalInstanceAt
+    ))
+    : undefined;
+  const selectedRisk = selectedAppt ? risks.get(selectedAppt.clientId)?.assessment : undefined;
+  const slotMatches = freedSlot ? suggestForSlot(state, freedSlot.startAt, freedSlot.endAt).slice(0, SLOT_SUGGESTION_LIMIT) : [];
+  const billedClient = billedAppt ? state.clients.find(c => c.id === billedAppt.clientId) : undefined;
+  const ratedGoals = billedClient?.treatmentPlan?.goals.filter(g =>
+    activeGoals(billedClient.treatmentPlan).includes(g) || billedAppt?.goalProgress?.[g.id] !== undefined) ?? [];
+
+  const selectedSeries = selectedAppt?.recurringSeriesId
+    ? state.recurringSeries.find(s => s.id === selectedAppt.recurringSeriesId)
+    : undefined;
+
+  const clientName = (clientId: string) => state.clients.find(c => c.id === clientId)?.name || '未知个案';
+
+  // Series instances ask which occurrences a change applies to; single appointments apply directly
+  const withScope = (appt: Appointment, title: string, apply: (scope: SeriesScope) => void, dismiss?: () => void) => {
+    const inSeries = appt.recurringSeriesId && state.recurringSeries.some(s => s.id === appt.recurringSeriesId);
+    if (!inSeries) {
+      apply('this');
+      return;
+    }
+    setPendingScope({ title, apply, dismiss });
+  };
+
+  // Warn asks before going ahead; Block refuses
+  const confirmPlacement = (issues: PlacementIssue[]) => {
+    if (issues.length === 0) return true;
+    const list = issues.map(i => `· ${i.message}`).join('\n');
+    if (conflictPolicy === ConflictPolicy.Block) {
+      window.alert(`无法安排到这个时间：\n${list}`);
+      return false;
+    }
+    return window.confirm(`这个时间存在冲突：\n${list}\n\n仍要安排吗？`);
+  };
+
   const handleDateSelect = (selectInfo: any) => {
-    setNewAppt({
-      clientId: '',
-      start: selectInfo.start,
-      duration: 50,
-    });
+    setNewAppt(emptyForm(selectInfo.start));
     setSelectedAppt(null);
     setIsModalOpen(true);
   };
 
   const handleEventClick = (clickInfo: any) => {
+    if (clickInfo.event.extendedProps.busy) {
+      setSelectedBusy(clickInfo.event.extendedProps.busy);
+      return;
+    }
     const appt = clickInfo.event.extendedProps as Appointment;
     setSelectedAppt(appt);
+    setEditTime(null);
     setIsModalOpen(true);
   };
 
+  const handleIcsFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const parsed = parseIcs(String(reader.result));
+        setImportError(null);
+        setPendingImport({
+          fileName: file.name,
+          parsed,
+          target: 'busy',
+          source: parsed.calendarName || file.name.replace(/\.ics$/i, ''),
+          clientId: '',
+        });
+      } catch (err) {
+        setImportError(err instanceof Error ? err.message : String(err));
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const importPreview = pendingImport
+    ? importIcs(state, pendingImport.parsed, pendingImport.target, pendingImport)
+    : null;
+
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+    if (pendingImport.target === 'appointments' && !pendingImport.clientId) return;
+    updateState(
+      prev => importIcs(prev, pendingImport.parsed, pendingImport.target, pendingImport).state,
+      `已导入日历“${pendingImport.fileName}”`
+    );
+    setPendingImport(null);
+  };
+
+  const removeBusySource = (source: string) => {
+    if (!window.confirm(`确定要移除“${source}”导入的所有忙碌时段吗？`)) return;
+    updateState(
+      prev => ({ ...prev, busyBlocks: prev.busyBlocks.filter(b => b.source !== source) }),
+      `已移除“${source}”的忙碌时段`
+    );
+  };
+
+  const rescheduleAppt = (appt: Appointment, startAt: number, endAt: number, revert?: () => void) => {
+    withScope(appt, '修改重复预约时间', scope => {
+      const issues = checkPlacement(state, {
+        startAt,
+        endAt,
+        ignoreId: appt.id,
+        ignoreSeriesId: scope === 'this' ? undefined : appt.recurringSeriesId,
+      });
+      if (!confirmPlacement(issues)) {
+        revert?.();
+        return;
+      }
+      updateState(
+        prev => rescheduleSeries(prev, appt, scope, startAt, endAt),
+        `已将${clientName(appt.clientId)}的预约移至 ${describeSlot(startAt)}${SCOPE_SUFFIX[scope]}`
+      );
+    }, revert);
+  };
+
+  const handleEventChange = (info: any) => {
+    const appt = info.event.extendedProps as Appointment;
+    const startAt = info.event.start?.getTime() || appt.startAt;
+    const endAt = info.event.end?.getTime() || appt.endAt;
+    rescheduleAppt(appt, startAt, endAt, info.revert);
+  };
+
+  const handleSaveTime = () => {
+    if (!selectedAppt || !editTime) return;
+    const startAt = editTime.start.getTime();
+    rescheduleAppt(selectedAppt, startAt, addMinutes(editTime.start, editTime.duration).getTime());
+    setIsModalOpen(false);
+  };
+
   const handleCreateAppointment = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newAppt.clientId) return;
+    if (!newAppt.clientId || isNewApptBlocked) return;
+
+    if (newAppt.repeat !== 'none') {
+      const series = seriesFromForm(newAppt);
+      updateState(
+        prev => ({ ...prev, recurringSeries: [...prev.recurringSeries, series] }),
+        `已为${clientName(series.clientId)}创建重复预约：${describeSeries(series)}`
+      );
+      setIsModalOpen(false);
+      return;
+    }
 
     const startAt = newAppt.start.getTime();
     const endAt = addMinutes(newAppt.start, newAppt.duration).getTime();
@@ -83,34 +592,50 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
       updatedAt: Date.now(),
     };
 
-    updateState(prev => ({ ...prev, appointments: [...prev.appointments, appt] }));
+    updateState(
+      prev => ({ ...prev, appointments: [...prev.appointments, appt] }),
+      `已为${clientName(appt.clientId)}添加 ${describeSlot(startAt)} 的预约`
+    );
     setIsModalOpen(false);
   };
 
-  const updateApptStatus = (apptId: string, status: AppointmentStatus) => {
-    updateState(prev => {
-      const appt = prev.appointments.find(a => a.id === apptId);
-      if (!appt) return prev;
+  // A future session that is canceled or deleted leaves a slot a waitlisted client may want.
+  // Ending the following or all occurrences gives up the series' slot from its next future occurrence.
+  const offerFreedSlot = (appt: Appointment, scope: SeriesScope = 'this') => {
+    const now = Date.now();
+    const series = scope === 'this' ? undefined : state.recurringSeries.find(s => s.id === appt.recurringSeriesId);
+    if (!series) {
+      if (appt.startAt > now) setFreedSlot({ startAt: appt.startAt, endAt: appt.endAt });
+      return;
+    }
+    const from = scope === 'all' ? now : Math.max(appt.originalInstanceAt ?? appt.startAt, now);
+    const startAt = nextSlotOf(series, from);
+    if (startAt !== undefined) setFreedSlot({ startAt, endAt: startAt + series.durationMin * 60 * 1000 });
+  };
+
+  const updateApptStatus = (instance: Appointment, status: AppointmentStatus) => {
+    if (status === AppointmentStatus.Canceled) {
+      withScope(instance, '取消重复预约', scope => {
+        updateState(
+          prev => cancelSeries(prev, instance, scope),
+          `已取消${clientName(instance.clientId)} ${describeSlot(instance.startAt)} 的预约${SCOPE_SUFFIX[scope]}`
+        );
+        offerFreedSlot(instance, scope);
+      });
+      setIsModalOpen(false);
+      return;
+    }
+
+    updateState(current => {
+      if (!instance.recurringSeriesId && !current.appointments.some(a => a.id === instance.id)) return current;
+      const [prev, appt] = materializeInstance(current, instance);
+      const apptId = appt.id;
 
       let newFiles = prev.files;
       // Auto-generate session note if completed
       if (status === AppointmentStatus.Completed && appt.status !== AppointmentStatus.Completed) {
         const alreadyHasNote = prev.files.some(f => f.relatedAppointmentId === apptId);
-        if (!alreadyHasNote) {
-          const client = prev.clients.find(c => c.id === appt.clientId);
-          const newNote: FileEntry = {
-            id: uuid(),
-            clientId: appt.clientId,
-            category: FileCategory.SessionNote,
-            title: `${client?.name || '个案'} 记录 ${format(appt.startAt, 'yyyy-MM-dd HH-mm')}`,
-            ext: 'md',
-            content: prev.settings.noteTemplate || '',
-            relatedAppointmentId: apptId,
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-          };
-          newFiles = [newNote, ...prev.files];
-        }
+        if (!alreadyHasNote) newFiles = [createSessionNote(prev, appt), ...prev.files];
       }
 
       return {
@@ -118,19 +643,42 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
         appointments: prev.appointments.map(a => a.id === apptId ? { ...a, status, updatedAt: Date.now() } : a),
         files: newFiles
       };
-    });
-    setIsModalOpen(false);
+    }, `已将${clientName(instance.clientId)} ${describeSlot(instance.startAt)} 的预约标记为“${APPOINTMENT_STATUS_LABELS[status]}”`);
+    // Stay open after completing so the risk assessment can be filled in
+    if (status === AppointmentStatus.Completed) setSelectedAppt({ ...instance, status });
+    else setIsModalOpen(false);
   };
 
-  const deleteAppt = (apptId: string) => {
+  const deleteAppt = (appt: Appointment) => {
+    if (appt.recurringSeriesId && state.recurringSeries.some(s => s.id === appt.recurringSeriesId)) {
+      withScope(appt, '删除重复预约', scope => {
+        updateState(
+          prev => deleteFromSeries(prev, appt, scope),
+          `已删除${clientName(appt.clientId)} ${describeSlot(appt.startAt)} 的预约${SCOPE_SUFFIX[scope]}`
+        );
+        offerFreedSlot(appt, scope);
+      });
+      setIsModalOpen(false);
+      return;
+    }
     if (!window.confirm('确定要删除这次预约吗？')) return;
     updateState(prev => ({
       ...prev,
-      appointments: prev.appointments.filter(a => a.id !== apptId)
-    }));
+      appointments: prev.appointments.filter(a => a.id !== appt.id)
+    }), `已删除${clientName(appt.clientId)} ${describeSlot(appt.startAt)} 的预约`);
+    if (appt.status === AppointmentStatus.Scheduled) offerFreedSlot(appt);
     setIsModalOpen(false);
   };
 
+  const handleBookFromWaitlist = (match: SlotMatch) => {
+    if (!freedSlot) return;
+    updateState(
+      prev => bookFromWaitlist(prev, match.client.id, freedSlot.startAt, freedSlot.endAt),
+      `已为${match.client.name}预约 ${describeSlot(freedSlot.startAt)} 的初始访谈，并转为 Active`
+    );
+    setFreedSlot(null);
+  };
+
   return (
     <div className="h-full flex flex-col space-y-4 max-h-full overflow-hidden">
       <div className="flex items-center justify-between shrink-0">
@@ -141,6 +689,14 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
           </h1>
         </div>
         <div className="flex gap-2">
+          <input ref={icsInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleIcsFile} />
+          <button 
+            onClick={() => icsInputRef.current?.click()}
+            className="flex items-center gap-2 bg-white border border-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 shadow-sm transition-all text-sm font-medium"
+          >
+            <Upload className="w-4 h-4" />
+            导入 .ics
+          </button>
           <button 
             onClick={() => handleDateSelect({ start: new Date() })}
             className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 shadow-sm transition-all text-sm font-medium"
@@ -151,6 +707,16 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
         </div>
       </div>
 
+      {importError && (
+        <div className="shrink-0 flex items-center gap-2 p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span className="flex-1">导入失败：{importError}</span>
+          <button onClick={() => setImportError(null)} className="p-1 hover:bg-red-100 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       <div className="flex-1 bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden p-2 min-h-0">
         <FullCalendar
           ref={calendarRef}
@@ -163,8 +729,9 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
           }}
           locale="zh-cn"
           firstDay={1}
-          slotMinTime="09:00:00"
-          slotMaxTime="21:00:00"
+          slotMinTime={slotRange.slotMinTime}
+          slotMaxTime={slotRange.slotMaxTime}
+          businessHours={workingHours.length ? toBusinessHours(workingHours) : false}
           slotDuration="00:15:00"
           allDaySlot={false}
           editable={true}
@@ -176,40 +743,19 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
           contentHeight="auto"
           stickyHeaderDates={true}
           handleWindowResize={true}
-          events={events}
+          events={[...events, ...busyEvents, ...blockedEvents]}
+          datesSet={(arg) => setVisibleRange({ start: arg.start.getTime(), end: arg.end.getTime() })}
           select={handleDateSelect}
           eventClick={handleEventClick}
-          eventDrop={(info) => {
-            const apptId = info.event.id;
-            updateState(prev => ({
-              ...prev,
-              appointments: prev.appointments.map(a => a.id === apptId ? {
-                ...a,
-                startAt: info.event.start?.getTime() || a.startAt,
-                endAt: info.event.end?.getTime() || a.endAt,
-                updatedAt: Date.now()
-              } : a)
-            }));
-          }}
-          eventResize={(info) => {
-            const apptId = info.event.id;
-            updateState(prev => ({
-              ...prev,
-              appointments: prev.appointments.map(a => a.id === apptId ? {
-                ...a,
-                startAt: info.event.start?.getTime() || a.startAt,
-                endAt: info.event.end?.getTime() || a.endAt,
-                updatedAt: Date.now()
-              } : a)
-            }));
-          }}
+          eventDrop={handleEventChange}
+          eventResize={handleEventChange}
         />
       </div>
 
       {/* Appointment Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
-          <div className="bg-white rounded-2xl w-full max-w-md shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+          <div className="bg-white rounded-2xl w-full max-w-md shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
             <div className="p-6 border-b border-gray-100 flex items-center justify-between">
               <h3 className="text-xl font-bold">{selectedAppt ? '预约详情' : '新建预约'}</h3>
               <button onClick={() => setIsModalOpen(false)} className="p-2 hover:bg-gray-100 rounded-full">
@@ -218,7 +764,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
             </div>
             
             {selectedAppt ? (
-              <div className="p-6 space-y-6">
+              <div className="p-6 space-y-6 overflow-y-auto">
                 <div className="flex items-center gap-4">
                   <div className="w-12 h-12 bg-blue-50 rounded-full flex items-center justify-center text-blue-600">
                     <User className="w-6 h-6" />
@@ -227,6 +773,11 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
                     <p className="text-sm text-gray-500">个案</p>
                     <p className="text-lg font-bold">{state.clients.find(c => c.id === selectedAppt.clientId)?.name || '未知'}</p>
                   </div>
+                  {selectedRisk && selectedRisk.level !== RiskLevel.None && (
+                    <span className={`ml-auto px-2.5 py-1 rounded-full text-xs font-medium border ${RISK_LEVEL_COLORS[selectedRisk.level]}`}>
+                      {RISK_LEVEL_LABELS[selectedRisk.level]}
+                    </span>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
@@ -244,11 +795,77 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
                   </div>
                 </div>
 
+                {selectedSeries && (
+                  <div className="flex items-center gap-2 p-3 bg-blue-50 border border-blue-100 rounded-xl text-sm text-blue-700">
+                    <Repeat className="w-4 h-4 shrink-0" />
+                    <span>{describeSeries(selectedSeries)}</span>
+                  </div>
+                )}
+
+                {editTime ? (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-3 gap-2">
+                      <input 
+                        type="date"
+                        value={format(editTime.start, 'yyyy-MM-dd')}
+                        onChange={e => {
+                          const date = new Date(e.target.value);
+                          date.setHours(editTime.start.getHours(), editTime.start.getMinutes());
+                          setEditTime({ ...editTime, start: date });
+                        }}
+                        className="col-span-2 w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                      />
+                      <input 
+                        type="time"
+                        value={format(editTime.start, 'HH:mm')}
+                        onChange={e => {
+                          const [h, m] = e.target.value.split(':').map(Number);
+                          const date = new Date(editTime.start);
+                          date.setHours(h, m);
+                          setEditTime({ ...editTime, start: date });
+                        }}
+                        className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <input 
+                        type="number"
+                        value={editTime.duration}
+                        onChange={e => setEditTime({ ...editTime, duration: Number(e.target.value) })}
+                        className="w-24 px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                      />
+                      <span className="text-xs text-gray-400 flex-1">分钟</span>
+                      <button 
+                        onClick={() => setEditTime(null)}
+                        className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+                      >
+                        取消
+                      </button>
+                      <button 
+                        onClick={handleSaveTime}
+                        className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                      >
+                        保存时间
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button 
+                    onClick={() => setEditTime({
+                      start: new Date(selectedAppt.startAt),
+                      duration: Math.round((selectedAppt.endAt - selectedAppt.startAt) / 60000)
+                    })}
+                    className="text-sm text-blue-600 font-medium hover:underline"
+                  >
+                    修改时间
+                  </button>
+                )}
+
                 <div className="pt-4 space-y-3">
                   <p className="text-sm font-medium text-gray-700">更新状态</p>
                   <div className="grid grid-cols-3 gap-2">
                     <button 
-                      onClick={() => updateApptStatus(selectedAppt.id, AppointmentStatus.Scheduled)}
+                      onClick={() => updateApptStatus(selectedAppt, AppointmentStatus.Scheduled)}
                       className={`flex flex-col items-center gap-1 p-2 rounded-xl border text-[10px] font-bold uppercase tracking-widest transition-all ${
                         selectedAppt.status === AppointmentStatus.Scheduled ? 'bg-blue-50 border-blue-200 text-blue-600 ring-2 ring-blue-500/20' : 'border-gray-100 hover:bg-gray-50'
                       }`}
@@ -257,7 +874,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
                       待执行
                     </button>
                     <button 
-                      onClick={() => updateApptStatus(selectedAppt.id, AppointmentStatus.Completed)}
+                      onClick={() => updateApptStatus(selectedAppt, AppointmentStatus.Completed)}
                       className={`flex flex-col items-center gap-1 p-2 rounded-xl border text-[10px] font-bold uppercase tracking-widest transition-all ${
                         selectedAppt.status === AppointmentStatus.Completed ? 'bg-green-50 border-green-200 text-green-600 ring-2 ring-green-500/20' : 'border-gray-100 hover:bg-gray-50'
                       }`}
@@ -266,7 +883,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
                       已完成
                     </button>
                     <button 
-                      onClick={() => updateApptStatus(selectedAppt.id, AppointmentStatus.Canceled)}
+                      onClick={() => updateApptStatus(selectedAppt, AppointmentStatus.Canceled)}
                       className={`flex flex-col items-center gap-1 p-2 rounded-xl border text-[10px] font-bold uppercase tracking-widest transition-all ${
                         selectedAppt.status === AppointmentStatus.Canceled ? 'bg-red-50 border-red-200 text-red-600 ring-2 ring-red-500/20' : 'border-gray-100 hover:bg-gray-50'
                       }`}
@@ -277,9 +894,79 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
                   </div>
                 </div>
 
+                {billedAppt && (
+                  <RiskAssessmentEditor
+                    key={billedAppt.id}
+                    appt={billedAppt}
+                    onSave={risk => updateState(
+                      prev => updateRisk(prev, billedAppt.id, risk),
+                      `已记录${clientName(billedAppt.clientId)} ${describeSlot(billedAppt.startAt)} 的风险评估（${RISK_LEVEL_LABELS[risk.level]}）`
+                    )}
+                  />
+                )}
+
+                {billedAppt && ratedGoals.length > 0 && (
+                  <GoalProgressEditor
+                    key={billedAppt.id}
+                    appt={billedAppt}
+                    goals={ratedGoals}
+                    onSave={ratings => updateState(
+                      prev => rateProgress(prev, billedAppt.id, ratings),
+                      `已记录${clientName(billedAppt.clientId)} ${describeSlot(billedAppt.startAt)} 的目标进展`
+                    )}
+                  />
+                )}
+
+                {billedClient && isReviewDue(state, billedClient) && (
+                  <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                    距上次回顾治疗计划已进行 {sessionsSinceReview(state, billedClient)} 次咨询，
+                    <Link to={`/clients/${billedClient.id}`} className="font-medium underline">前往回顾计划</Link>
+                  </div>
+                )}
+
+                {billedAppt && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-700">
+                      收款
+                      <span className="ml-2 text-gray-400 font-normal">
+                        {formatMoney(feeOf(state.clients.find(c => c.id === billedAppt.clientId), billedAppt))}
+                      </span>
+                    </p>
+                    <div className="flex gap-2">
+                      {Object.values(PaymentStatus).map(status => (
+                        <button
+                          key={status}
+                          onClick={() => updateState(
+                            prev => updatePayment(prev, billedAppt.id, { paymentStatus: status }),
+                            `已将${clientName(billedAppt.clientId)} ${describeSlot(billedAppt.startAt)} 的咨询标记为${PAYMENT_STATUS_LABELS[status]}`
+                          )}
+                          className={`flex-1 px-2 py-1.5 rounded-lg border text-xs font-medium ${
+                            paymentStatusOf(billedAppt) === status ? 'bg-blue-50 border-blue-200 text-blue-600' : 'border-gray-100 hover:bg-gray-50'
+                          }`}
+                        >
+                          {PAYMENT_STATUS_LABELS[status]}
+                        </button>
+                      ))}
+                    </div>
+                    {paymentStatusOf(billedAppt) === PaymentStatus.Paid && (
+                      <select
+                        value={billedAppt.paymentMethod || ''}
+                        onChange={e => updateState(
+                          prev => updatePayment(prev, billedAppt.id, { paymentMethod: (e.target.value || undefined) as PaymentMethod | undefined }),
+                          `已记录${clientName(billedAppt.clientId)} ${describeSlot(billedAppt.startAt)} 的支付方式`
+                        )}
+                        className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                      >
+                        <option value="">支付方式未记录</option>
+                        {Object.values(PaymentMethod).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                      </select>
+                    )}
+                  </div>
+                )}
+
                 <div className="pt-6 flex gap-3">
                   <button 
-                    onClick={() => deleteAppt(selectedAppt.id)}
+                    onClick={() => deleteAppt(selectedAppt)}
                     className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
                   >
                     <Trash2 className="w-5 h-5" />
@@ -293,7 +980,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
                 </div>
               </div>
             ) : (
-              <form onSubmit={handleCreateAppointment} className="p-6 space-y-4">
+              <form onSubmit={handleCreateAppointment} className="p-6 space-y-4 overflow-y-auto">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">选择个案 *</label>
                   <select 
@@ -343,6 +1030,59 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
                     className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">重复</label>
+                  <select 
+                    value={newAppt.repeat}
+                    onChange={e => setNewAppt({ ...newAppt, repeat: e.target.value as RepeatMode })}
+                    className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    <option value="none">不重复</option>
+                    <option value="weekly">每周（{format(newAppt.start, 'EEEE')}）</option>
+                    <option value="biweekly">每两周（{format(newAppt.start, 'EEEE')}）</option>
+                  </select>
+                </div>
+                {newApptIssues.length > 0 && (
+                  <div className={`flex items-start gap-2 p-3 border rounded-xl text-xs ${
+                    isNewApptBlocked ? 'bg-red-50 border-red-100 text-red-700' : 'bg-amber-50 border-amber-100 text-amber-700'
+                  }`}>
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <div className="space-y-0.5">
+                      {isNewApptBlocked && <p className="font-semibold">存在冲突，无法创建：</p>}
+                      {newApptIssues.map((issue, i) => <p key={i}>{issue.message}</p>)}
+                    </div>
+                  </div>
+                )}
+                {newAppt.repeat !== 'none' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <select 
+                      value={newAppt.repeatEnd}
+                      onChange={e => setNewAppt({ ...newAppt, repeatEnd: e.target.value as RepeatEnd })}
+                      className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                      <option value="never">不结束</option>
+                      <option value="until">截止日期</option>
+                      <option value="count">重复次数</option>
+                    </select>
+                    {newAppt.repeatEnd === 'until' && (
+                      <input 
+                        type="date"
+                        value={newAppt.untilDate}
+                        onChange={e => setNewAppt({ ...newAppt, untilDate: e.target.value })}
+                        className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      />
+                    )}
+                    {newAppt.repeatEnd === 'count' && (
+                      <input 
+                        type="number"
+                        min={1}
+                        value={newAppt.count}
+                        onChange={e => setNewAppt({ ...newAppt, count: Number(e.target.value) })}
+                        className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      />
+                    )}
+                  </div>
+                )}
                 <div className="pt-4 flex gap-3">
                   <button 
                     type="button" 
@@ -353,7 +1093,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
                   </button>
                   <button 
                     type="submit"
-                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                    disabled={isNewApptBlocked}
+                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     确认创建
                   </button>
@@ -363,6 +1104,183 @@ const CalendarView: React.FC<CalendarViewProps> = ({ state, updateState }) => {
           </div>
         </div>
       )}
+
+      {/* Busy Block Detail */}
+      {selectedBusy && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl w-full max-w-sm shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-lg font-bold flex items-center gap-2">
+                <Ban className="w-5 h-5 text-gray-400" />
+                忙碌时段
+              </h3>
+              <button onClick={() => setSelectedBusy(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-3 text-sm">
+              <p className="text-lg font-bold">{selectedBusy.block.title}</p>
+              <p className="text-gray-600">
+                {format(selectedBusy.startAt, 'yyyy-MM-dd HH:mm')} - {format(selectedBusy.endAt, 'HH:mm')}
+              </p>
+              <p className="text-gray-500">来源：{selectedBusy.block.source}</p>
+              <p className="text-xs text-gray-400">只读，来自外部日历。如需修改请在原日历中编辑后重新导入。</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* ICS Import Dialog */}
+      {pendingImport && importPreview && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl w-full max-w-md shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <div>
+                <h3 className="text-xl font-bold">导入日历</h3>
+                <p className="text-xs text-gray-400 mt-1">{pendingImport.fileName} · {pendingImport.parsed.events.length} 个事件</p>
+              </div>
+              <button onClick={() => setPendingImport(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  ['busy', '忙碌时段', '只读显示，用于查看真实空闲'],
+                  ['appointments', '个案预约', '作为所选个案的预约导入'],
+                ] as [IcsImportTarget, string, string][]).map(([target, label, hint]) => (
+                  <button
+                    key={target}
+                    onClick={() => setPendingImport({ ...pendingImport, target })}
+                    className={`text-left px-3 py-2 rounded-xl border transition-all ${
+                      pendingImport.target === target ? 'border-blue-300 bg-blue-50 ring-2 ring-blue-500/20' : 'border-gray-100 hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="font-medium text-sm text-gray-800">{label}</p>
+                    <p className="text-xs text-gray-400">{hint}</p>
+                  </button>
+                ))}
+              </div>
+
+              {pendingImport.target === 'busy' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">来源名称</label>
+                  <input
+                    value={pendingImport.source}
+                    onChange={e => setPendingImport({ ...pendingImport, source: e.target.value })}
+                    className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">归属个案 *</label>
+                  <select
+                    value={pendingImport.clientId}
+                    onChange={e => setPendingImport({ ...pendingImport, clientId: e.target.value })}
+                    className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    <option value="">-- 选择一个已有个案 --</option>
+                    {state.clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {([
+                  ['新增', importPreview.added, 'text-green-600'],
+                  ['更新', importPreview.updated, 'text-blue-600'],
+                  ['未变', importPreview.unchanged, 'text-gray-500'],
+                  ['跳过', importPreview.skipped, 'text-amber-600'],
+                ] as [string, number, string][]).map(([label, value, color]) => (
+                  <div key={label} className="p-2 bg-gray-50 rounded-lg">
+                    <p className={`text-lg font-bold ${color}`}>{value}</p>
+                    <p className="text-[10px] text-gray-400">{label}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400">
+                按 UID 去重：重复导入同一日历只会更新已有记录。已取消、标记为空闲{pendingImport.target === 'appointments' ? '及全天' : ''}的事件会被跳过。
+                {pendingImport.parsed.events.some(e => e.unsupportedRule) && ' 部分重复规则（如“每月第二个周二”）暂不支持，仅导入首次日期。'}
+              </p>
+
+              {busySources.length > 0 && (
+                <div className="pt-2 border-t border-gray-100">
+                  <p className="text-xs font-medium text-gray-500 mb-2">已导入的忙碌日历</p>
+                  <div className="space-y-1">
+                    {busySources.map(([source, count]) => (
+                      <div key={source} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">{source} <span className="text-xs text-gray-400">({count})</span></span>
+                        <button onClick={() => removeBusySource(source)} className="text-xs text-red-500 hover:underline">移除</button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="pt-2 flex gap-3">
+                <button
+                  onClick={() => setPendingImport(null)}
+                  className="flex-1 px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 font-medium"
+                >
+                  取消
+                </button>
+                <button
+                  onClick={handleConfirmImport}
+                  disabled={pendingImport.target === 'appointments' ? !pendingImport.clientId : !pendingImport.source.trim()}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+                >
+                  确认导入
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {freedSlot && slotMatches.length > 0 && (
+        <SlotSuggestions
+          slot={freedSlot}
+          matches={slotMatches}
+          onBook={handleBookFromWaitlist}
+          onClose={() => setFreedSlot(null)}
+        />
+      )}
+
+      {/* Series Scope Dialog */}
+      {pendingScope && (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl w-full max-w-sm shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="p-6 border-b border-gray-100 flex items-center gap-2">
+              <Repeat className="w-5 h-5 text-blue-500" />
+              <h3 className="text-lg font-bold">{pendingScope.title}</h3>
+            </div>
+            <div className="p-4 space-y-2">
+              {SCOPE_OPTIONS.map(option => (
+                <button 
+                  key={option.scope}
+                  onClick={() => {
+                    pendingScope.apply(option.scope);
+                    setPendingScope(null);
+                  }}
+                  className="w-full text-left px-4 py-3 rounded-xl border border-gray-100 hover:border-blue-300 hover:bg-blue-50 transition-all"
+                >
+                  <p className="font-medium text-gray-800">{option.label}</p>
+                  <p className="text-xs text-gray-400">{option.hint}</p>
+                </button>
+              ))}
+              <button 
+                onClick={() => {
+                  pendingScope.dismiss?.();
+                  setPendingScope(null);
+                }}
+                className="w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 font-medium"
+              >
+                取消
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,6 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   ArrowLeft, 
   FileText, 
@@ -14,29 +14,1442 @@ import {
   Check,
   X as XIcon,
   Clock,
-  User
+  User,
+  Bold,
+  Italic,
+  Heading2,
+  List,
+  ListChecks,
+  History,
+  ChevronDown,
+  RotateCcw,
+  Wallet,
+  Printer,
+  ClipboardCheck,
+  AlertTriangle,
+  IdCard,
+  Target,
+  FileCheck
 } from 'lucide-react';
-import { AppState, Client, ClientStatus, FileCategory, FileEntry, AppointmentStatus } from '../types';
-import { getClientStats, uuid } from '../store';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, ReferenceArea } from 'recharts';
+import {
+  AppState,
+  Appointment,
+  Client,
+  ClientStatus,
+  FileCategory,
+  FileEntry,
+  AppointmentStatus,
+  NoteRevision,
+  NoteTemplate,
+  PaymentMethod,
+  PaymentStatus,
+  AssessmentScale,
+  ScaleResult,
+  ClientIntake,
+  CustomFieldType,
+  Gender,
+  GoalStatus,
+  StatusChange,
+  TreatmentGoal
+} from '../types';
+import { getClientStats, getStorage, uuid } from '../store';
+import { NoteDraft } from '../storage';
 import { STATUS_COLORS } from '../constants';
-import { format } from 'date-fns';
+import { MarkdownView, toggleTask } from '../markdown';
+import { SESSION_TYPE_LABELS, generateNoteContent, templatesFor } from '../templates';
+import { DiffLine, deleteNoteRevisions, diffLines, revisionsOf, saveNoteContent } from '../revisions';
+import {
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_COLORS,
+  PAYMENT_STATUS_LABELS,
+  billableSessions,
+  feeOf,
+  formatMoney,
+  paymentStatusOf,
+  receiptHtml,
+  sumBalance,
+  updatePayment
+} from '../billing';
+import { printDocument } from '../print';
+import { HOUR_RULE_LABELS, formatHours } from '../hours';
+import {
+  GOAL_COLORS,
+  GOAL_STATUS_COLORS,
+  GOAL_STATUS_LABELS,
+  PROGRESS_MAX,
+  emptyPlan,
+  goalProgressSeries,
+  isReviewDue,
+  latestRating,
+  markPlanReviewed,
+  sessionsSinceReview,
+  updatePlan
+} from '../treatment';
+import { setNoteFinalized } from '../pendingNotes';
+import { StatusChangeDetails, changeClientStatus, daysInStatus } from '../lifecycle';
+import { GENDER_LABELS, INTAKE_FIELDS, INTAKE_GROUP_LABELS, IntakeField, ageOf } from '../intake';
+import { allScales, bandRanges, clientScaleResults, findScale, flaggedItems, isUsableScale, scoreAnswers, scoreChange, scoreRange, severityOf } from '../scales';
+import { format, startOfMonth, endOfDay } from 'date-fns';
 
 interface ClientDetailProps {
   state: AppState;
-  updateState: (updater: (prev: AppState) => AppState) => void;
+  updateState: (updater: (prev: AppState) => AppState, action?: string) => void;
 }
 
+type EditorLayout = 'split' | 'edit' | 'preview';
+
+const LIST_LINE = /^(\s*)([-*+]|\d{1,9}[.)])\s+(\[[ xX]\]\s+)?(.*)$/;
+
+const NoteEditor: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  onSave: () => void;
+}> = ({ value, onChange, onSave }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [layout, setLayout] = useState<EditorLayout>('split');
+
+  // Applies an edit and puts the caret (or selection) back after React re-renders
+  const edit = (next: string, selStart: number, selEnd = selStart) => {
+    onChange(next);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(selStart, selEnd);
+    });
+  };
+
+  const wrapSelection = (marker: string) => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const { selectionStart: start, selectionEnd: end } = el;
+    const selected = value.slice(start, end);
+    edit(value.slice(0, start) + marker + selected + marker + value.slice(end), start + marker.length, end + marker.length);
+  };
+
+  const prefixLines = (prefix: string) => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const lineStart = value.lastIndexOf('\n', el.selectionStart - 1) + 1;
+    const lineEnd = value.indexOf('\n', el.selectionEnd);
+    const block = value.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+    const prefixed = block.split('\n').map(line => line.startsWith(prefix) ? line : prefix + line).join('\n');
+    edit(value.slice(0, lineStart) + prefixed + value.slice(lineStart + block.length), lineStart + prefixed.length);
+  };
+
+  // Enter continues a list item; Enter on an empty item ends the list
+  const continueList = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const el = e.currentTarget;
+    if (el.selectionStart !== el.selectionEnd) return;
+    const caret = el.selectionStart;
+    const lineStart = value.lastIndexOf('\n', caret - 1) + 1;
+    const lineEndIndex = value.indexOf('\n', caret);
+    const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+    if (caret !== lineEnd) return;
+    const match = value.slice(lineStart, lineEnd).match(LIST_LINE);
+    if (!match) return;
+    e.preventDefault();
+    const [, indent, marker, task, text] = match;
+    if (!text.trim()) {
+      edit(value.slice(0, lineStart) + value.slice(lineEnd), lineStart);
+      return;
+    }
+    const number = parseInt(marker, 10);
+    const nextMarker = isNaN(number) ? marker : `${number + 1}${marker.slice(-1)}`;
+    const insert = `\n${indent}${nextMarker} ${task ? '[ ] ' : ''}`;
+    edit(value.slice(0, caret) + insert + value.slice(caret), caret + insert.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter also confirms IME candidates while typing Chinese
+    if (e.nativeEvent.isComposing) return;
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      onSave();
+    } else if (mod && e.key.toLowerCase() === 'b') {
+      e.preventDefault();
+      wrapSelection('**');
+    } else if (mod && e.key.toLowerCase() === 'i') {
+      e.preventDefault();
+      wrapSelection('*');
+    } else if (e.key === 'Enter' && !e.shiftKey && !mod) {
+      continueList(e);
+    }
+  };
+
+  const tools = [
+    { icon: Bold, title: '粗体 (Ctrl+B)', run: () => wrapSelection('**') },
+    { icon: Italic, title: '斜体 (Ctrl+I)', run: () => wrapSelection('*') },
+    { icon: Heading2, title: '标题', run: () => prefixLines('## ') },
+    { icon: List, title: '列表', run: () => prefixLines('- ') },
+    { icon: ListChecks, title: '待办清单', run: () => prefixLines('- [ ] ') },
+  ];
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex items-center justify-between shrink-0">
+        <div className="flex gap-1">
+          {tools.map(tool => (
+            <button
+              key={tool.title}
+              type="button"
+              title={tool.title}
+              onClick={tool.run}
+              disabled={layout === 'preview'}
+              className="p-1.5 rounded text-gray-500 hover:bg-gray-100 hover:text-gray-800 disabled:opacity-40"
+            >
+              <tool.icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-0.5 text-xs font-medium">
+          {([['edit', '编辑'], ['split', '分栏'], ['preview', '预览']] as [EditorLayout, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setLayout(id)}
+              className={`px-3 py-1 rounded-md ${layout === id ? 'bg-white shadow-sm text-gray-800' : 'text-gray-500'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className={`flex-1 min-h-0 grid gap-4 ${layout === 'split' ? 'grid-cols-1 xl:grid-cols-2' : 'grid-cols-1'}`}>
+        {layout !== 'preview' && (
+          <textarea 
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="w-full h-full min-h-[300px] p-4 border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm resize-none"
+            placeholder="开始记录你的内容...（支持 Markdown）"
+          />
+        )}
+        {layout !== 'edit' && (
+          <div className="h-full min-h-[300px] overflow-auto p-4 border border-gray-100 rounded-lg bg-gray-50/30">
+            {value.trim()
+              ? <MarkdownView source={value} onToggleTask={line => onChange(toggleTask(value, line))} />
+              : <span className="text-sm text-gray-300 italic">预览将显示在这里</span>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Unchanged runs longer than this are folded, keeping a few lines of context
+const DIFF_CONTEXT = 3;
+
+type DiffRow = DiffLine | { type: 'fold'; count: number };
+
+const foldUnchanged = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'same') {
+      rows.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].type === 'same') end++;
+    const keepHead = i === 0 ? 0 : DIFF_CONTEXT;
+    const keepTail = end === lines.length ? 0 : DIFF_CONTEXT;
+    if (end - i > keepHead + keepTail + 1) {
+      rows.push(...lines.slice(i, i + keepHead), { type: 'fold', count: end - i - keepHead - keepTail }, ...lines.slice(end - keepTail, end));
+    } else {
+      rows.push(...lines.slice(i, end));
+    }
+    i = end;
+  }
+  return rows;
+};
+
+const RevisionHistory: React.FC<{
+  file: FileEntry;
+  revisions: NoteRevision[]; // Newest first
+  onRestore: (revision: NoteRevision) => void;
+  onClose: () => void;
+}> = ({ file, revisions, onRestore, onClose }) => {
+  // Notes saved before history existed, or changed elsewhere, show their live content too
+  const entries: NoteRevision[] = revisions[0]?.content === file.content ? revisions : [
+    { id: 'current', fileId: file.id, clientId: file.clientId, content: file.content, label: '当前内容', createdAt: file.updatedAt, updatedAt: file.updatedAt },
+    ...revisions,
+  ];
+  const [olderId, setOlderId] = useState(entries[1]?.id ?? entries[0]?.id);
+  const [newerId, setNewerId] = useState(entries[0]?.id);
+  const older = entries.find(e => e.id === olderId) ?? entries[0];
+  const newer = entries.find(e => e.id === newerId) ?? entries[0];
+  const diff = useMemo(() => diffLines(older?.content ?? '', newer?.content ?? ''), [older, newer]);
+  const added = diff.filter(l => l.type === 'add').length;
+  const removed = diff.filter(l => l.type === 'del').length;
+
+  return (
+    <div className="h-full flex flex-col md:flex-row gap-4 min-h-0">
+      <div className="md:w-60 shrink-0 flex flex-col min-h-0">
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-sm font-bold">历史版本</p>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 rounded hover:bg-gray-100">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-[10px] text-gray-400 mb-2">选择“旧 / 新”两个版本进行对比</p>
+        <div className="flex-1 overflow-y-auto space-y-1 -mx-1 px-1">
+          {entries.map(entry => (
+            <div
+              key={entry.id}
+              className={`p-2 rounded-lg border text-xs ${
+                entry.id === olderId || entry.id === newerId ? 'border-blue-200 bg-blue-50/50' : 'border-gray-100'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-700">{format(entry.createdAt, 'yyyy/MM/dd HH:mm:ss')}</span>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => setOlderId(entry.id)}
+                    className={`px-1.5 rounded ${entry.id === olderId ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                  >
+                    旧
+                  </button>
+                  <button
+                    onClick={() => setNewerId(entry.id)}
+                    className={`px-1.5 rounded ${entry.id === newerId ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                  >
+                    新
+                  </button>
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2 mt-1 text-gray-400">
+                <span className="truncate">{entry.label || `${entry.content.split('\n').length} 行`}</span>
+                {entry.content !== file.content && (
+                  <button onClick={() => onRestore(entry)} className="flex items-center gap-0.5 text-blue-600 hover:underline shrink-0">
+                    <RotateCcw className="w-3 h-3" />
+                    恢复
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 min-w-0 flex flex-col min-h-0">
+        <div className="flex items-center gap-3 mb-2 text-xs text-gray-500">
+          <span>{older ? format(older.createdAt, 'MM/dd HH:mm:ss') : '—'} → {newer ? format(newer.createdAt, 'MM/dd HH:mm:ss') : '—'}</span>
+          <span className="text-green-600 font-semibold">+{added}</span>
+          <span className="text-red-500 font-semibold">−{removed}</span>
+        </div>
+        <div className="flex-1 overflow-auto border border-gray-100 rounded-lg font-mono text-xs">
+          {added + removed === 0 ? (
+            <p className="p-4 text-gray-400 font-sans">两个版本内容相同</p>
+          ) : foldUnchanged(diff).map((row, i) => row.type === 'fold' ? (
+            <div key={i} className="px-3 py-1 bg-gray-50 text-gray-400 text-center font-sans">⋯ {row.count} 行未更改</div>
+          ) : (
+            <div
+              key={i}
+              className={`flex ${row.type === 'add' ? 'bg-green-50 text-green-800' : row.type === 'del' ? 'bg-red-50 text-red-800' : 'text-gray-600'}`}
+            >
+              <span className="w-10 shrink-0 text-right pr-2 text-gray-300 select-none">{row.oldNo ?? ''}</span>
+              <span className="w-10 shrink-0 text-right pr-2 text-gray-300 select-none">{row.newNo ?? ''}</span>
+              <span className="w-4 shrink-0 select-none">{row.type === 'add' ? '+' : row.type === 'del' ? '−' : ''}</span>
+              <span className="whitespace-pre-wrap break-all pr-3">{row.text || ' '}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// A total that can be overridden by hand; the caller stores the difference as an adjustment
+const AdjustableMetric: React.FC<{
+  label: string;
+  value: number;
+  unit: string;
+  step?: number;
+  hint?: string;
+  onSave: (value: number) => void;
+}> = ({ label, value, unit, step = 1, hint, onSave }) => {
+  const [draft, setDraft] = useState<number | null>(null);
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg group relative min-h-[80px]">
+      <p className="text-xs text-gray-500 mb-1">{label}</p>
+      {draft !== null ? (
+        <div className="space-y-2">
+          <div className="flex items-center gap-1">
+            <input 
+              type="number"
+              step={step}
+              value={draft}
+              onChange={(e) => setDraft(Number(e.target.value) || 0)}
+              className="w-full bg-white border border-blue-300 rounded px-1.5 py-1 text-sm font-bold focus:ring-2 focus:ring-blue-500 outline-none"
+              autoFocus
+            />
+            <span className="text-xs text-gray-400">{unit}</span>
+          </div>
+          <div className="flex gap-1">
+            <button 
+              onClick={() => {
+                onSave(draft);
+                setDraft(null);
+              }}
+              className="flex-1 bg-blue-600 text-white p-1 rounded hover:bg-blue-700 flex justify-center"
+            >
+              <Check className="w-3.5 h-3.5" />
+            </button>
+            <button 
+              onClick={() => setDraft(null)}
+              className="flex-1 bg-gray-200 text-gray-600 p-1 rounded hover:bg-gray-300 flex justify-center"
+            >
+              <XIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <p className="text-xl font-bold text-gray-800">{value} <span className="text-xs font-normal text-gray-400">{unit}</span></p>
+            <button 
+              onClick={() => setDraft(value)} 
+              className="opacity-0 group-hover:opacity-100 p-1 text-blue-500 hover:bg-blue-50 rounded transition-all"
+              title={`手动修正${label}`}
+            >
+              <Edit2 className="w-3 h-3" />
+            </button>
+          </div>
+          {hint && <p className="text-[10px] text-gray-400 mt-1">{hint}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Commits on blur or Enter, so typing an amount is a single undoable change
+const AmountInput: React.FC<{
+  value?: number;
+  placeholder?: string;
+  onCommit: (value: number | undefined) => void;
+}> = ({ value, placeholder, onCommit }) => {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+  useEffect(() => setText(value === undefined ? '' : String(value)), [value]);
+  const commit = () => {
+    const next = text.trim() === '' ? undefined : Math.max(0, Number(text) || 0);
+    if (next !== value) onCommit(next);
+  };
+  return (
+    <input
+      type="number"
+      min={0}
+      value={text}
+      placeholder={placeholder}
+      onChange={e => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+      className="w-24 px-2 py-1 bg-white border border-gray-200 rounded text-sm text-right outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  );
+};
+
+const BillingPanel: React.FC<{
+  state: AppState;
+  client: Client;
+  updateState: ClientDetailProps['updateState'];
+}> = ({ state, client, updateState }) => {
+  const [receiptRange, setReceiptRange] = useState(() => ({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+  }));
+  const sessions = billableSessions(state, client.id).reverse();
+  const balance = sumBalance(client, sessions);
+
+  const setPayment = (appt: Appointment, updates: Parameters<typeof updatePayment>[2], action: string) =>
+    updateState(prev => updatePayment(prev, appt.id, updates), action);
+
+  const handlePrintReceipt = () => {
+    const from = new Date(`${receiptRange.from}T00:00:00`).getTime();
+    const to = endOfDay(new Date(`${receiptRange.to}T00:00:00`)).getTime();
+    if (isNaN(from) || isNaN(to) || from > to) return;
+    if (!printDocument(`收据 ${client.name}`, receiptHtml(state, client.id, from, to))) {
+      window.alert('浏览器阻止了弹出窗口，请允许本页面打开新窗口后重试。');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <Wallet className="w-4 h-4 text-blue-500" />
+          费用与收款
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          每次咨询默认费用
+          <AmountInput
+            value={client.defaultFee || undefined}
+            placeholder="0"
+            onCommit={fee => updateState(prev => ({
+              ...prev,
+              clients: prev.clients.map(c => c.id === client.id ? { ...c, defaultFee: fee ?? 0, updatedAt: Date.now() } : c)
+            }), `已将${client.name}的默认费用改为 ${formatMoney(fee ?? 0)}`)}
+          />
+          元
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-6 border-b border-gray-100">
+        {[
+          { label: '应收合计', value: balance.billed, color: 'text-gray-800' },
+          { label: '已收', value: balance.paid, color: 'text-green-600' },
+          { label: '减免', value: balance.waived, color: 'text-gray-500' },
+          { label: `未付（${balance.unpaidSessions} 次）`, value: balance.outstanding, color: balance.outstanding > 0 ? 'text-amber-600' : 'text-gray-800' },
+        ].map(item => (
+          <div key={item.label} className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500 mb-1">{item.label}</p>
+            <p className={`text-xl font-bold ${item.color}`}>{formatMoney(item.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      {sessions.length > 0 ? (
+        <div className="max-h-80 overflow-y-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 bg-gray-50 text-xs font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-2">咨询时间</th>
+                <th className="px-6 py-2">费用（元）</th>
+                <th className="px-6 py-2">状态</th>
+                <th className="px-6 py-2">支付方式</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sessions.map(appt => {
+                const status = paymentStatusOf(appt);
+                const when = format(appt.startAt, 'MM-dd HH:mm');
+                return (
+                  <tr key={appt.id}>
+                    <td className="px-6 py-2 text-gray-600">{format(appt.startAt, 'yyyy-MM-dd HH:mm')}</td>
+                    <td className="px-6 py-2">
+                      <AmountInput
+                        value={appt.fee}
+                        placeholder={String(client.defaultFee || 0)}
+                        onCommit={fee => setPayment(appt, { fee }, fee === undefined
+                          ? `已将 ${when} 的费用恢复为默认`
+                          : `已将 ${when} 的费用改为 ${formatMoney(fee)}`)}
+                      />
+                    </td>
+                    <td className="px-6 py-2">
+                      <select
+                        value={status}
+                        onChange={e => {
+                          const next = e.target.value as PaymentStatus;
+                          setPayment(appt, { paymentStatus: next }, `已将 ${when} 的咨询标记为${PAYMENT_STATUS_LABELS[next]}`);
+                        }}
+                        className={`px-2 py-1 rounded border text-xs font-medium outline-none ${PAYMENT_STATUS_COLORS[status]}`}
+                      >
+                        {Object.values(PaymentStatus).map(s => <option key={s} value={s}>{PAYMENT_STATUS_LABELS[s]}</option>)}
+                      </select>
+                      {appt.paidAt && status === PaymentStatus.Paid && (
+                        <span className="ml-2 text-xs text-gray-400">{format(appt.paidAt, 'MM-dd')}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-2">
+                      <select
+                        value={appt.paymentMethod || ''}
+                        disabled={status !== PaymentStatus.Paid}
+                        onChange={e => {
+                          const method = (e.target.value || undefined) as PaymentMethod | undefined;
+                          setPayment(appt, { paymentMethod: method }, `已记录 ${when} 的支付方式`);
+                        }}
+                        className="px-2 py-1 bg-white border border-gray-200 rounded text-xs outline-none disabled:opacity-40"
+                      >
+                        <option value="">未记录</option>
+                        {Object.values(PaymentMethod).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="px-6 py-8 text-center text-sm text-gray-400">暂无已完成的咨询</p>
+      )}
+
+      <div className="p-4 border-t border-gray-100 bg-gray-50/50 flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-600">收据期间</span>
+        <input
+          type="date"
+          value={receiptRange.from}
+          onChange={e => setReceiptRange({ ...receiptRange, from: e.target.value })}
+          className="px-2 py-1 bg-white border border-gray-200 rounded outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <span className="text-gray-400">至</span>
+        <input
+          type="date"
+          value={receiptRange.to}
+          min={receiptRange.from}
+          onChange={e => setReceiptRange({ ...receiptRange, to: e.target.value })}
+          className="px-2 py-1 bg-white border border-gray-200 rounded outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handlePrintReceipt}
+          disabled={!receiptRange.from || !receiptRange.to || receiptRange.from > receiptRange.to}
+          className="flex items-center gap-1 px-3 py-1 bg-white border border-gray-200 rounded-lg hover:border-blue-500 hover:text-blue-600 font-medium disabled:opacity-50"
+        >
+          <Printer className="w-4 h-4" />
+          打印收据
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const IntakePanel: React.FC<{
+  client: Client;
+  customFields: AppState['settings']['customFields'];
+  onSave: (updates: Pick<Client, 'intake' | 'customFields'>) => void;
+}> = ({ client, customFields, onSave }) => {
+  const [draft, setDraft] = useState<Pick<Client, 'intake' | 'customFields'> | null>(null);
+  const groups = Object.keys(INTAKE_GROUP_LABELS) as IntakeField['group'][];
+  const inputClass = 'w-full px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500';
+
+  const setIntake = (key: keyof ClientIntake, value: string) =>
+    draft && setDraft({ ...draft, intake: { ...draft.intake, [key]: value || undefined } });
+
+  const setCustom = (id: string, value: string) => {
+    if (!draft) return;
+    const next = { ...draft.customFields };
+    if (value) next[id] = value;
+    else delete next[id];
+    setDraft({ ...draft, customFields: next });
+  };
+
+  const displayIntake = (field: IntakeField) => {
+    const value = client.intake?.[field.key];
+    if (!value) return undefined;
+    if (field.key === 'gender') return GENDER_LABELS[value as Gender];
+    if (field.key === 'birthDate') return `${value}（${ageOf(value)} 岁）`;
+    return value;
+  };
+
+  const renderIntakeInput = (field: IntakeField) => {
+    const value = draft?.intake[field.key] ?? '';
+    if (field.input === 'gender') {
+      return (
+        <select value={value} onChange={e => setIntake(field.key, e.target.value)} className={inputClass}>
+          <option value="">未填写</option>
+          {Object.values(Gender).map(g => <option key={g} value={g}>{GENDER_LABELS[g]}</option>)}
+        </select>
+      );
+    }
+    if (field.input === 'textarea') {
+      return <textarea rows={3} value={value} onChange={e => setIntake(field.key, e.target.value)} className={inputClass} />;
+    }
+    return <input type={field.input} value={value} onChange={e => setIntake(field.key, e.target.value)} className={inputClass} />;
+  };
+
+  const renderCustomInput = (field: AppState['settings']['customFields'][number]) => {
+    const value = draft?.customFields[field.id] ?? '';
+    if (field.type === CustomFieldType.Select) {
+      return (
+        <select value={value} onChange={e => setCustom(field.id, e.target.value)} className={inputClass}>
+          <option value="">未填写</option>
+          {field.options.map(o => <option key={o} value={o}>{o}</option>)}
+        </select>
+      );
+    }
+    const type = field.type === CustomFieldType.Number ? 'number' : field.type === CustomFieldType.Date ? 'date' : 'text';
+    return <input type={type} value={value} onChange={e => setCustom(field.id, e.target.value)} className={inputClass} />;
+  };
+
+  const row = (key: string, label: string, view: React.ReactNode, input: React.ReactNode, wide = false) => (
+    <div key={key} className={wide ? 'sm:col-span-2 lg:col-span-3' : ''}>
+      <p className="text-xs text-gray-500 mb-1">{label}</p>
+      {draft ? input : <div className="text-sm text-gray-800 whitespace-pre-wrap">{view || <span className="text-gray-300">未填写</span>}</div>}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+        <h3 className="font-bold flex items-center gap-2">
+          <IdCard className="w-4 h-4 text-blue-500" />
+          基本资料
+        </h3>
+        {draft ? (
+          <div className="flex gap-2">
+            <button onClick={() => setDraft(null)} className="flex items-center gap-1.5 bg-gray-100 text-gray-700 px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-gray-200">
+              <XIcon className="w-4 h-4" />
+              取消
+            </button>
+            <button
+              onClick={() => { onSave(draft); setDraft(null); }}
+              className="flex items-center gap-1.5 bg-green-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-green-700"
+            >
+              <Save className="w-4 h-4" />
+              保存
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setDraft({ intake: { ...client.intake }, customFields: { ...client.customFields } })}
+            className="flex items-center gap-1.5 bg-gray-100 text-gray-700 px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-gray-200"
+          >
+            <Edit2 className="w-4 h-4" />
+            编辑
+          </button>
+        )}
+      </div>
+      <div className="p-6 space-y-6">
+        {groups.map(group => (
+          <div key={group}>
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">{INTAKE_GROUP_LABELS[group]}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {INTAKE_FIELDS.filter(f => f.group === group).map(field =>
+                row(field.key, field.label, displayIntake(field), renderIntakeInput(field), field.input === 'textarea')
+              )}
+            </div>
+          </div>
+        ))}
+        {customFields.length > 0 && (
+          <div>
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">自定义字段</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {customFields.map(field => row(field.id, field.label, client.customFields?.[field.id], renderCustomInput(field)))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const StatusChangeForm: React.FC<{
+  client: Client;
+  to: ClientStatus;
+  onCancel: () => void;
+  onConfirm: (details: StatusChangeDetails) => void;
+}> = ({ client, to, onCancel, onConfirm }) => {
+  const [reason, setReason] = useState('');
+  const [terminationSummary, setTerminationSummary] = useState('');
+  const [referral, setReferral] = useState({ target: '', reason: '', date: format(new Date(), 'yyyy-MM-dd') });
+  const inputClass = 'mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm({
+      reason: reason.trim() || undefined,
+      terminationSummary: to === ClientStatus.Closed ? terminationSummary.trim() : undefined,
+      referral: to === ClientStatus.Referred
+        ? { target: referral.target.trim(), reason: referral.reason.trim(), date: referral.date }
+        : undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold">更改个案状态</h3>
+            <p className="text-sm text-gray-500">{client.name}：{client.status} → {to}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-100 rounded-full">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-4">
+          {to === ClientStatus.Closed && (
+            <label className="block text-sm text-gray-600">
+              结案小结
+              <textarea
+                required
+                rows={5}
+                autoFocus
+                value={terminationSummary}
+                onChange={e => setTerminationSummary(e.target.value)}
+                placeholder="工作概况、目标达成情况、结案原因与后续建议"
+                className={inputClass}
+              />
+            </label>
+          )}
+          {to === ClientStatus.Referred && (
+            <>
+              <label className="block text-sm text-gray-600">
+                转介对象
+                <input
+                  required
+                  autoFocus
+                  value={referral.target}
+                  onChange={e => setReferral({ ...referral, target: e.target.value })}
+                  placeholder="机构或咨询师"
+                  className={inputClass}
+                />
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="block text-sm text-gray-600 sm:col-span-2">
+                  转介原因
+                  <input
+                    required
+                    value={referral.reason}
+                    onChange={e => setReferral({ ...referral, reason: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block text-sm text-gray-600">
+                  转介日期
+                  <input
+                    type="date"
+                    required
+                    value={referral.date}
+                    onChange={e => setReferral({ ...referral, date: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+            </>
+          )}
+          <label className="block text-sm text-gray-600">
+            变更原因（可选）
+            <textarea
+              rows={2}
+              autoFocus={to !== ClientStatus.Closed && to !== ClientStatus.Referred}
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={onCancel} className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 font-medium text-sm">
+              取消
+            </button>
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm">
+              确认更改
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+// Newest first; entries carry whatever was recorded with the change
+const StatusHistoryList: React.FC<{ history: StatusChange[] }> = ({ history }) => (
+  <ol className="space-y-3">
+    {[...history].reverse().map((change, i) => (
+      <li key={`${change.at}-${i}`} className="text-sm border-l-2 border-gray-200 pl-3">
+        <div className="flex items-center gap-1.5 flex-wrap">
+          {change.from ? (
+            <>
+              <span className={`text-[10px] px-1.5 py-0.5 rounded-full border ${STATUS_COLORS[change.from]}`}>{change.from}</span>
+              <span className="text-gray-400">→</span>
+            </>
+          ) : (
+            <span className="text-xs text-gray-500">新建为</span>
+          )}
+          <span className={`text-[10px] px-1.5 py-0.5 rounded-full border ${STATUS_COLORS[change.to]}`}>{change.to}</span>
+          <span className="ml-auto text-xs text-gray-400">{format(change.at, 'yyyy-MM-dd')}</span>
+        </div>
+        {change.referral && (
+          <p className="text-xs text-gray-600 mt-1">
+            {change.referral.date} 转介至 {change.referral.target}：{change.referral.reason}
+          </p>
+        )}
+        {change.terminationSummary && <p className="text-xs text-gray-600 mt-1 whitespace-pre-wrap">{change.terminationSummary}</p>}
+        {change.reason && <p className="text-xs text-gray-400 mt-1">原因：{change.reason}</p>}
+      </li>
+    ))}
+  </ol>
+);
+
+const ScaleForm: React.FC<{
+  state: AppState;
+  client: Client;
+  scale: AssessmentScale;
+  onCancel: () => void;
+  onSave: (result: ScaleResult) => void;
+}> = ({ state, client, scale, onCancel, onSave }) => {
+  const [answers, setAnswers] = useState<(number | undefined)[]>(() => scale.items.map(() => undefined));
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const sessions = useMemo(() => state.appointments
+    .filter(a => a.clientId === client.id && a.status !== AppointmentStatus.Canceled)
+    .sort((a, b) => b.startAt - a.startAt), [state.appointments, client.id]);
+  // Link to the session held that day, if there is one
+  const [appointmentId, setAppointmentId] = useState(() =>
+    sessions.find(a => format(a.startAt, 'yyyy-MM-dd') === date)?.id ?? '');
+
+  const complete = answers.every(a => a !== undefined);
+  const score = scoreAnswers(answers.map(a => a ?? 0));
+  const severity = complete ? severityOf(scale, score) : undefined;
+  const flagged = flaggedItems(scale, answers.map(a => a ?? 0));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!complete) return;
+    const administeredAt = new Date(`${date}T00:00:00`).getTime();
+    const linked = sessions.find(a => a.id === appointmentId);
+    onSave({
+      id: uuid(),
+      clientId: client.id,
+      scaleId: scale.id,
+      scaleName: scale.name,
+      appointmentId: linked?.id,
+      answers: answers as number[],
+      score,
+      // A linked session dates the result; otherwise the chosen day
+      administeredAt: linked && format(linked.startAt, 'yyyy-MM-dd') === date ? linked.startAt : administeredAt,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold">{scale.name}</h3>
+            {scale.description && <p className="text-sm text-gray-500">{scale.description}</p>}
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-100 rounded-full">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto">
+          <div className="p-6 grid grid-cols-1 sm:grid-cols-2 gap-3 border-b border-gray-100">
+            <label className="text-sm text-gray-600">
+              测评日期
+              <input
+                type="date"
+                required
+                value={date}
+                onChange={e => setDate(e.target.value)}
+                className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              关联咨询
+              <select
+                value={appointmentId}
+                onChange={e => {
+                  setAppointmentId(e.target.value);
+                  const appt = sessions.find(a => a.id === e.target.value);
+                  if (appt) setDate(format(appt.startAt, 'yyyy-MM-dd'));
+                }}
+                className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value="">不关联</option>
+                {sessions.map(a => <option key={a.id} value={a.id}>{format(a.startAt, 'yyyy-MM-dd HH:mm')}</option>)}
+              </select>
+            </label>
+          </div>
+          <ol className="divide-y divide-gray-100">
+            {scale.items.map((item, i) => (
+              <li key={i} className="px-6 py-3 space-y-2">
+                <p className="text-sm text-gray-800">{i + 1}. {item}</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {scale.options.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setAnswers(answers.map((a, j) => j === i ? option.value : a))}
+                      className={`px-2.5 py-1 rounded-lg border text-xs ${
+                        answers[i] === option.value ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option.label}（{option.value}）
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+          <div className="sticky bottom-0 p-4 border-t border-gray-100 bg-white flex flex-wrap items-center gap-3">
+            <div className="flex-1 text-sm">
+              {complete ? (
+                <span>
+                  总分 <strong>{score}</strong>
+                  {severity && <span className="ml-2 font-medium" style={{ color: severity.color }}>{severity.label}</span>}
+                </span>
+              ) : (
+                <span className="text-gray-400">已作答 {answers.filter(a => a !== undefined).length}/{scale.items.length} 题</span>
+              )}
+              {flagged.length > 0 && (
+                <p className="text-xs text-red-600 flex items-center gap-1 mt-0.5">
+                  <AlertTriangle className="w-3 h-3" />
+                  第 {flagged.map(i => i + 1).join('、')} 题有阳性作答，请完成风险评估
+                </p>
+              )}
+            </div>
+            <button type="button" onClick={onCancel} className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 font-medium text-sm">
+              取消
+            </button>
+            <button type="submit" disabled={!complete} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm disabled:opacity-50">
+              保存
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const AssessmentPanel: React.FC<{
+  state: AppState;
+  client: Client;
+  updateState: ClientDetailProps['updateState'];
+}> = ({ state, client, updateState }) => {
+  const results = clientScaleResults(state, client.id);
+  const usedScaleIds = Array.from(new Set(results.map(r => r.scaleId)));
+  const [chartScaleId, setChartScaleId] = useState<string | null>(null);
+  const [formScale, setFormScale] = useState<AssessmentScale | null>(null);
+  const activeScaleId = chartScaleId && usedScaleIds.includes(chartScaleId) ? chartScaleId : usedScaleIds[0];
+  const activeScale = activeScaleId ? findScale(state, activeScaleId) : undefined;
+  const activeResults = results.filter(r => r.scaleId === activeScaleId);
+  const change = scoreChange(activeResults);
+  const chartData = activeResults.map(r => ({ at: r.administeredAt, score: r.score }));
+  const range = activeScale ? scoreRange(activeScale) : undefined;
+
+  const handleSave = (result: ScaleResult) => {
+    const severity = severityOf(findScale(state, result.scaleId), result.score);
+    updateState(
+      prev => ({ ...prev, scaleResults: [...prev.scaleResults, result] }),
+      `已记录${client.name}的 ${result.scaleName}（${result.score} 分${severity ? `，${severity.label}` : ''}）`
+    );
+    setChartScaleId(result.scaleId);
+    setFormScale(null);
+  };
+
+  const handleDelete = (result: ScaleResult) => {
+    if (!window.confirm(`确定要删除 ${format(result.administeredAt, 'yyyy-MM-dd')} 的 ${result.scaleName} 结果吗？`)) return;
+    updateState(
+      prev => ({ ...prev, scaleResults: prev.scaleResults.filter(r => r.id !== result.id) }),
+      `已删除${client.name} ${format(result.administeredAt, 'yyyy-MM-dd')} 的 ${result.scaleName}`
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <ClipboardCheck className="w-4 h-4 text-blue-500" />
+          量表测评
+        </h3>
+        <select
+          value=""
+          onChange={e => setFormScale(findScale(state, e.target.value) ?? null)}
+          className="bg-white border border-gray-200 rounded-lg text-sm px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">+ 新增测评…</option>
+          {allScales(state).filter(isUsableScale).map(scale => <option key={scale.id} value={scale.id}>{scale.name}</option>)}
+        </select>
+      </div>
+
+      {activeScaleId ? (
+        <div className="p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {usedScaleIds.map(scaleId => (
+              <button
+                key={scaleId}
+                onClick={() => setChartScaleId(scaleId)}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  scaleId === activeScaleId ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {findScale(state, scaleId)?.name ?? results.find(r => r.scaleId === scaleId)?.scaleName}
+              </button>
+            ))}
+            {change !== undefined && (
+              <span className={`ml-auto text-sm font-medium ${change < 0 ? 'text-green-600' : change > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                较首次 {change > 0 ? '+' : ''}{change} 分
+              </span>
+            )}
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                {activeScale && bandRanges(activeScale).map(band => (
+                  <React.Fragment key={band.label}>
+                    <ReferenceArea
+                      y1={band.from}
+                      y2={band.to}
+                      ifOverflow="hidden"
+                      shape={props => <rect x={props.x} y={props.y} width={props.width} height={props.height} fill={band.color} fillOpacity={0.08} />}
+                    />
+                  </React.Fragment>
+                ))}
+                <XAxis
+                  dataKey="at"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  padding={{ left: 20, right: 20 }}
+                  tickFormatter={at => format(at, 'MM-dd')}
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 12, fill: '#9ca3af' }}
+                />
+                <YAxis
+                  domain={range ? [range.min, range.max] : ['auto', 'auto']}
+                  allowDecimals={false}
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 12, fill: '#9ca3af' }}
+                />
+                <Tooltip
+                  labelFormatter={at => format(Number(at), 'yyyy-MM-dd')}
+                  formatter={value => {
+                    const severity = severityOf(activeScale, Number(value));
+                    return [`${value} 分${severity ? `（${severity.label}）` : ''}`, '总分'];
+                  }}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Line type="monotone" dataKey="score" stroke="#3b82f6" strokeWidth={2} dot={{ r: 4 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-xs font-semibold text-gray-500">
+              <tr>
+                <th className="px-4 py-2">日期</th>
+                <th className="px-4 py-2">总分</th>
+                <th className="px-4 py-2">严重程度</th>
+                <th className="px-4 py-2">关联咨询</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {[...activeResults].reverse().map(result => {
+                const severity = severityOf(activeScale, result.score);
+                const flagged = flaggedItems(activeScale, result.answers);
+                const session = result.appointmentId ? state.appointments.find(a => a.id === result.appointmentId) : undefined;
+                return (
+                  <tr key={result.id} className="group">
+                    <td className="px-4 py-2 text-gray-600">{format(result.administeredAt, 'yyyy-MM-dd')}</td>
+                    <td className="px-4 py-2 font-medium">
+                      {result.score}
+                      {flagged.length > 0 && (
+                        <span className="ml-2 text-xs text-red-600" title={`第 ${flagged.map(i => i + 1).join('、')} 题阳性`}>
+                          <AlertTriangle className="w-3 h-3 inline" />
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      {severity ? <span className="font-medium" style={{ color: severity.color }}>{severity.label}</span> : <span className="text-gray-400">—</span>}
+                    </td>
+                    <td className="px-4 py-2 text-gray-500">{session ? format(session.startAt, 'MM-dd HH:mm') : '—'}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleDelete(result)}
+                        className="p-1 opacity-0 group-hover:opacity-100 transition-opacity rounded text-gray-400 hover:text-red-500"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="px-6 py-8 text-center text-sm text-gray-400">暂无测评结果，可从右上角选择量表开始测评</p>
+      )}
+
+      {formScale && (
+        <ScaleForm
+          key={formScale.id}
+          state={state}
+          client={client}
+          scale={formScale}
+          onCancel={() => setFormScale(null)}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+};
+
+const GoalForm: React.FC<{
+  goal?: TreatmentGoal;
+  onCancel: () => void;
+  onSave: (goal: TreatmentGoal) => void;
+}> = ({ goal, onCancel, onSave }) => {
+  const [description, setDescription] = useState(goal?.description ?? '');
+  const [targetDate, setTargetDate] = useState(goal?.targetDate ?? '');
+  const [interventions, setInterventions] = useState(goal?.interventions ?? '');
+  const inputClass = 'mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!description.trim()) return;
+    const now = Date.now();
+    onSave({
+      id: goal?.id ?? uuid(),
+      description: description.trim(),
+      targetDate: targetDate || undefined,
+      interventions: interventions.trim(),
+      status: goal?.status ?? GoalStatus.Active,
+      createdAt: goal?.createdAt ?? now,
+      updatedAt: now,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-xl font-bold">{goal ? '编辑目标' : '新增目标'}</h3>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-100 rounded-full">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <label className="block text-sm text-gray-600">
+            目标
+            <textarea
+              required
+              autoFocus
+              rows={2}
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder="如：惊恐发作频率降至每月一次以下"
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-gray-600">
+            目标日期（可选）
+            <input type="date" value={targetDate} onChange={e => setTargetDate(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block text-sm text-gray-600">
+            干预措施
+            <textarea
+              rows={3}
+              value={interventions}
+              onChange={e => setInterventions(e.target.value)}
+              placeholder="如：认知重构、内感性暴露、呼吸训练"
+              className={inputClass}
+            />
+          </label>
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={onCancel} className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 font-medium text-sm">
+              取消
+            </button>
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm">
+              保存
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+// Reviews are offered in these steps; 0 turns the reminder off
+const REVIEW_INTERVALS = [0, 4, 6, 8, 10, 12];
+
+const TreatmentPlanPanel: React.FC<{
+  state: AppState;
+  client: Client;
+  updateState: ClientDetailProps['updateState'];
+}> = ({ state, client, updateState }) => {
+  const plan = client.treatmentPlan;
+  const [editingGoal, setEditingGoal] = useState<TreatmentGoal | 'new' | null>(null);
+  const series = goalProgressSeries(state, client.id);
+  const chartedGoals = (plan?.goals || []).filter(g => series.some(point => point[g.id] !== undefined));
+  const reviewDue = isReviewDue(state, client);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const savePlan = (goals: TreatmentGoal[], action: string) =>
+    updateState(prev => updatePlan(prev, client.id, { ...(plan ?? emptyPlan()), goals }), action);
+
+  const handleSaveGoal = (goal: TreatmentGoal) => {
+    const goals = plan?.goals || [];
+    const exists = goals.some(g => g.id === goal.id);
+    savePlan(
+      exists ? goals.map(g => g.id === goal.id ? goal : g) : [...goals, goal],
+      exists ? `已更新${client.name}的治疗目标` : `已为${client.name}新增治疗目标`
+    );
+    setEditingGoal(null);
+  };
+
+  const handleDeleteGoal = (goal: TreatmentGoal) => {
+    if (!plan || !window.confirm(`确定要删除目标“${goal.description}”吗？已记录的进展评分将不再显示。`)) return;
+    savePlan(plan.goals.filter(g => g.id !== goal.id), `已删除${client.name}的治疗目标`);
+  };
+
+  const handleGoalStatus = (goal: TreatmentGoal, status: GoalStatus) => {
+    if (!plan) return;
+    savePlan(
+      plan.goals.map(g => g.id === goal.id ? { ...g, status, updatedAt: Date.now() } : g),
+      `已将${client.name}的目标标记为${GOAL_STATUS_LABELS[status]}`
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <Target className="w-4 h-4 text-blue-500" />
+          治疗计划
+        </h3>
+        <div className="flex items-center gap-3">
+          {plan && (
+            <label className="text-sm text-gray-500 flex items-center gap-2">
+              回顾提醒
+              <select
+                value={plan.reviewEvery}
+                onChange={e => updateState(
+                  prev => updatePlan(prev, client.id, { ...plan, reviewEvery: Number(e.target.value) }),
+                  `已更新${client.name}的计划回顾周期`
+                )}
+                className="bg-white border border-gray-200 rounded-lg text-sm px-2 py-1.5 outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Array.from(new Set([...REVIEW_INTERVALS, plan.reviewEvery])).sort((a, b) => a - b).map(n => (
+                  <option key={n} value={n}>{n ? `每 ${n} 次咨询` : '不提醒'}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            onClick={() => setEditingGoal('new')}
+            className="flex items-center gap-1.5 bg-blue-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            新增目标
+          </button>
+        </div>
+      </div>
+
+      {reviewDue && plan && (
+        <div className="mx-6 mt-6 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 flex items-center gap-3">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span className="flex-1">
+            自 {format(plan.reviewedAt, 'yyyy-MM-dd')} 上次回顾以来已进行 {sessionsSinceReview(state, client)} 次咨询，建议与来访者一起回顾治疗计划。
+          </span>
+          <button
+            onClick={() => updateState(prev => markPlanReviewed(prev, client.id), `已回顾${client.name}的治疗计划`)}
+            className="shrink-0 px-3 py-1.5 text-xs bg-white border border-amber-200 rounded-lg hover:bg-amber-100 font-medium flex items-center gap-1"
+          >
+            <Check className="w-3 h-3" /> 已回顾
+          </button>
+        </div>
+      )}
+
+      {plan?.goals.length ? (
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {plan.goals.map((goal, i) => {
+              const rating = latestRating(state, client.id, goal.id);
+              const overdue = goal.status === GoalStatus.Active && goal.targetDate && goal.targetDate < today;
+              return (
+                <div key={goal.id} className="group p-4 rounded-xl border border-gray-100 bg-gray-50/50 space-y-2">
+                  <div className="flex items-start gap-2">
+                    <span className="mt-1.5 w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: GOAL_COLORS[i % GOAL_COLORS.length] }} />
+                    <p className="flex-1 text-sm font-medium text-gray-800">{goal.description}</p>
+                    <button onClick={() => setEditingGoal(goal)} className="p-1 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-blue-600">
+                      <Edit2 className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => handleDeleteGoal(goal)} className="p-1 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  {goal.interventions && <p className="text-xs text-gray-500 whitespace-pre-wrap">干预：{goal.interventions}</p>}
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <select
+                      value={goal.status}
+                      onChange={e => handleGoalStatus(goal, e.target.value as GoalStatus)}
+                      className={`px-2 py-0.5 rounded-full border font-medium outline-none ${GOAL_STATUS_COLORS[goal.status]}`}
+                    >
+                      {Object.values(GoalStatus).map(s => <option key={s} value={s}>{GOAL_STATUS_LABELS[s]}</option>)}
+                    </select>
+                    {goal.targetDate && (
+                      <span className={overdue ? 'text-red-600' : 'text-gray-400'}>
+                        目标日期 {goal.targetDate}{overdue && '（已过期）'}
+                      </span>
+                    )}
+                    <span className="ml-auto text-gray-500">
+                      最近进展 {rating !== undefined ? <strong className="text-gray-800">{rating}/{PROGRESS_MAX}</strong> : '未评分'}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {chartedGoals.length > 0 ? (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={series}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                  <XAxis
+                    dataKey="startAt"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    padding={{ left: 20, right: 20 }}
+                    tickFormatter={at => format(at, 'MM-dd')}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fill: '#9ca3af' }}
+                  />
+                  <YAxis domain={[0, PROGRESS_MAX]} allowDecimals={false} axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9ca3af' }} />
+                  <Tooltip
+                    labelFormatter={at => format(Number(at), 'yyyy-MM-dd')}
+                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                  />
+                  {chartedGoals.map(goal => (
+                    <Line
+                      key={goal.id}
+                      type="monotone"
+                      dataKey={goal.id}
+                      name={goal.description}
+                      stroke={GOAL_COLORS[plan.goals.indexOf(goal) % GOAL_COLORS.length]}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className="text-center text-sm text-gray-400">在日历中将咨询标记为已完成后，可为进行中的目标评分，进展曲线会显示在这里</p>
+          )}
+        </div>
+      ) : (
+        <p className="px-6 py-8 text-center text-sm text-gray-400">尚未制定治疗计划，新增目标即可开始</p>
+      )}
+
+      {editingGoal && (
+        <GoalForm
+          goal={editingGoal === 'new' ? undefined : editingGoal}
+          onCancel={() => setEditingGoal(null)}
+          onSave={handleSaveGoal}
+        />
+      )}
+    </div>
+  );
+};
+
 const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const client = state.clients.find(c => c.id === id);
 
   const [activeCategory, setActiveCategory] = useState<FileCategory>(FileCategory.SessionNote);
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
   const [isEditingFile, setIsEditingFile] = useState(false);
   const [fileContent, setFileContent] = useState('');
-  const [isEditingAdjustment, setIsEditingAdjustment] = useState(false);
-  const [tempAdjustmentValue, setTempAdjustmentValue] = useState(0);
+  const [isTemplateMenuOpen, setIsTemplateMenuOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [pendingStatus, setPendingStatus] = useState<ClientStatus | null>(null);
+  const [recoveredDraft, setRecoveredDraft] = useState<NoteDraft | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null);
   
   const clientFiles = useMemo(() => {
     return state.files.filter(f => f.clientId === id).sort((a, b) => b.updatedAt - a.updatedAt);
@@ -46,21 +1459,113 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
     return state.files.find(f => f.id === selectedFileId);
   }, [state.files, selectedFileId]);
 
+  const isDirty = isEditingFile && !!selectedFile && fileContent !== selectedFile.content;
+
+  const saveDraftNow = () => {
+    if (!selectedFile) return;
+    const draft = { id: selectedFile.id, content: fileContent, baseUpdatedAt: selectedFile.updatedAt, savedAt: Date.now() };
+    getStorage().saveDraft(draft)
+      .then(() => setDraftSavedAt(draft.savedAt))
+      .catch(e => console.error("Failed to save draft", e));
+  };
+
+  const discardDraft = (fileId: string) => {
+    getStorage().deleteDraft(fileId).catch(e => console.error("Failed to delete draft", e));
+    setDraftSavedAt(null);
+  };
+
+  // Switching notes keeps the autosaved draft, so leaving only needs a confirmation
+  const confirmLeave = () => {
+    if (!isDirty) return true;
+    if (!window.confirm('当前笔记有未保存的修改，草稿会保留以便稍后恢复。确定要离开吗？')) return false;
+    saveDraftNow();
+    return true;
+  };
+
+  const selectFile = (file: FileEntry | null) => {
+    setSelectedFileId(file?.id ?? null);
+    setFileContent(file?.content ?? '');
+    setIsEditingFile(false);
+    setIsHistoryOpen(false);
+  };
+
+  // Autosave the editor content as a draft shortly after typing stops
+  useEffect(() => {
+    if (!isEditingFile || !selectedFileId) return;
+    const timer = window.setTimeout(() => {
+      if (isDirty) saveDraftNow();
+      else if (draftSavedAt) discardDraft(selectedFileId);
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [fileContent, isEditingFile, selectedFileId]);
+
+  // Closing or hiding the tab writes the draft right away instead of waiting for the timer
+  useEffect(() => {
+    if (!isDirty) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      saveDraftNow();
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveDraftNow();
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('beforeunload', onBeforeUnload);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [isDirty, fileContent]);
+
+  // Offer a draft left behind by an earlier session (closed tab, lock, crash)
+  useEffect(() => {
+    setRecoveredDraft(null);
+    setDraftSavedAt(null);
+    if (!selectedFileId) return;
+    let cancelled = false;
+    const content = selectedFile?.content;
+    getStorage().getDraft(selectedFileId)
+      .then(draft => {
+        if (!cancelled && draft && draft.content !== content) setRecoveredDraft(draft);
+      })
+      .catch(e => console.error("Failed to read draft", e));
+    return () => { cancelled = true; };
+  }, [selectedFileId]);
+
+  // Search results link to a note with ?file=<id>, the notes queue adds &edit=1; open it once, then drop the params
+  const linkedFileId = searchParams.get('file');
+  const linkedEdit = searchParams.get('edit') === '1';
+  useEffect(() => {
+    if (!linkedFileId) return;
+    const file = state.files.find(f => f.id === linkedFileId && f.clientId === id);
+    if (file && file.id !== selectedFileId && confirmLeave()) {
+      setActiveCategory(file.category);
+      selectFile(file);
+      if (linkedEdit && file.ext === 'md') setIsEditingFile(true);
+    }
+    setSearchParams({}, { replace: true });
+  }, [linkedFileId, linkedEdit, id, state.files, setSearchParams]);
+
   if (!client) {
     return <div className="p-8 text-center">个案不存在</div>;
   }
 
   const stats = getClientStats(state, client.id);
+  const statusDays = daysInStatus(client);
 
-  const handleUpdateClient = (updates: Partial<Client>) => {
+  const handleUpdateClient = (updates: Partial<Client>, action?: string) => {
     if (typeof updateState !== 'function') return;
     updateState(prev => ({
       ...prev,
       clients: prev.clients.map(c => c.id === id ? { ...c, ...updates, updatedAt: Date.now() } : c)
-    }));
+    }), action);
   };
 
-  const handleAddFile = (category: FileCategory) => {
+  // `template` picks one from the library; null starts blank; omitted uses the default
+  const handleAddFile = (category: FileCategory, template?: NoteTemplate | null) => {
+    if (!confirmLeave()) return;
+    setIsTemplateMenuOpen(false);
     const title = category === FileCategory.SessionNote 
       ? `新咨询记录 ${format(new Date(), 'yyyy-MM-dd HH-mm')}`
       : category === FileCategory.Supervision 
@@ -73,12 +1578,12 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
       category,
       title,
       ext: 'md',
-      content: state.settings.noteTemplate || '',
+      content: template === null ? '' : generateNoteContent(state, client.id, category, { template }),
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
 
-    updateState(prev => ({ ...prev, files: [newFile, ...prev.files] }));
+    updateState(prev => ({ ...prev, files: [newFile, ...prev.files] }), `已新建“${title}”`);
     setSelectedFileId(newFile.id);
     setFileContent(newFile.content);
     setIsEditingFile(true);
@@ -86,19 +1591,59 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
 
   const handleSaveFile = () => {
     if (!selectedFileId) return;
-    updateState(prev => ({
-      ...prev,
-      files: prev.files.map(f => f.id === selectedFileId ? { ...f, content: fileContent, updatedAt: Date.now() } : f)
-    }));
+    updateState(prev => saveNoteContent(prev, selectedFileId, fileContent), `已保存“${selectedFile?.title}”`);
+    discardDraft(selectedFileId);
+    setIsEditingFile(false);
+  };
+
+  const handleCancelEdit = () => {
+    if (!selectedFile) return;
+    if (isDirty && !window.confirm('放弃未保存的修改？')) return;
+    discardDraft(selectedFile.id);
+    setFileContent(selectedFile.content);
     setIsEditingFile(false);
   };
 
+  const handleRestoreDraft = () => {
+    if (!recoveredDraft) return;
+    setFileContent(recoveredDraft.content);
+    setIsEditingFile(true);
+    setRecoveredDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    if (!recoveredDraft) return;
+    discardDraft(recoveredDraft.id);
+    setRecoveredDraft(null);
+  };
+
+  // Checklists can be ticked straight from the rendered note
+  const handleToggleTask = (line: number) => {
+    if (!selectedFileId) return;
+    updateState(prev => {
+      const file = prev.files.find(f => f.id === selectedFileId);
+      return file ? saveNoteContent(prev, file.id, toggleTask(file.content, line)) : prev;
+    }, `已更新“${selectedFile?.title}”的清单`);
+  };
+
+  const handleRestoreRevision = (revision: NoteRevision) => {
+    if (!selectedFileId) return;
+    if (!window.confirm(`将笔记恢复为 ${format(revision.createdAt, 'yyyy-MM-dd HH:mm:ss')} 的版本？当前内容会保留在历史版本中。`)) return;
+    updateState(
+      prev => saveNoteContent(prev, selectedFileId, revision.content, `恢复自 ${format(revision.createdAt, 'yyyy-MM-dd HH:mm:ss')}`),
+      `已将“${selectedFile?.title}”恢复为 ${format(revision.createdAt, 'MM-dd HH:mm')} 的版本`
+    );
+    setIsHistoryOpen(false);
+  };
+
   const handleDeleteFile = (fileId: string) => {
     if (!window.confirm('确定要删除这个文件吗？')) return;
-    updateState(prev => ({
+    const title = state.files.find(f => f.id === fileId)?.title;
+    updateState(prev => deleteNoteRevisions({
       ...prev,
       files: prev.files.filter(f => f.id !== fileId)
-    }));
+    }, fileId), `已删除“${title}”`);
+    discardDraft(fileId);
     if (selectedFileId === fileId) {
       setSelectedFileId(null);
       setIsEditingFile(false);
@@ -122,7 +1667,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
         createdAt: Date.now(),
         updatedAt: Date.now(),
       };
-      updateState(prev => ({ ...prev, files: [newFile, ...prev.files] }));
+      updateState(prev => ({ ...prev, files: [newFile, ...prev.files] }), `已上传“${file.name}”`);
     };
     reader.readAsDataURL(file);
   };
@@ -132,14 +1677,19 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
     if (newTagsStr) {
       const newTags = newTagsStr.split(/[,，\s]+/).map(t => t.trim()).filter(Boolean);
       const combinedTags = Array.from(new Set([...client.tags, ...newTags]));
-      handleUpdateClient({ tags: combinedTags });
+      handleUpdateClient({ tags: combinedTags }, `已为${client.name}添加标签：${newTags.join('、')}`);
     }
   };
 
-  const handleSaveAdjustment = () => {
+  // Totals are edited directly; what is stored is the difference from the recorded sessions
+  const handleSaveSessionTotal = (total: number) => {
     const systemCount = state.appointments.filter(a => a.clientId === client.id && a.status === AppointmentStatus.Completed).length;
-    handleUpdateClient({ manualSessionAdjustment: tempAdjustmentValue - systemCount });
-    setIsEditingAdjustment(false);
+    handleUpdateClient({ manualSessionAdjustment: Math.round(total) - systemCount }, `已将${client.name}的咨询次数修正为 ${Math.round(total)}`);
+  };
+
+  const handleSaveHourTotal = (total: number) => {
+    const adjustment = Math.round((total - stats.systemHours) * 100) / 100;
+    handleUpdateClient({ manualHourAdjustment: adjustment }, `已将${client.name}的统计时长修正为 ${formatHours(total)} 小时`);
   };
 
   return (
@@ -160,13 +1710,18 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
                 {client.status}
               </span>
             </h1>
-            <p className="text-sm text-gray-500">创建于 {format(client.createdAt, 'yyyy-MM-dd')}</p>
+            <p className="text-sm text-gray-500">
+              创建于 {format(client.createdAt, 'yyyy-MM-dd')}
+              {statusDays !== undefined && ` · 已${client.status} ${statusDays} 天`}
+              {client.intake?.gender && ` · ${GENDER_LABELS[client.intake.gender]}`}
+              {ageOf(client.intake?.birthDate) !== undefined && ` · ${ageOf(client.intake?.birthDate)} 岁`}
+            </p>
           </div>
         </div>
         <div className="flex gap-2">
           <select 
             value={client.status}
-            onChange={(e) => handleUpdateClient({ status: e.target.value as ClientStatus })}
+            onChange={(e) => setPendingStatus(e.target.value as ClientStatus)}
             className="bg-white border border-gray-200 rounded-lg text-sm px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500"
           >
             {Object.values(ClientStatus).map(s => <option key={s} value={s}>{s}</option>)}
@@ -174,6 +1729,18 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
         </div>
       </div>
 
+      {pendingStatus && (
+        <StatusChangeForm
+          client={client}
+          to={pendingStatus}
+          onCancel={() => setPendingStatus(null)}
+          onConfirm={details => {
+            updateState(prev => changeClientStatus(prev, client.id, pendingStatus, details), `已将${client.name}的状态改为 ${pendingStatus}`);
+            setPendingStatus(null);
+          }}
+        />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Basic Stats */}
         <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm space-y-4">
@@ -182,54 +1749,21 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
             个案指标
           </h3>
           <div className="grid grid-cols-2 gap-4">
-            <div className="p-3 bg-gray-50 rounded-lg group relative min-h-[80px]">
-              <p className="text-xs text-gray-500 mb-1">累计咨询</p>
-              {isEditingAdjustment ? (
-                <div className="space-y-2">
-                  <div className="flex items-center gap-1">
-                    <input 
-                      type="number"
-                      value={tempAdjustmentValue}
-                      onChange={(e) => setTempAdjustmentValue(parseInt(e.target.value) || 0)}
-                      className="w-full bg-white border border-blue-300 rounded px-1.5 py-1 text-sm font-bold focus:ring-2 focus:ring-blue-500 outline-none"
-                      autoFocus
-                    />
-                    <span className="text-xs text-gray-400">次</span>
-                  </div>
-                  <div className="flex gap-1">
-                    <button 
-                      onClick={handleSaveAdjustment}
-                      className="flex-1 bg-blue-600 text-white p-1 rounded hover:bg-blue-700 flex justify-center"
-                    >
-                      <Check className="w-3.5 h-3.5" />
-                    </button>
-                    <button 
-                      onClick={() => setIsEditingAdjustment(false)}
-                      className="flex-1 bg-gray-200 text-gray-600 p-1 rounded hover:bg-gray-300 flex justify-center"
-                    >
-                      <XIcon className="w-3.5 h-3.5" />
-                    </button>
-                  </div>
-                </div>
-              ) : (
-                <div className="flex items-center justify-between">
-                  <p className="text-xl font-bold text-gray-800">{stats.totalSessions} <span className="text-xs font-normal text-gray-400">次</span></p>
-                  <button 
-                    onClick={() => {
-                      setTempAdjustmentValue(stats.totalSessions);
-                      setIsEditingAdjustment(true);
-                    }} 
-                    className="opacity-0 group-hover:opacity-100 p-1 text-blue-500 hover:bg-blue-50 rounded transition-all"
-                  >
-                    <Edit2 className="w-3 h-3" />
-                  </button>
-                </div>
-              )}
-            </div>
-            <div className="p-3 bg-gray-50 rounded-lg min-h-[80px]">
-              <p className="text-xs text-gray-500 mb-1">统计时长</p>
-              <p className="text-xl font-bold text-gray-800">{stats.totalHours} <span className="text-xs font-normal text-gray-400">小时</span></p>
-            </div>
+            <AdjustableMetric
+              label="累计咨询"
+              value={stats.totalSessions}
+              unit="次"
+              hint={client.manualSessionAdjustment ? `含修正 ${client.manualSessionAdjustment} 次` : undefined}
+              onSave={handleSaveSessionTotal}
+            />
+            <AdjustableMetric
+              label="统计时长"
+              value={Number(formatHours(stats.totalHours))}
+              unit="小时"
+              step={0.5}
+              hint={`${HOUR_RULE_LABELS[state.settings.hourCountingRule]}${client.manualHourAdjustment ? `，含修正 ${formatHours(client.manualHourAdjustment)} 小时` : ''}`}
+              onSave={handleSaveHourTotal}
+            />
           </div>
           <div className="space-y-3 pt-2">
             <div className="flex justify-between items-center text-sm">
@@ -247,6 +1781,17 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
             </div>
           </div>
           
+          <div className="pt-4 border-t border-gray-100">
+            <label className="block text-sm font-medium text-gray-700 mb-2">状态记录</label>
+            {client.statusHistory?.length ? (
+              <div className="max-h-64 overflow-y-auto pr-1">
+                <StatusHistoryList history={client.statusHistory} />
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400">暂无记录，此后的状态变更会记录在这里</p>
+            )}
+          </div>
+
           <div className="pt-4 border-t border-gray-100">
             <label className="block text-sm font-medium text-gray-700 mb-2">标签</label>
             <div className="flex flex-wrap gap-1.5">
@@ -254,7 +1799,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
                 <span key={tag} className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full border border-blue-100 flex items-center gap-1">
                   {tag}
                   <button 
-                    onClick={() => handleUpdateClient({ tags: client.tags.filter(t => t !== tag) })}
+                    onClick={() => handleUpdateClient({ tags: client.tags.filter(t => t !== tag) }, `已移除${client.name}的标签“${tag}”`)}
                     className="hover:text-red-500 font-bold"
                   >
                     ×
@@ -282,9 +1827,9 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
               <button
                 key={cat.id}
                 onClick={() => {
+                  if (!confirmLeave()) return;
                   setActiveCategory(cat.id as FileCategory);
-                  setSelectedFileId(null);
-                  setIsEditingFile(false);
+                  selectFile(null);
                 }}
                 className={`flex-1 py-4 flex items-center justify-center gap-2 font-medium text-sm transition-all ${
                   activeCategory === cat.id 
@@ -303,13 +1848,42 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
             <div className="w-64 border-r border-gray-100 flex flex-col bg-gray-50/30 shrink-0">
               <div className="p-3">
                 {activeCategory !== FileCategory.Assessment ? (
-                  <button 
-                    onClick={() => handleAddFile(activeCategory)}
-                    className="w-full flex items-center justify-center gap-2 bg-white border border-gray-200 py-2 rounded-lg text-sm font-medium hover:border-blue-500 hover:text-blue-600 transition-all shadow-sm"
-                  >
-                    <Plus className="w-4 h-4" />
-                    新建{activeCategory === FileCategory.SessionNote ? '记录' : '笔记'}
-                  </button>
+                  <div className="relative flex">
+                    <button 
+                      onClick={() => handleAddFile(activeCategory)}
+                      className="flex-1 flex items-center justify-center gap-2 bg-white border border-gray-200 py-2 rounded-l-lg text-sm font-medium hover:border-blue-500 hover:text-blue-600 transition-all shadow-sm"
+                    >
+                      <Plus className="w-4 h-4" />
+                      新建{activeCategory === FileCategory.SessionNote ? '记录' : '笔记'}
+                    </button>
+                    <button 
+                      onClick={() => setIsTemplateMenuOpen(!isTemplateMenuOpen)}
+                      title="选择模板"
+                      className="px-2 bg-white border border-l-0 border-gray-200 rounded-r-lg text-gray-500 hover:border-blue-500 hover:text-blue-600 shadow-sm"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    {isTemplateMenuOpen && (
+                      <div className="absolute left-0 right-0 top-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 z-20 py-1">
+                        {templatesFor(state.settings.noteTemplates, activeCategory).map(t => (
+                          <button
+                            key={t.id}
+                            onClick={() => handleAddFile(activeCategory, t)}
+                            className="w-full text-left px-3 py-1.5 text-sm hover:bg-blue-50"
+                          >
+                            <span className="font-medium">{t.name}</span>
+                            {t.sessionType && <span className="ml-2 text-[10px] text-gray-400">{SESSION_TYPE_LABELS[t.sessionType]}</span>}
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => handleAddFile(activeCategory, null)}
+                          className="w-full text-left px-3 py-1.5 text-sm text-gray-500 hover:bg-blue-50 border-t border-gray-100"
+                        >
+                          空白笔记
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 ) : (
                   <label className="w-full flex items-center justify-center gap-2 bg-white border border-gray-200 py-2 rounded-lg text-sm font-medium hover:border-blue-500 hover:text-blue-600 transition-all cursor-pointer shadow-sm">
                     <Upload className="w-4 h-4" />
@@ -325,9 +1899,8 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
                     <div 
                       key={file.id}
                       onClick={() => {
-                        setSelectedFileId(file.id);
-                        setFileContent(file.content);
-                        setIsEditingFile(false);
+                        if (file.id === selectedFileId || !confirmLeave()) return;
+                        selectFile(file);
                       }}
                       className={`group p-2 rounded-lg cursor-pointer flex items-center justify-between text-sm transition-all ${
                         selectedFileId === file.id ? 'bg-blue-600 text-white shadow-md' : 'hover:bg-gray-100'
@@ -360,26 +1933,81 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
               {selectedFile ? (
                 <div className="h-full flex flex-col">
                   <div className="px-6 py-3 border-b border-gray-100 flex items-center justify-between shrink-0">
-                    <h4 className="font-bold text-gray-800 truncate pr-4">{selectedFile.title}</h4>
-                    <div className="flex gap-2">
+                    <div className="min-w-0 pr-4">
+                      <h4 className="font-bold text-gray-800 truncate flex items-center gap-2">
+                        {selectedFile.title}
+                        {selectedFile.finalizedAt && (
+                          <span
+                            className="shrink-0 text-[10px] px-1.5 py-0.5 rounded-full border bg-green-50 text-green-700 border-green-200 font-medium"
+                            title={`定稿于 ${format(selectedFile.finalizedAt, 'yyyy-MM-dd HH:mm')}`}
+                          >
+                            已定稿
+                          </span>
+                        )}
+                      </h4>
+                      {isEditingFile && (
+                        <p className="text-[10px] text-gray-400">
+                          {isDirty
+                            ? (draftSavedAt ? `有未保存的修改 · 草稿已于 ${format(draftSavedAt, 'HH:mm:ss')} 自动保存` : '有未保存的修改')
+                            : '无修改'}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
                       {selectedFile.category !== FileCategory.Assessment && (
                         <>
                           {isEditingFile ? (
-                            <button 
-                              onClick={handleSaveFile}
-                              className="flex items-center gap-1.5 bg-green-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-green-700"
-                            >
-                              <Save className="w-4 h-4" />
-                              保存
-                            </button>
+                            <>
+                              <button 
+                                onClick={handleCancelEdit}
+                                className="flex items-center gap-1.5 bg-gray-100 text-gray-700 px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-gray-200"
+                              >
+                                <XIcon className="w-4 h-4" />
+                                取消
+                              </button>
+                              <button 
+                                onClick={handleSaveFile}
+                                className="flex items-center gap-1.5 bg-green-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-green-700"
+                              >
+                                <Save className="w-4 h-4" />
+                                保存
+                              </button>
+                            </>
                           ) : (
-                            <button 
-                              onClick={() => setIsEditingFile(true)}
-                              className="flex items-center gap-1.5 bg-blue-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-blue-700"
-                            >
-                              <Edit2 className="w-4 h-4" />
-                              编辑
-                            </button>
+                            <>
+                              <button 
+                                onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium ${
+                                  isHistoryOpen ? 'bg-gray-200 text-gray-800' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                }`}
+                              >
+                                <History className="w-4 h-4" />
+                                历史
+                              </button>
+                              {selectedFile.category === FileCategory.SessionNote && (
+                                <button
+                                  onClick={() => updateState(
+                                    prev => setNoteFinalized(prev, selectedFile.id, selectedFile.finalizedAt ? undefined : Date.now()),
+                                    selectedFile.finalizedAt ? `已将“${selectedFile.title}”改回草稿` : `已将“${selectedFile.title}”标记为定稿`
+                                  )}
+                                  className="flex items-center gap-1.5 bg-gray-100 text-gray-700 px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-gray-200"
+                                >
+                                  <FileCheck className="w-4 h-4" />
+                                  {selectedFile.finalizedAt ? '取消定稿' : '定稿'}
+                                </button>
+                              )}
+                              <button 
+                                onClick={() => {
+                                  setFileContent(selectedFile.content);
+                                  setIsEditingFile(true);
+                                  setIsHistoryOpen(false);
+                                }}
+                                className="flex items-center gap-1.5 bg-blue-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-blue-700"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                                编辑
+                              </button>
+                            </>
                           )}
                         </>
                       )}
@@ -395,6 +2023,17 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
                       )}
                     </div>
                   </div>
+                  {recoveredDraft && (
+                    <div className="flex items-center gap-3 px-6 py-2 bg-amber-50 border-b border-amber-100 text-sm text-amber-800 shrink-0">
+                      <History className="w-4 h-4 shrink-0" />
+                      <span className="flex-1">
+                        发现 {format(recoveredDraft.savedAt, 'yyyy-MM-dd HH:mm')} 未保存的草稿
+                        {recoveredDraft.baseUpdatedAt < selectedFile.updatedAt && '（此后笔记已被修改，恢复将覆盖较新的内容）'}
+                      </span>
+                      <button onClick={handleRestoreDraft} className="font-semibold hover:underline">恢复草稿</button>
+                      <button onClick={handleDiscardDraft} className="text-amber-600 hover:underline">丢弃</button>
+                    </div>
+                  )}
                   <div className="flex-1 overflow-auto p-6">
                     {selectedFile.category === FileCategory.Assessment ? (
                       <div className="h-full flex flex-col items-center justify-center space-y-4 text-gray-400">
@@ -403,17 +2042,20 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
                         <p className="text-xs">类型: {selectedFile.ext} | 大小估算: {Math.round(selectedFile.content.length * 0.75 / 1024)} KB</p>
                       </div>
                     ) : (
-                      isEditingFile ? (
-                        <textarea 
-                          value={fileContent}
-                          onChange={(e) => setFileContent(e.target.value)}
-                          className="w-full h-full p-4 border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm resize-none"
-                          placeholder="开始记录你的内容..."
+                      isHistoryOpen ? (
+                        <RevisionHistory
+                          key={selectedFile.id}
+                          file={selectedFile}
+                          revisions={revisionsOf(state, selectedFile.id)}
+                          onRestore={handleRestoreRevision}
+                          onClose={() => setIsHistoryOpen(false)}
                         />
+                      ) : isEditingFile ? (
+                        <NoteEditor value={fileContent} onChange={setFileContent} onSave={handleSaveFile} />
                       ) : (
-                        <div className="prose prose-blue max-w-none whitespace-pre-wrap text-gray-700 leading-relaxed text-sm">
-                          {selectedFile.content || <span className="text-gray-300 italic">空文件内容</span>}
-                        </div>
+                        selectedFile.content.trim()
+                          ? <MarkdownView source={selectedFile.content} onToggleTask={handleToggleTask} />
+                          : <span className="text-sm text-gray-300 italic">空文件内容</span>
                       )
                     )}
                   </div>
@@ -428,6 +2070,19 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ state, updateState }) => {
           </div>
         </div>
       </div>
+
+      <IntakePanel
+        key={client.id}
+        client={client}
+        customFields={state.settings.customFields}
+        onSave={updates => handleUpdateClient(updates, `已更新${client.name}的基本资料`)}
+      />
+
+      <TreatmentPlanPanel key={`plan-${client.id}`} state={state} client={client} updateState={updateState} />
+
+      <AssessmentPanel state={state} client={client} updateState={updateState} />
+
+      <BillingPanel state={state} client={client} updateState={updateState} />
     </div>
   );
 };
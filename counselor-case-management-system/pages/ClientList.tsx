@@ -1,32 +1,43 @@
 
 import React, { useState, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Plus, Search, Filter, MoreVertical, Calendar, Clock, Tag as TagIcon, X } from 'lucide-react';
-import { AppState, Client, ClientStatus } from '../types';
+import { Plus, Search, Filter, MoreVertical, Calendar, Clock, Tag as TagIcon, X, Download } from 'lucide-react';
+import { AppState, Client, ClientStatus, CustomFieldType } from '../types';
 import { uuid, getClientStats } from '../store';
 import { STATUS_COLORS } from '../constants';
+import { clientBalance, formatMoney } from '../billing';
+import { FieldFilter, clientFields, clientsCsv, isFilterActive, matchesFieldFilter } from '../intake';
+import { downloadCsv } from '../csv';
+import { RISK_LEVEL_COLORS, RISK_LEVEL_LABELS, currentRisks, isElevatedRisk } from '../risk';
 import { format } from 'date-fns';
 
 interface ClientListProps {
   state: AppState;
-  updateState: (updater: (prev: AppState) => AppState) => void;
+  updateState: (updater: (prev: AppState) => AppState, action?: string) => void;
 }
 
 const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
   const navigate = useNavigate();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [fieldFilter, setFieldFilter] = useState<FieldFilter>({ key: '', text: '', from: '', to: '' });
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [newClient, setNewClient] = useState({ name: '', status: ClientStatus.Potential, tags: '' });
+  const [newClient, setNewClient] = useState({ name: '', status: ClientStatus.Potential, tags: '', defaultFee: 0 });
+
+  const fields = useMemo(() => clientFields(state.settings.customFields), [state.settings.customFields]);
+  const filterField = fields.find(f => f.key === fieldFilter.key);
 
   const filteredClients = useMemo(() => {
     return state.clients.filter(client => {
       const matchesSearch = client.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
                           client.tags.some(t => t.toLowerCase().includes(searchTerm.toLowerCase()));
       const matchesStatus = statusFilter === 'all' || client.status === statusFilter;
-      return matchesSearch && matchesStatus;
+      const matchesField = !filterField || !isFilterActive(fieldFilter) || matchesFieldFilter(filterField, client, fieldFilter);
+      return matchesSearch && matchesStatus && matchesField;
     });
-  }, [state.clients, searchTerm, statusFilter]);
+  }, [state.clients, searchTerm, statusFilter, filterField, fieldFilter]);
+
+  const risks = useMemo(() => currentRisks(state), [state.appointments]);
 
   const handleAddClient = (e: React.FormEvent) => {
     e.preventDefault();
@@ -42,8 +53,13 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
       id: uuid(),
       name: newClient.name,
       status: newClient.status,
+      statusHistory: [{ to: newClient.status, at: Date.now() }],
       tags: tags,
+      intake: { firstContactDate: format(new Date(), 'yyyy-MM-dd') },
+      customFields: {},
       manualSessionAdjustment: 0,
+      manualHourAdjustment: 0,
+      defaultFee: Math.max(0, newClient.defaultFee),
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
@@ -51,9 +67,9 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
     updateState(prev => ({
       ...prev,
       clients: [client, ...prev.clients]
-    }));
+    }), `已新建个案“${client.name}”`);
     setIsModalOpen(false);
-    setNewClient({ name: '', status: ClientStatus.Potential, tags: '' });
+    setNewClient({ name: '', status: ClientStatus.Potential, tags: '', defaultFee: 0 });
   };
 
   return (
@@ -63,13 +79,24 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
           <h1 className="text-2xl font-bold">个案管理</h1>
           <p className="text-gray-500">共 {state.clients.length} 位个案资料</p>
         </div>
-        <button 
-          onClick={() => setIsModalOpen(true)}
-          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 shadow-sm transition-all"
-        >
-          <Plus className="w-5 h-5" />
-          <span>新建个案</span>
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => downloadCsv(clientsCsv(state, filteredClients), `clients_${format(new Date(), 'yyyy-MM-dd')}.csv`)}
+            disabled={filteredClients.length === 0}
+            title="导出当前列表中的个案及其基本资料"
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white rounded-lg hover:bg-gray-50 text-sm font-medium disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            导出 CSV
+          </button>
+          <button 
+            onClick={() => setIsModalOpen(true)}
+            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 shadow-sm transition-all"
+          >
+            <Plus className="w-5 h-5" />
+            <span>新建个案</span>
+          </button>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
@@ -84,7 +111,7 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
               className="w-full pl-10 pr-4 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
             <select 
               className="bg-white border border-gray-200 rounded-lg text-sm px-3 py-2"
               value={statusFilter}
@@ -93,6 +120,50 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
               <option value="all">所有状态</option>
               {Object.values(ClientStatus).map(s => <option key={s} value={s}>{s}</option>)}
             </select>
+            <div className="flex items-center gap-1">
+              <Filter className="w-4 h-4 text-gray-400" />
+              <select
+                className="bg-white border border-gray-200 rounded-lg text-sm px-3 py-2"
+                value={fieldFilter.key}
+                onChange={(e) => setFieldFilter({ key: e.target.value, text: '', from: '', to: '' })}
+              >
+                <option value="">按资料筛选</option>
+                {fields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+              </select>
+            </div>
+            {filterField && (filterField.type === CustomFieldType.Select ? (
+              <select
+                className="bg-white border border-gray-200 rounded-lg text-sm px-3 py-2"
+                value={fieldFilter.text}
+                onChange={(e) => setFieldFilter({ ...fieldFilter, text: e.target.value })}
+              >
+                <option value="">全部</option>
+                {filterField.options.map(o => <option key={o} value={o}>{o}</option>)}
+              </select>
+            ) : filterField.type === CustomFieldType.Text ? (
+              <input
+                type="text"
+                placeholder="包含…"
+                value={fieldFilter.text}
+                onChange={(e) => setFieldFilter({ ...fieldFilter, text: e.target.value })}
+                className="w-32 bg-white border border-gray-200 rounded-lg text-sm px-3 py-2"
+              />
+            ) : (
+              <div className="flex items-center gap-1">
+                {(['from', 'to'] as const).map((bound, i) => (
+                  <React.Fragment key={bound}>
+                    {i === 1 && <span className="text-gray-400 text-sm">至</span>}
+                    <input
+                      type={filterField.type === CustomFieldType.Date ? 'date' : 'number'}
+                      placeholder={i === 0 ? '最小' : '最大'}
+                      value={fieldFilter[bound]}
+                      onChange={(e) => setFieldFilter({ ...fieldFilter, [bound]: e.target.value })}
+                      className={`${filterField.type === CustomFieldType.Date ? 'w-36' : 'w-20'} bg-white border border-gray-200 rounded-lg text-sm px-2 py-2`}
+                    />
+                  </React.Fragment>
+                ))}
+              </div>
+            ))}
           </div>
         </div>
 
@@ -105,12 +176,15 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
                 <th className="px-6 py-4">咨询次数</th>
                 <th className="px-6 py-4">最近一次</th>
                 <th className="px-6 py-4">下次预约</th>
+                <th className="px-6 py-4">未付费用</th>
                 <th className="px-6 py-4">操作</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
               {filteredClients.map(client => {
                 const stats = getClientStats(state, client.id);
+                const risk = risks.get(client.id)?.assessment;
+                const balance = clientBalance(state, client.id);
                 return (
                   <tr key={client.id} className="hover:bg-gray-50 transition-colors group">
                     <td className="px-6 py-4">
@@ -128,9 +202,19 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
                       </div>
                     </td>
                     <td className="px-6 py-4">
-                      <span className={`px-2.5 py-1 rounded-full text-xs font-medium border ${STATUS_COLORS[client.status]}`}>
-                        {client.status}
-                      </span>
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span className={`px-2.5 py-1 rounded-full text-xs font-medium border ${STATUS_COLORS[client.status]}`}>
+                          {client.status}
+                        </span>
+                        {risk && isElevatedRisk(risk.level) && (
+                          <span
+                            className={`px-2.5 py-1 rounded-full text-xs font-medium border ${RISK_LEVEL_COLORS[risk.level]}`}
+                            title={risk.factors.join('、') || undefined}
+                          >
+                            {RISK_LEVEL_LABELS[risk.level]}
+                          </span>
+                        )}
+                      </div>
                     </td>
                     <td className="px-6 py-4 font-medium text-gray-700">
                       {stats.totalSessions} 次
@@ -152,6 +236,15 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
                         </button>
                       )}
                     </td>
+                    <td className="px-6 py-4 text-sm">
+                      {balance.outstanding > 0 ? (
+                        <Link to={`/clients/${client.id}`} className="font-medium text-amber-600 hover:underline" title={`${balance.unpaidSessions} 次咨询未付`}>
+                          {formatMoney(balance.outstanding)}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-3">
                         <Link to={`/clients/${client.id}`} className="p-1.5 hover:bg-gray-200 rounded-lg text-gray-400 hover:text-gray-600 transition-colors">
@@ -164,7 +257,7 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
               })}
               {filteredClients.length === 0 && (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
                     未找到匹配的个案
                   </td>
                 </tr>
@@ -216,6 +309,17 @@ const ClientList: React.FC<ClientListProps> = ({ state, updateState }) => {
                   placeholder="标签，多个用逗号分隔（中英文皆可）"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">每次咨询费用（元）</label>
+                <input 
+                  type="number" 
+                  min={0}
+                  value={newClient.defaultFee}
+                  onChange={e => setNewClient({ ...newClient, defaultFee: Number(e.target.value) || 0 })}
+                  className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <p className="text-xs text-gray-400 mt-1">0 表示不收费，单次预约可另行调整。</p>
+              </div>
               <div className="pt-4 flex gap-3">
                 <button 
                   type="button" 
@@ -0,0 +1,364 @@
+import React, { useMemo, useState } from 'react';
+import { AppState, IcsPrivacy, SupervisionFormat, SupervisionSession } from '../types';
+import { uuid } from '../store';
+import { formatHours } from '../hours';
+import { printDocument } from '../print';
+import { downloadCsv } from '../csv';
+import {
+  LOG_CATEGORY_LABELS,
+  LOG_PERIOD_LABELS,
+  LOG_PRIVACY_LABELS,
+  LogPeriod,
+  SUPERVISION_FORMAT_LABELS,
+  grandTotals,
+  hoursLogCsv,
+  hoursLogEntries,
+  hoursLogHtml,
+  totalsByPeriod,
+} from '../hoursLog';
+import { format, startOfYear, endOfDay, startOfDay } from 'date-fns';
+import { Plus, X, Edit2, Trash2, Download, Printer, GraduationCap } from 'lucide-react';
+
+interface HoursLogViewProps {
+  state: AppState;
+  updateState: (updater: (prev: AppState) => AppState, action?: string) => void;
+}
+
+interface SupervisionForm {
+  date: string;
+  time: string;
+  durationMin: number;
+  supervisor: string;
+  format: SupervisionFormat;
+  clientIds: string[];
+  notes: string;
+}
+
+const emptyForm = (last?: SupervisionSession): SupervisionForm => ({
+  date: format(new Date(), 'yyyy-MM-dd'),
+  time: '10:00',
+  durationMin: last?.durationMin ?? 60,
+  supervisor: last?.supervisor ?? '',
+  format: last?.format ?? SupervisionFormat.Individual,
+  clientIds: [],
+  notes: '',
+});
+
+const formFromSession = (s: SupervisionSession): SupervisionForm => ({
+  date: format(s.startAt, 'yyyy-MM-dd'),
+  time: format(s.startAt, 'HH:mm'),
+  durationMin: s.durationMin,
+  supervisor: s.supervisor,
+  format: s.format,
+  clientIds: s.clientIds,
+  notes: s.notes || '',
+});
+
+const inputClass = 'w-full px-4 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none';
+
+const SummaryCard: React.FC<{ label: string; hours: number; hint?: string }> = ({ label, hours, hint }) => (
+  <div className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm">
+    <p className="text-sm text-gray-500 mb-1">{label}</p>
+    <p className="text-3xl font-bold text-gray-900">{formatHours(hours)}<span className="text-base font-medium text-gray-400 ml-1">小时</span></p>
+    {hint && <p className="text-xs text-gray-400 mt-1">{hint}</p>}
+  </div>
+);
+
+const HoursLogView: React.FC<HoursLogViewProps> = ({ state, updateState }) => {
+  const [from, setFrom] = useState(() => format(startOfYear(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [period, setPeriod] = useState<LogPeriod>('month');
+  const [privacy, setPrivacy] = useState<IcsPrivacy>(state.settings.icsPrivacy);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SupervisionForm | null>(null);
+
+  const range = useMemo(() => ({
+    from: startOfDay(new Date(`${from}T00:00:00`)).getTime(),
+    to: endOfDay(new Date(`${to}T00:00:00`)).getTime(),
+  }), [from, to]);
+
+  const entries = useMemo(
+    () => hoursLogEntries(state, range.from, range.to),
+    [state.appointments, state.supervisionSessions, state.settings, range]
+  );
+  const periods = useMemo(() => totalsByPeriod(entries, period), [entries, period]);
+  const totals = useMemo(() => grandTotals(entries), [entries]);
+
+  const supervisionInRange = state.supervisionSessions
+    .filter(s => s.startAt >= range.from && s.startAt <= range.to)
+    .sort((a, b) => b.startAt - a.startAt);
+
+  const supervisors = Array.from(new Set(state.supervisionSessions.map(s => s.supervisor).filter(Boolean)));
+  const clientName = (id: string) => state.clients.find(c => c.id === id)?.name || '已删除个案';
+
+  const openNew = () => {
+    const last = [...state.supervisionSessions].sort((a, b) => b.startAt - a.startAt)[0];
+    setEditingId(null);
+    setForm(emptyForm(last));
+  };
+
+  const openEdit = (session: SupervisionSession) => {
+    setEditingId(session.id);
+    setForm(formFromSession(session));
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const toggleClient = (id: string) => {
+    if (!form) return;
+    setForm({ ...form, clientIds: form.clientIds.includes(id) ? form.clientIds.filter(c => c !== id) : [...form.clientIds, id] });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form || !form.supervisor.trim() || form.durationMin <= 0) return;
+    const now = Date.now();
+    const fields = {
+      startAt: new Date(`${form.date}T${form.time}`).getTime(),
+      durationMin: form.durationMin,
+      supervisor: form.supervisor.trim(),
+      format: form.format,
+      clientIds: form.clientIds,
+      notes: form.notes.trim() || undefined,
+    };
+    const label = `${form.date} 的${SUPERVISION_FORMAT_LABELS[form.format]}（${form.supervisor.trim()}）`;
+
+    if (editingId) {
+      updateState(prev => ({
+        ...prev,
+        supervisionSessions: prev.supervisionSessions.map(s => s.id === editingId ? { ...s, ...fields, updatedAt: now } : s),
+      }), `已更新${label}`);
+    } else {
+      const session: SupervisionSession = { id: uuid(), ...fields, createdAt: now, updatedAt: now };
+      updateState(prev => ({
+        ...prev,
+        supervisionSessions: [...prev.supervisionSessions, session],
+      }), `已记录${label}`);
+    }
+    closeForm();
+  };
+
+  const handleDelete = (session: SupervisionSession) => {
+    if (!confirm('确定删除这条督导记录吗？')) return;
+    updateState(prev => ({
+      ...prev,
+      supervisionSessions: prev.supervisionSessions.filter(s => s.id !== session.id),
+    }), `已删除 ${format(session.startAt, 'yyyy-MM-dd')} 的督导记录`);
+  };
+
+  const handleExportCsv = () => {
+    downloadCsv(hoursLogCsv(state, entries, privacy), `hours_log_${from}_${to}.csv`);
+  };
+
+  const handlePrint = () => {
+    const body = hoursLogHtml(state, entries, { period, privacy, ...range });
+    if (!printDocument('咨询与督导时数记录', body)) {
+      alert('无法打开打印窗口，请允许本页面弹出窗口后重试。');
+    }
+  };
+
+  const supervisionTotal = totals[SupervisionFormat.Individual] + totals[SupervisionFormat.Group];
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">时数记录</h1>
+          <p className="text-gray-500">直接咨询与督导时数，可导出供督导签字</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleExportCsv} className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white rounded-lg hover:bg-gray-50 text-sm font-medium">
+            <Download className="w-4 h-4" />
+            导出 CSV
+          </button>
+          <button onClick={handlePrint} className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white rounded-lg hover:bg-gray-50 text-sm font-medium">
+            <Printer className="w-4 h-4" />
+            打印报告
+          </button>
+          <button onClick={openNew} className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 shadow-sm transition-all">
+            <Plus className="w-5 h-5" />
+            <span>记录督导</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">开始日期</label>
+          <input type="date" value={from} max={to} onChange={e => e.target.value && setFrom(e.target.value)} className="border border-gray-200 rounded-lg text-sm px-3 py-2" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">结束日期</label>
+          <input type="date" value={to} min={from} onChange={e => e.target.value && setTo(e.target.value)} className="border border-gray-200 rounded-lg text-sm px-3 py-2" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">汇总方式</label>
+          <select value={period} onChange={e => setPeriod(e.target.value as LogPeriod)} className="bg-white border border-gray-200 rounded-lg text-sm px-3 py-2">
+            {(Object.keys(LOG_PERIOD_LABELS) as LogPeriod[]).map(p => <option key={p} value={p}>{LOG_PERIOD_LABELS[p]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">导出时个案显示为</label>
+          <select value={privacy} onChange={e => setPrivacy(e.target.value as IcsPrivacy)} className="bg-white border border-gray-200 rounded-lg text-sm px-3 py-2">
+            {Object.values(IcsPrivacy).map(p => <option key={p} value={p}>{LOG_PRIVACY_LABELS[p]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <SummaryCard label={LOG_CATEGORY_LABELS.direct} hours={totals.direct} hint={`${totals.directSessions} 次已完成咨询`} />
+        <SummaryCard label={LOG_CATEGORY_LABELS[SupervisionFormat.Individual]} hours={totals[SupervisionFormat.Individual]} />
+        <SummaryCard label={LOG_CATEGORY_LABELS[SupervisionFormat.Group]} hours={totals[SupervisionFormat.Group]} />
+        <SummaryCard label="督导合计" hours={supervisionTotal} />
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-gray-50/50">
+          <h3 className="font-bold">分期汇总</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="bg-gray-50 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                <th className="px-6 py-3">期间</th>
+                <th className="px-6 py-3 text-right">直接咨询（小时）</th>
+                <th className="px-6 py-3 text-right">咨询次数</th>
+                <th className="px-6 py-3 text-right">个体督导（小时）</th>
+                <th className="px-6 py-3 text-right">团体督导（小时）</th>
+                <th className="px-6 py-3 text-right">督导合计（小时）</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {[...periods, totals].map(row => (
+                <tr key={row.key} className={row.key === 'total' ? 'bg-gray-50 font-semibold' : ''}>
+                  <td className="px-6 py-3">{row.label}</td>
+                  <td className="px-6 py-3 text-right">{formatHours(row.direct)}</td>
+                  <td className="px-6 py-3 text-right">{row.directSessions}</td>
+                  <td className="px-6 py-3 text-right">{formatHours(row[SupervisionFormat.Individual])}</td>
+                  <td className="px-6 py-3 text-right">{formatHours(row[SupervisionFormat.Group])}</td>
+                  <td className="px-6 py-3 text-right">{formatHours(row[SupervisionFormat.Individual] + row[SupervisionFormat.Group])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-gray-50/50">
+          <h3 className="font-bold flex items-center gap-2">
+            <GraduationCap className="w-5 h-5 text-blue-600" />
+            督导记录
+          </h3>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {supervisionInRange.map(session => (
+            <div key={session.id} className="p-4 flex items-start justify-between gap-4 hover:bg-gray-50 group">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">
+                  {format(session.startAt, 'yyyy-MM-dd HH:mm')} · {SUPERVISION_FORMAT_LABELS[session.format]} · {session.durationMin} 分钟
+                </p>
+                <p className="text-sm text-gray-500">督导师：{session.supervisor}</p>
+                {session.clientIds.length > 0 && (
+                  <p className="text-sm text-gray-500">讨论个案：{session.clientIds.map(clientName).join('、')}</p>
+                )}
+                {session.notes && <p className="text-sm text-gray-400 mt-1 whitespace-pre-wrap">{session.notes}</p>}
+              </div>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => openEdit(session)} className="p-1.5 hover:bg-gray-200 rounded-lg text-gray-400 hover:text-gray-600" title="编辑">
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(session)} className="p-1.5 hover:bg-red-50 rounded-lg text-gray-400 hover:text-red-600" title="删除">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          {supervisionInRange.length === 0 && (
+            <p className="p-12 text-center text-gray-500">该期间没有督导记录</p>
+          )}
+        </div>
+      </div>
+
+      {form && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-xl font-bold">{editingId ? '编辑督导记录' : '记录督导'}</h3>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-full">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSave} className="p-6 space-y-4 overflow-y-auto">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">日期</label>
+                  <input type="date" required value={form.date} onChange={e => setForm({ ...form, date: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">开始时间</label>
+                  <input type="time" required value={form.time} onChange={e => setForm({ ...form, time: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">时长（分钟）</label>
+                  <input type="number" required min={1} step={5} value={form.durationMin} onChange={e => setForm({ ...form, durationMin: Number(e.target.value) })} className={inputClass} />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">督导师 *</label>
+                <input type="text" required list="supervisor-options" value={form.supervisor} onChange={e => setForm({ ...form, supervisor: e.target.value })} className={inputClass} />
+                <datalist id="supervisor-options">
+                  {supervisors.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">形式</label>
+                <div className="flex gap-2">
+                  {Object.values(SupervisionFormat).map(f => (
+                    <button
+                      key={f}
+                      type="button"
+                      onClick={() => setForm({ ...form, format: f })}
+                      className={`flex-1 px-4 py-2 rounded-lg border text-sm font-medium ${form.format === f ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                    >
+                      {SUPERVISION_FORMAT_LABELS[f]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">讨论的个案</label>
+                <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {state.clients.map(client => (
+                    <label key={client.id} className="flex items-center gap-2 px-3 py-2 text-sm hover:bg-gray-50 cursor-pointer">
+                      <input type="checkbox" checked={form.clientIds.includes(client.id)} onChange={() => toggleClient(client.id)} />
+                      {client.name}
+                    </label>
+                  ))}
+                  {state.clients.length === 0 && <p className="px-3 py-2 text-sm text-gray-400">暂无个案</p>}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">备注</label>
+                <textarea rows={3} value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} className={inputClass} placeholder="督导要点、后续行动等" />
+              </div>
+              <div className="pt-4 flex gap-3">
+                <button type="button" onClick={closeForm} className="flex-1 px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 font-medium">
+                  取消
+                </button>
+                <button type="submit" className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium">
+                  保存
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HoursLogView;
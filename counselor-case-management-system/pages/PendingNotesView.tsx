@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { AppState } from '../types';
+import { PendingNote, createSessionNote, outstandingFor, pendingNotes, setNoteFinalized } from '../pendingNotes';
+import { differenceInDays, format } from 'date-fns';
+import { Edit2, FileCheck, FileClock, FilePlus } from 'lucide-react';
+
+interface PendingNotesViewProps {
+  state: AppState;
+  updateState: (updater: (prev: AppState) => AppState, action?: string) => void;
+}
+
+// Outstanding for this many days turns amber, then red
+const WARN_DAYS = 2;
+const OVERDUE_DAYS = 7;
+
+const ageColor = (since: number) => {
+  const days = differenceInDays(Date.now(), since);
+  return days >= OVERDUE_DAYS ? 'text-red-600' : days >= WARN_DAYS ? 'text-amber-600' : 'text-gray-500';
+};
+
+const PendingNotesView: React.FC<PendingNotesViewProps> = ({ state, updateState }) => {
+  const navigate = useNavigate();
+  const pending = useMemo(() => pendingNotes(state), [state]);
+  const since = state.settings.notesQueueSince;
+  const editPath = (clientId: string, fileId: string) => `/clients/${clientId}?file=${fileId}&edit=1`;
+
+  const handleWrite = ({ appointment, client }: PendingNote) => {
+    const note = createSessionNote(state, appointment);
+    updateState(
+      prev => ({ ...prev, files: [note, ...prev.files] }),
+      `已为${client?.name || '个案'} ${format(appointment.startAt, 'MM-dd HH:mm')} 的咨询新建记录`
+    );
+    navigate(editPath(appointment.clientId, note.id));
+  };
+
+  // Cleared = every completed session counts
+  const handleSinceChange = (value: string) => {
+    const next = value ? new Date(`${value}T00:00:00`).getTime() : 0;
+    updateState(
+      prev => ({ ...prev, settings: { ...prev.settings, notesQueueSince: next } }),
+      value ? `待完成记录改为统计 ${value} 起的咨询` : '待完成记录改为统计全部咨询'
+    );
+  };
+
+  const handleFinalize = ({ note }: PendingNote) => {
+    if (!note) return;
+    updateState(prev => setNoteFinalized(prev, note.id, Date.now()), `已将“${note.title}”标记为定稿`);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">待完成记录</h1>
+          <p className="text-gray-500">已完成但尚未撰写记录的咨询，按等待时间排列</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-500 shrink-0">
+          统计起始日期
+          <input
+            type="date"
+            value={since ? format(since, 'yyyy-MM-dd') : ''}
+            onChange={e => handleSinceChange(e.target.value)}
+            className="bg-white border border-gray-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500"
+            title="更早结束的咨询不计入待完成记录；清空则统计全部"
+          />
+        </label>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-gray-50/50 flex items-center justify-between">
+          <h3 className="font-bold flex items-center gap-2">
+            <FileClock className="w-5 h-5 text-amber-500" />
+            待完成
+          </h3>
+          <span className="text-sm text-gray-400">{pending.length} 份</span>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {pending.map(item => (
+            <div key={item.appointment.id} className="p-4 flex flex-wrap items-center gap-4">
+              <div className="flex-1 min-w-[200px] space-y-1">
+                <div className="flex items-center gap-2">
+                  <Link to={`/clients/${item.appointment.clientId}`} className="font-semibold text-blue-600 hover:underline">
+                    {item.client?.name || '未知个案'}
+                  </Link>
+                  <span className="text-sm text-gray-500">{format(item.appointment.startAt, 'yyyy-MM-dd HH:mm')}</span>
+                </div>
+                <p className="text-xs text-gray-400">
+                  {item.note ? '记录仍为模板内容' : '尚未创建记录'}
+                  <span className={`ml-2 font-medium ${ageColor(item.since)}`}>已等待 {outstandingFor(item.since)}</span>
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {item.note ? (
+                  <>
+                    <button
+                      onClick={() => handleFinalize(item)}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-sm border border-gray-200 rounded-lg hover:bg-gray-50 font-medium"
+                      title="内容无需补充时，直接确认为最终版本"
+                    >
+                      <FileCheck className="w-4 h-4" />
+                      定稿
+                    </button>
+                    <button
+                      onClick={() => navigate(editPath(item.appointment.clientId, item.note!.id))}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                      编辑
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => handleWrite(item)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                  >
+                    <FilePlus className="w-4 h-4" />
+                    撰写
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          {pending.length === 0 && <p className="p-12 text-center text-sm text-gray-400">所有咨询记录都已完成</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PendingNotesView;
@@ -0,0 +1,147 @@
+
+import React, { useMemo, useDeferredValue } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Search, Users, FileText, Calendar } from 'lucide-react';
+import { AppState, Appointment, Client, FileEntry } from '../types';
+import { HighlightPart, SearchHit, searchState } from '../search';
+import { APPOINTMENT_COLORS, STATUS_COLORS } from '../constants';
+import { format } from 'date-fns';
+
+interface SearchViewProps {
+  state: AppState;
+}
+
+export const HighlightedText: React.FC<{ parts: HighlightPart[]; className?: string }> = ({ parts, className }) => (
+  <span className={className}>
+    {parts.map((part, i) => part.hit
+      ? <mark key={i} className="bg-yellow-100 text-inherit rounded px-0.5">{part.text}</mark>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>
+    )}
+  </span>
+);
+
+// Where each kind of result opens; the calendar and client pages read these query params
+export const clientPath = (client: Client) => `/clients/${client.id}`;
+export const notePath = (file: FileEntry) => `/clients/${file.clientId}?file=${file.id}`;
+export const appointmentPath = (appt: Appointment) =>
+  `/?date=${format(appt.startAt, 'yyyy-MM-dd')}&appt=${encodeURIComponent(appt.id)}`;
+
+const ResultGroup = <T,>({ title, icon, hits, render }: {
+  title: string;
+  icon: React.ReactNode;
+  hits: SearchHit<T>[];
+  render: (hit: SearchHit<T>) => React.ReactNode;
+}) => (
+  <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+    <div className="px-6 py-3 border-b border-gray-100 bg-gray-50/50 flex items-center gap-2 text-sm font-semibold text-gray-600">
+      {icon}
+      <span>{title}</span>
+      <span className="text-gray-400 font-normal">{hits.length}</span>
+    </div>
+    {hits.length > 0 ? (
+      <div className="divide-y divide-gray-100">{hits.map(render)}</div>
+    ) : (
+      <p className="px-6 py-4 text-sm text-gray-400">无匹配结果</p>
+    )}
+  </div>
+);
+
+const SearchView: React.FC<SearchViewProps> = ({ state }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const deferredQuery = useDeferredValue(query);
+  const results = useMemo(() => searchState(state, deferredQuery), [state, deferredQuery]);
+  const clientName = (clientId: string) => state.clients.find(c => c.id === clientId)?.name || '未知个案';
+  const total = results.clients.length + results.notes.length + results.appointments.length;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">搜索</h1>
+        <p className="text-gray-500">
+          {query.trim() ? `“${query.trim()}” 共 ${total} 条结果` : '搜索个案姓名、标签、备注以及笔记标题和内容'}
+        </p>
+      </div>
+
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          autoFocus
+          value={query}
+          onChange={e => setSearchParams(e.target.value ? { q: e.target.value } : {}, { replace: true })}
+          placeholder="输入关键词，多个关键词用空格分隔..."
+          className="w-full pl-10 pr-4 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {query.trim() && (
+        <>
+          <ResultGroup
+            title="个案"
+            icon={<Users className="w-4 h-4" />}
+            hits={results.clients}
+            render={(hit: SearchHit<Client>) => (
+              <Link key={hit.item.id} to={clientPath(hit.item)} className="block px-6 py-3 hover:bg-gray-50">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-blue-600">{hit.item.name}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${STATUS_COLORS[hit.item.status]}`}>
+                    {hit.item.status}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  <span className="text-gray-400">{hit.field}：</span>
+                  <HighlightedText parts={hit.snippet} />
+                </p>
+              </Link>
+            )}
+          />
+
+          <ResultGroup
+            title="笔记"
+            icon={<FileText className="w-4 h-4" />}
+            hits={results.notes}
+            render={(hit: SearchHit<FileEntry>) => (
+              <Link key={hit.item.id} to={notePath(hit.item)} className="block px-6 py-3 hover:bg-gray-50">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="font-semibold truncate">{hit.item.title}</span>
+                  <span className="text-xs text-gray-400 shrink-0">
+                    {clientName(hit.item.clientId)} · {format(hit.item.updatedAt, 'yyyy/MM/dd')}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  <span className="text-gray-400">{hit.field}：</span>
+                  <HighlightedText parts={hit.snippet} />
+                </p>
+              </Link>
+            )}
+          />
+
+          <ResultGroup
+            title="预约"
+            icon={<Calendar className="w-4 h-4" />}
+            hits={results.appointments}
+            render={(hit: SearchHit<Appointment>) => (
+              <Link key={hit.item.id} to={appointmentPath(hit.item)} className="flex items-center gap-3 px-6 py-3 hover:bg-gray-50">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: APPOINTMENT_COLORS[hit.item.status] }} />
+                <div className="min-w-0">
+                  <div className="text-sm">
+                    <span className="font-semibold">{clientName(hit.item.clientId)}</span>
+                    <span className="text-gray-500 ml-2">{format(hit.item.startAt, 'yyyy/MM/dd HH:mm')}</span>
+                    <span className="text-gray-400 ml-2">{hit.item.status}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1 truncate">
+                    <span className="text-gray-400">{hit.field}：</span>
+                    <HighlightedText parts={hit.snippet} />
+                  </p>
+                </div>
+              </Link>
+            )}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchView;
@@ -1,6 +1,29 @@
 
-import React, { useState } from 'react';
-import { AppState } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState, AssessmentScale, BlockedDateRange, ConflictPolicy, CustomFieldDefinition, CustomFieldType, FileCategory, HourCountingRule, IcsPrivacy, NoteTemplate, SessionType, WorkingHoursRange } from '../types';
+import { getStorage, getLoadReport, isEncrypted, enableEncryption, changePassphrase, disableEncryption, uuid } from '../store';
+import { StorageUsage, SnapshotInfo, QuarantinedRecord } from '../storage';
+import { BACKUP_COLLECTIONS, ParsedBackup, RestoreMode, parseBackup, diffBackup, restoreBackup } from '../backup';
+import { ICS_PRIVACY_LABELS, eventTitle, serializeIcs, downloadIcs } from '../ics';
+import { SyncStatus, fetchIcsUrls, getSyncStatus, requestServerExport, subscribeSync, syncNow } from '../sync';
+import {
+  SAMPLE_TEMPLATE_CONTEXT,
+  SESSION_TYPE_LABELS,
+  TEMPLATE_CATEGORY_LABELS,
+  TEMPLATE_PLACEHOLDERS,
+  TemplateContext,
+  buildTemplateContext,
+  renderTemplate
+} from '../templates';
+import { MarkdownView } from '../markdown';
+import { pruneRevisions } from '../revisions';
+import { DEFAULT_NOTE_TEMPLATES, DEFAULT_WORKING_HOURS } from '../constants';
+import { toMinutes } from '../scheduling';
+import { HOUR_RULE_LABELS, sessionHours } from '../hours';
+import { BUILT_IN_SCALES, formatScoredLines, parseScoredLines, scoreRange } from '../scales';
+import { CUSTOM_FIELD_TYPE_LABELS } from '../intake';
+import { NotificationSupport, REMINDER_LEAD_OPTIONS, formatLead, notificationSupport, requestNotificationPermission } from '../reminders';
+import { format } from 'date-fns';
 import { 
   Download, 
   Settings as SettingsIcon, 
@@ -12,35 +35,805 @@ import {
   Save,
   CheckCircle,
   FileJson,
-  Hash
+  Hash,
+  HardDrive,
+  ShieldCheck,
+  AlertTriangle,
+  Upload,
+  X,
+  KeyRound,
+  Server,
+  RefreshCw,
+  Plus,
+  Trash2,
+  Star,
+  History,
+  CalendarClock,
+  ClipboardCheck,
+  IdCard,
+  BellRing
 } from 'lucide-react';
 
 interface SettingsViewProps {
   state: AppState;
-  updateState: (updater: (prev: AppState) => AppState) => void;
+  updateState: (updater: (prev: AppState) => AppState, action?: string) => void;
+  onEncryptionChange?: (enabled: boolean) => void;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ state, updateState }) => {
+const TEMPLATE_CATEGORIES = [FileCategory.SessionNote, FileCategory.Supervision];
+
+const TemplateLibraryEditor: React.FC<{
+  templates: NoteTemplate[];
+  onChange: (templates: NoteTemplate[]) => void;
+  sampleContext: TemplateContext;
+}> = ({ templates, onChange, sampleContext }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  const selected = templates.find(t => t.id === selectedId);
+
+  const update = (changes: Partial<NoteTemplate>) => {
+    if (!selected) return;
+    const next = { ...selected, ...changes, updatedAt: Date.now() };
+    onChange(templates.map(t => {
+      if (t.id === next.id) return next;
+      // One default per category and session type
+      if (next.isDefault && t.isDefault && t.category === next.category && t.sessionType === next.sessionType) {
+        return { ...t, isDefault: false, updatedAt: Date.now() };
+      }
+      return t;
+    }));
+  };
+
+  const handleAdd = () => {
+    const template: NoteTemplate = {
+      id: uuid(),
+      name: '新模板',
+      category: FileCategory.SessionNote,
+      sessionType: SessionType.Regular,
+      content: '# {{clientName}} · 第 {{sessionNumber}} 次咨询\n\n',
+      isDefault: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    onChange([...templates, template]);
+    setSelectedId(template.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`确定要删除模板“${selected.name}”吗？`)) return;
+    onChange(templates.filter(t => t.id !== selected.id));
+    setSelectedId(templates.find(t => t.id !== selected.id)?.id ?? null);
+  };
+
+  // Built-in templates that were deleted come back as non-default copies
+  const missingDefaults = DEFAULT_NOTE_TEMPLATES.filter(d => !templates.some(t => t.id === d.id));
+  const handleRestoreDefaults = () => {
+    onChange([...templates, ...missingDefaults.map(d => ({ ...d, isDefault: !templates.some(t =>
+      t.isDefault && t.category === d.category && t.sessionType === d.sessionType
+    ) }))]);
+  };
+
+  const insertPlaceholder = (key: string) => {
+    const el = contentRef.current;
+    if (!selected || !el) return;
+    const token = `{{${key}}}`;
+    const { selectionStart: start, selectionEnd: end } = el;
+    update({ content: selected.content.slice(0, start) + token + selected.content.slice(end) });
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <div className="md:w-56 shrink-0 space-y-4">
+        {TEMPLATE_CATEGORIES.map(category => (
+          <div key={category}>
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">{TEMPLATE_CATEGORY_LABELS[category]}</p>
+            <div className="space-y-1">
+              {templates.filter(t => t.category === category).map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => setSelectedId(t.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 ${
+                    t.id === selectedId ? 'bg-blue-600 text-white' : 'hover:bg-gray-100'
+                  }`}
+                >
+                  <span className="truncate flex-1">{t.name || '未命名模板'}</span>
+                  {t.sessionType && (
+                    <span className={`text-[10px] ${t.id === selectedId ? 'text-blue-100' : 'text-gray-400'}`}>
+                      {SESSION_TYPE_LABELS[t.sessionType]}
+                    </span>
+                  )}
+                  {t.isDefault && <Star className="w-3 h-3 shrink-0 fill-current" />}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="space-y-2">
+          <button
+            onClick={handleAdd}
+            className="w-full flex items-center justify-center gap-2 border border-dashed border-gray-300 py-2 rounded-lg text-sm text-gray-500 hover:border-blue-500 hover:text-blue-600"
+          >
+            <Plus className="w-4 h-4" />
+            新建模板
+          </button>
+          {missingDefaults.length > 0 && (
+            <button onClick={handleRestoreDefaults} className="w-full text-xs text-blue-600 hover:underline">
+              恢复内置模板（{missingDefaults.length}）
+            </button>
+          )}
+        </div>
+      </div>
+
+      {selected ? (
+        <div className="flex-1 min-w-0 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <input
+              value={selected.name}
+              onChange={e => update({ name: e.target.value })}
+              placeholder="模板名称"
+              className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={selected.category}
+              onChange={e => {
+                const category = e.target.value as FileCategory;
+                update({ category, sessionType: category === FileCategory.SessionNote ? selected.sessionType : undefined });
+              }}
+              className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm"
+            >
+              {TEMPLATE_CATEGORIES.map(c => <option key={c} value={c}>{TEMPLATE_CATEGORY_LABELS[c]}</option>)}
+            </select>
+            <select
+              value={selected.sessionType || ''}
+              disabled={selected.category !== FileCategory.SessionNote}
+              onChange={e => update({ sessionType: (e.target.value || undefined) as SessionType | undefined })}
+              className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm disabled:opacity-50"
+            >
+              <option value="">任意咨询</option>
+              {Object.values(SessionType).map(t => <option key={t} value={t}>{SESSION_TYPE_LABELS[t]}</option>)}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={selected.isDefault}
+                onChange={e => update({ isDefault: e.target.checked })}
+                className="accent-blue-600"
+              />
+              自动生成笔记时默认使用
+            </label>
+            <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-500 hover:text-red-700">
+              <Trash2 className="w-4 h-4" />
+              删除
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {TEMPLATE_PLACEHOLDERS.map(p => (
+              <button
+                key={p.key}
+                onClick={() => insertPlaceholder(p.key)}
+                title={`插入 {{${p.key}}}`}
+                className="px-2 py-0.5 bg-purple-50 text-purple-700 text-xs rounded-full border border-purple-100 hover:bg-purple-100"
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <textarea 
+              ref={contentRef}
+              value={selected.content}
+              onChange={e => update({ content: e.target.value })}
+              className="w-full h-72 p-4 font-mono text-xs bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+              placeholder="# 咨询记录模板..."
+            />
+            <div className="h-72 overflow-auto p-4 border border-gray-100 rounded-xl">
+              <p className="text-[10px] text-gray-400 mb-2">预览（示例个案：{sampleContext.clientName}）</p>
+              <MarkdownView source={renderTemplate(selected.content, sampleContext)} />
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-400 min-h-[200px]">
+          选择或新建一个模板
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Keeps the raw text while typing and parses it when the field loses focus
+const LinesField: React.FC<{
+  value: string;
+  onCommit: (text: string) => void;
+  placeholder: string;
+  rows?: number;
+}> = ({ value, onCommit, placeholder, rows = 4 }) => {
+  const [text, setText] = useState(value);
+  useEffect(() => setText(value), [value]);
+  return (
+    <textarea
+      value={text}
+      rows={rows}
+      onChange={e => setText(e.target.value)}
+      onBlur={() => text !== value && onCommit(text)}
+      placeholder={placeholder}
+      className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  );
+};
+
+const CustomScaleEditor: React.FC<{
+  scales: AssessmentScale[];
+  resultCounts: Map<string, number>;
+  onChange: (scales: AssessmentScale[]) => void;
+}> = ({ scales, resultCounts, onChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(scales[0]?.id ?? null);
+  const selected = scales.find(s => s.id === selectedId);
+
+  const update = (changes: Partial<AssessmentScale>) => {
+    if (!selected) return;
+    onChange(scales.map(s => s.id === selected.id ? { ...s, ...changes, updatedAt: Date.now() } : s));
+  };
+
+  const handleAdd = () => {
+    const scale: AssessmentScale = {
+      id: uuid(),
+      name: '新量表',
+      items: [],
+      options: [{ value: 0, label: '没有' }, { value: 1, label: '有时' }, { value: 2, label: '经常' }],
+      bands: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    onChange([...scales, scale]);
+    setSelectedId(scale.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    const count = resultCounts.get(selected.id) || 0;
+    const warning = count ? `已有 ${count} 条测评结果，删除后结果保留但不再显示严重程度。` : '';
+    if (!window.confirm(`确定要删除量表“${selected.name}”吗？${warning}`)) return;
+    onChange(scales.filter(s => s.id !== selected.id));
+    setSelectedId(scales.find(s => s.id !== selected.id)?.id ?? null);
+  };
+
+  const range = selected && selected.items.length && selected.options.length ? scoreRange(selected) : undefined;
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <div className="md:w-56 shrink-0 space-y-4">
+        <div>
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">内置</p>
+          <div className="space-y-1">
+            {BUILT_IN_SCALES.map(s => (
+              <p key={s.id} className="px-3 py-2 text-sm text-gray-500">{s.name}<span className="ml-2 text-[10px] text-gray-400">{s.items.length} 题</span></p>
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">自定义</p>
+          <div className="space-y-1">
+            {scales.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setSelectedId(s.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 ${
+                  s.id === selectedId ? 'bg-blue-600 text-white' : 'hover:bg-gray-100'
+                }`}
+              >
+                <span className="truncate flex-1">{s.name || '未命名量表'}</span>
+                <span className={`text-[10px] ${s.id === selectedId ? 'text-blue-100' : 'text-gray-400'}`}>{s.items.length} 题</span>
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="w-full flex items-center justify-center gap-2 border border-dashed border-gray-300 py-2 rounded-lg text-sm text-gray-500 hover:border-blue-500 hover:text-blue-600"
+        >
+          <Plus className="w-4 h-4" />
+          新建量表
+        </button>
+      </div>
+
+      {selected ? (
+        <div key={selected.id} className="flex-1 min-w-0 space-y-4">
+          <div className="flex gap-3">
+            <input
+              value={selected.name}
+              onChange={e => update({ name: e.target.value })}
+              placeholder="量表名称"
+              className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-500 hover:text-red-700">
+              <Trash2 className="w-4 h-4" />
+              删除
+            </button>
+          </div>
+          <input
+            value={selected.description || ''}
+            onChange={e => update({ description: e.target.value || undefined })}
+            placeholder="指导语（可选）"
+            className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">题目（每行一题）</p>
+            <LinesField
+              value={selected.items.join('\n')}
+              rows={6}
+              placeholder={'最近一周睡眠不好\n对日常活动失去兴趣'}
+              onCommit={text => update({ items: text.split('\n').map(l => l.trim()).filter(Boolean) })}
+            />
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">选项（每行“分值 选项”，所有题目通用）</p>
+              <LinesField
+                value={formatScoredLines(selected.options)}
+                placeholder={'0 没有\n1 有时\n2 经常'}
+                onCommit={text => update({ options: parseScoredLines(text) })}
+              />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">严重程度（每行“起始分 名称”）</p>
+              <LinesField
+                value={formatScoredLines(selected.bands.map(b => ({ value: b.min, label: b.label })))}
+                placeholder={'0 正常\n8 轻度\n15 重度'}
+                onCommit={text => update({
+                  bands: parseScoredLines(text).map(l => ({ min: l.value, label: l.label })).sort((a, b) => a.min - b.min),
+                })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">
+            {range ? `总分为各题得分之和，范围 ${range.min}–${range.max} 分。` : '添加题目和选项后即可在个案页使用。'}
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-400 min-h-[200px]">
+          选择或新建一个自定义量表
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CustomFieldEditor: React.FC<{
+  fields: CustomFieldDefinition[];
+  valueCounts: Map<string, number>;
+  onChange: (fields: CustomFieldDefinition[]) => void;
+}> = ({ fields, valueCounts, onChange }) => {
+  const update = (id: string, changes: Partial<CustomFieldDefinition>) =>
+    onChange(fields.map(f => f.id === id ? { ...f, ...changes } : f));
+
+  const handleDelete = (field: CustomFieldDefinition) => {
+    const count = valueCounts.get(field.id) || 0;
+    const warning = count ? `${count} 位个案已填写此字段，删除后这些内容将不再显示。` : '';
+    if (!window.confirm(`确定要删除字段“${field.label}”吗？${warning}`)) return;
+    onChange(fields.filter(f => f.id !== field.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.map(field => (
+        <div key={field.id} className="p-3 bg-gray-50 rounded-xl border border-gray-100 space-y-2">
+          <div className="flex gap-2">
+            <input
+              value={field.label}
+              onChange={e => update(field.id, { label: e.target.value })}
+              placeholder="字段名称"
+              className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={field.type}
+              onChange={e => update(field.id, { type: e.target.value as CustomFieldType })}
+              className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.values(CustomFieldType).map(t => <option key={t} value={t}>{CUSTOM_FIELD_TYPE_LABELS[t]}</option>)}
+            </select>
+            <button onClick={() => handleDelete(field)} className="p-2 text-gray-400 hover:text-red-500" title="删除字段">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          {field.type === CustomFieldType.Select && (
+            <LinesField
+              value={field.options.join('\n')}
+              rows={3}
+              placeholder={'选项（每行一个）\n如：个人付费\n如：企业 EAP'}
+              onCommit={text => update(field.id, { options: Array.from(new Set(text.split('\n').map(l => l.trim()).filter(Boolean))) })}
+            />
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...fields, { id: uuid(), label: '新字段', type: CustomFieldType.Text, options: [] }])}
+        className="w-full flex items-center justify-center gap-2 border border-dashed border-gray-300 py-2 rounded-lg text-sm text-gray-500 hover:border-blue-500 hover:text-blue-600"
+      >
+        <Plus className="w-4 h-4" />
+        添加字段
+      </button>
+    </div>
+  );
+};
+
+// Monday first, as in the calendar
+const WEEK_DAYS: { day: number; label: string }[] = [
+  { day: 1, label: '周一' },
+  { day: 2, label: '周二' },
+  { day: 3, label: '周三' },
+  { day: 4, label: '周四' },
+  { day: 5, label: '周五' },
+  { day: 6, label: '周六' },
+  { day: 0, label: '周日' },
+];
+
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  [ConflictPolicy.Warn]: '提醒后仍可安排',
+  [ConflictPolicy.Block]: '禁止安排',
+};
+
+type SchedulingRules = Pick<AppState['settings'], 'workingHours' | 'bufferMinutes' | 'blockedDates' | 'conflictPolicy'>;
+
+const SchedulingRulesEditor: React.FC<{
+  rules: SchedulingRules;
+  onChange: (rules: Partial<SchedulingRules>) => void;
+}> = ({ rules, onChange }) => {
+  const [newBlocked, setNewBlocked] = useState({ start: '', end: '', reason: '' });
+  const { workingHours, blockedDates } = rules;
+
+  const setHours = (next: WorkingHoursRange[]) =>
+    onChange({ workingHours: [...next].sort((a, b) => a.day - b.day || toMinutes(a.start) - toMinutes(b.start)) });
+
+  const updateRange = (range: WorkingHoursRange, updates: Partial<WorkingHoursRange>) =>
+    setHours(workingHours.map(r => r === range ? { ...r, ...updates } : r));
+
+  const addRange = (day: number) => {
+    const last = workingHours.filter(r => r.day === day).pop();
+    // A second range usually follows a break after the first
+    const start = last ? last.end : '09:00';
+    setHours([...workingHours, { day, start, end: last ? '21:00' : '18:00' }]);
+  };
+
+  const addBlocked = () => {
+    if (!newBlocked.start) return;
+    const end = newBlocked.end && newBlocked.end >= newBlocked.start ? newBlocked.end : newBlocked.start;
+    const range: BlockedDateRange = { id: uuid(), start: newBlocked.start, end, reason: newBlocked.reason.trim() };
+    onChange({ blockedDates: [...blockedDates, range].sort((a, b) => a.start.localeCompare(b.start)) });
+    setNewBlocked({ start: '', end: '', reason: '' });
+  };
+
+  const invalid = workingHours.some(r => toMinutes(r.end) <= toMinutes(r.start));
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium text-gray-700">每周工作时间</p>
+          <div className="flex gap-3 text-xs">
+            <button onClick={() => setHours(DEFAULT_WORKING_HOURS)} className="text-blue-600 hover:underline">恢复默认</button>
+            <button onClick={() => setHours([])} className="text-gray-500 hover:underline">不限制时间</button>
+          </div>
+        </div>
+        <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+          {WEEK_DAYS.map(({ day, label }) => {
+            const ranges = workingHours.filter(r => r.day === day);
+            return (
+              <div key={day} className="flex items-center gap-4 px-4 py-2">
+                <span className="w-10 text-sm text-gray-600 shrink-0">{label}</span>
+                <div className="flex-1 flex flex-wrap items-center gap-2">
+                  {ranges.length === 0 && <span className="text-xs text-gray-400">不接诊</span>}
+                  {ranges.map((range, i) => (
+                    <div key={i} className="flex items-center gap-1">
+                      <input
+                        type="time"
+                        value={range.start}
+                        onChange={e => e.target.value && updateRange(range, { start: e.target.value })}
+                        className="px-2 py-1 bg-gray-50 border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <span className="text-gray-400 text-xs">–</span>
+                      <input
+                        type="time"
+                        value={range.end}
+                        onChange={e => e.target.value && updateRange(range, { end: e.target.value })}
+                        className="px-2 py-1 bg-gray-50 border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={() => setHours(workingHours.filter(r => r !== range))}
+                        className="p-1 text-gray-400 hover:text-red-500"
+                        title="删除时段"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button onClick={() => addRange(day)} className="p-1 text-gray-400 hover:text-blue-600 shrink-0" title="添加时段">
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        {invalid && <p className="text-xs text-red-600">有时段的结束时间不晚于开始时间，该时段将无法安排预约。</p>}
+        {workingHours.length === 0 && <p className="text-xs text-gray-400">未设置工作时间，任何时间都可以安排预约。</p>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          两次咨询之间至少间隔
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={rules.bufferMinutes}
+            onChange={e => onChange({ bufferMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-20 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          分钟
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          时间冲突时
+          <select
+            value={rules.conflictPolicy}
+            onChange={e => onChange({ conflictPolicy: e.target.value as ConflictPolicy })}
+            className="px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.values(ConflictPolicy).map(p => <option key={p} value={p}>{CONFLICT_POLICY_LABELS[p]}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">停诊日期</p>
+        {blockedDates.length > 0 && (
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+            {blockedDates.map(b => (
+              <div key={b.id} className="flex items-center gap-4 px-4 py-2 text-sm">
+                <span className="font-mono text-xs text-gray-600">{b.start === b.end ? b.start : `${b.start} 至 ${b.end}`}</span>
+                <span className="flex-1 text-gray-500 truncate">{b.reason || '停诊'}</span>
+                <button
+                  onClick={() => onChange({ blockedDates: blockedDates.filter(x => x.id !== b.id) })}
+                  className="p-1 text-gray-400 hover:text-red-500"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={newBlocked.start}
+            onChange={e => setNewBlocked({ ...newBlocked, start: e.target.value })}
+            className="px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-gray-400 text-sm">至</span>
+          <input
+            type="date"
+            value={newBlocked.end}
+            min={newBlocked.start}
+            onChange={e => setNewBlocked({ ...newBlocked, end: e.target.value })}
+            className="px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={newBlocked.reason}
+            onChange={e => setNewBlocked({ ...newBlocked, reason: e.target.value })}
+            placeholder="原因（如休假、培训）"
+            className="flex-1 min-w-[10rem] px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={addBlocked}
+            disabled={!newBlocked.start}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 font-medium disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            添加
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">结束日期留空表示只停诊一天。</p>
+      </div>
+    </div>
+  );
+};
+
+const SettingsView: React.FC<SettingsViewProps> = ({ state, updateState, onEncryptionChange }) => {
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [settings, setSettings] = useState(state.settings);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [pendingRestore, setPendingRestore] = useState<(ParsedBackup & { fileName: string }) | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [restoreSuccess, setRestoreSuccess] = useState(false);
+  const [encrypted, setEncrypted] = useState(false);
+  const [passphraseForm, setPassphraseForm] = useState({ current: '', next: '', confirm: '' });
+  const [securityBusy, setSecurityBusy] = useState(false);
+  const [securityMessage, setSecurityMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(getSyncStatus());
+  const [serverIcsUrls, setServerIcsUrls] = useState<{ localhost: string; lan: string | null } | null>(null);
+  const [serverExport, setServerExport] = useState<{ ok: boolean; text: string } | null>(null);
+  const loadReport = getLoadReport();
+
+  useEffect(() => {
+    isEncrypted().then(setEncrypted).catch(e => console.error("Failed to read encryption state", e));
+  }, []);
+
+  useEffect(() => {
+    getStorage().usage().then(setUsage).catch(e => console.error("Failed to estimate storage", e));
+  }, [state]);
+
+  useEffect(() => subscribeSync(setSyncStatus), []);
+
+  // The server knows its LAN address, which other devices need to subscribe
+  const serverOnline = syncStatus.health === 'online';
+  useEffect(() => {
+    if (!serverOnline) return;
+    fetchIcsUrls().then(setServerIcsUrls).catch(() => setServerIcsUrls(null));
+  }, [serverOnline]);
+
+  useEffect(() => {
+    getStorage().listSnapshots().then(setSnapshots).catch(e => console.error("Failed to list snapshots", e));
+    getStorage().listQuarantine().then(setQuarantined).catch(e => console.error("Failed to list quarantined records", e));
+  }, []);
 
   const handleSave = () => {
-    updateState(prev => ({ ...prev, settings }));
+    // A tighter retention policy applies to existing history right away
+    updateState(
+      prev => ({ ...prev, settings, noteRevisions: pruneRevisions(prev.noteRevisions, settings, Date.now()) }),
+      '已保存设置'
+    );
     setSaveSuccess(true);
     setTimeout(() => setSaveSuccess(false), 2000);
   };
 
-  const handleExport = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(state, null, 2));
+  const downloadJson = (data: unknown, filename: string) => {
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(data, null, 2));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", `counselor_backup_${new Date().toISOString().split('T')[0]}.json`);
+    downloadAnchorNode.setAttribute("download", filename);
     document.body.appendChild(downloadAnchorNode);
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
   };
 
+  const handleExport = () => {
+    downloadJson(state, `counselor_backup_${new Date().toISOString().split('T')[0]}.json`);
+  };
+
+  const handleDownloadQuarantined = (item: QuarantinedRecord) => {
+    downloadJson(item, `counselor_quarantine_${item.collection}_${format(item.quarantinedAt, 'yyyy-MM-dd_HHmm')}.json`);
+  };
+
+  const handleDiscardQuarantined = async (item: QuarantinedRecord) => {
+    if (!window.confirm('永久删除这条被隔离的记录？建议先下载保存。')) return;
+    try {
+      await getStorage().discardQuarantined(item.id);
+      setQuarantined(prev => prev.filter(q => q.id !== item.id));
+    } catch (e) {
+      console.error("Failed to discard quarantined record", e);
+    }
+  };
+
+  const handleDownloadSnapshot = async (snapshot: SnapshotInfo) => {
+    const data = await getStorage().getSnapshot(snapshot.id);
+    downloadJson(data, `counselor_snapshot_${format(snapshot.createdAt, 'yyyy-MM-dd_HHmm')}.json`);
+  };
+
+  const handleRestoreFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const parsed = parseBackup(event.target?.result as string);
+        setRestoreError(null);
+        setRestoreMode('merge');
+        setPendingRestore({ ...parsed, fileName: file.name });
+      } catch (err) {
+        setRestoreError((err as Error).message);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!pendingRestore) return;
+    try {
+      // The current data is kept as a safety copy before it is overwritten
+      const snapshot = await getStorage().saveSnapshot(
+        restoreMode === 'replace' ? '恢复备份前（全部替换）' : '恢复备份前（合并）',
+        state
+      );
+      setSnapshots(prev => [snapshot, ...prev]);
+    } catch (err) {
+      if (!window.confirm('无法保存当前数据的安全备份，仍要继续恢复吗？')) return;
+    }
+    const restored = restoreBackup(state, pendingRestore.state, restoreMode);
+    updateState(prev => restoreBackup(prev, pendingRestore.state, restoreMode), '已从备份恢复数据');
+    setSettings(restored.settings);
+    setPendingRestore(null);
+    setRestoreSuccess(true);
+    setTimeout(() => setRestoreSuccess(false), 3000);
+  };
+
+  // Every branch re-encrypts all stored records, so it can take a moment with many uploads
+  const handleSecurityAction = async (action: 'enable' | 'change' | 'disable') => {
+    const { current, next, confirm } = passphraseForm;
+    if (action !== 'disable' && (next.length < 8 || next !== confirm)) {
+      setSecurityMessage({ ok: false, text: next.length < 8 ? '新口令至少 8 位' : '两次输入的口令不一致' });
+      return;
+    }
+    if (action === 'disable' && !window.confirm('关闭后数据将以明文保存在浏览器中，确定吗？')) return;
+
+    setSecurityBusy(true);
+    setSecurityMessage(null);
+    try {
+      if (action === 'enable') await enableEncryption(state, next);
+      if (action === 'change') await changePassphrase(state, current, next);
+      if (action === 'disable') await disableEncryption(state, current);
+      const enabled = action !== 'disable';
+      setEncrypted(enabled);
+      onEncryptionChange?.(enabled);
+      setPassphraseForm({ current: '', next: '', confirm: '' });
+      setSecurityMessage({
+        ok: true,
+        text: action === 'enable' ? '已启用加密' : action === 'change' ? '口令已修改' : '已关闭加密',
+      });
+    } catch (err) {
+      setSecurityMessage({ ok: false, text: (err as Error).message });
+    } finally {
+      setSecurityBusy(false);
+    }
+  };
+
+  const restoreDiff = pendingRestore ? diffBackup(state, pendingRestore.state) : null;
+
   const icsUrl = `http://localhost:${settings.icsPort}/calendar.ics`;
+  const icsUrls = serverIcsUrls ? [serverIcsUrls.localhost, serverIcsUrls.lan].filter((u): u is string => !!u) : [icsUrl];
+
+  const handleServerExport = async () => {
+    setServerExport(null);
+    try {
+      setServerExport({ ok: true, text: `已导出到服务器：${await requestServerExport()}` });
+    } catch (e) {
+      setServerExport({ ok: false, text: `导出失败：${(e as Error).message}` });
+    }
+  };
+  const sampleClient = state.clients[0] || { id: 'sample', name: '张三' };
+  const [notificationState, setNotificationState] = useState<NotificationSupport>(notificationSupport);
+
+  const toggleLead = (minutes: number) => setSettings({
+    ...settings,
+    reminderLeadMinutes: settings.reminderLeadMinutes.includes(minutes)
+      ? settings.reminderLeadMinutes.filter(m => m !== minutes)
+      : [...settings.reminderLeadMinutes, minutes].sort((a, b) => b - a),
+  });
+  const sampleTemplateContext = state.clients[0] ? buildTemplateContext(state, state.clients[0].id) : SAMPLE_TEMPLATE_CONTEXT;
+
+  const handleDownloadIcs = () => {
+    downloadIcs(serializeIcs(state, { privacy: settings.icsPrivacy }), `counselor_calendar_${format(Date.now(), 'yyyyMMdd')}.ics`);
+  };
+
+  const formatBytes = (bytes: number) =>
+    bytes >= 1024 * 1024 * 1024
+      ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+      : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  const usagePercent = usage?.quota ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
 
   return (
     <div className="max-w-4xl mx-auto space-y-8 pb-12">
@@ -83,6 +876,42 @@ const SettingsView: React.FC<SettingsViewProps> = ({ state, updateState }) => {
                 <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
               </label>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">事件标题隐私级别</label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {Object.values(IcsPrivacy).map(level => (
+                  <button
+                    key={level}
+                    type="button"
+                    onClick={() => setSettings({ ...settings, icsPrivacy: level })}
+                    className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                      settings.icsPrivacy === level ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {ICS_PRIVACY_LABELS[level]}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                日历中显示为：<span className="font-medium text-gray-700">{eventTitle(sampleClient, settings.icsPrivacy)}</span>
+                。订阅的日历通常会同步到云端，建议不要使用完整姓名。
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between p-4 bg-gray-50 border border-gray-200 rounded-xl">
+              <div>
+                <p className="font-medium text-sm">下载 .ics 文件</p>
+                <p className="text-xs text-gray-500">不依赖本地服务，直接导出全部预约与重复规则，可导入任意日历应用</p>
+              </div>
+              <button
+                onClick={handleDownloadIcs}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium hover:bg-gray-100"
+              >
+                <Download className="w-4 h-4" />
+                下载
+              </button>
+            </div>
             
             {settings.icsEnabled && (
               <div className="space-y-4 pt-2 animate-in fade-in slide-in-from-top-2 duration-300">
@@ -97,56 +926,429 @@ const SettingsView: React.FC<SettingsViewProps> = ({ state, updateState }) => {
                 </div>
                 <div className="p-4 bg-blue-50 border border-blue-100 rounded-xl">
                   <p className="text-xs text-blue-700 font-bold uppercase tracking-wider mb-2">订阅链接</p>
-                  <div className="flex items-center gap-2">
-                    <code className="flex-1 text-xs bg-white p-2 rounded border border-blue-200 text-blue-800 break-all">
-                      {icsUrl}
-                    </code>
-                    <button 
-                      onClick={() => navigator.clipboard.writeText(icsUrl)}
-                      className="p-2 hover:bg-blue-100 rounded-lg text-blue-600"
-                    >
-                      <Copy className="w-4 h-4" />
-                    </button>
+                  <div className="space-y-2">
+                    {icsUrls.map(url => (
+                      <div key={url} className="flex items-center gap-2">
+                        <code className="flex-1 text-xs bg-white p-2 rounded border border-blue-200 text-blue-800 break-all">
+                          {url}
+                        </code>
+                        <button 
+                          onClick={() => navigator.clipboard.writeText(url)}
+                          className="p-2 hover:bg-blue-100 rounded-lg text-blue-600"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
                   </div>
                   <p className="mt-3 text-xs text-blue-600 flex items-center gap-1">
                     <HelpCircle className="w-3 h-3" />
                     请在手机或桌面日历应用中“通过 URL 订阅”。
                   </p>
+                  {!settings.syncEnabled && (
+                    <p className="mt-2 text-xs text-amber-700">
+                      订阅内容由本地服务提供。请开启下方的“本地服务同步”，否则订阅的日历不会包含在这里安排的预约。
+                    </p>
+                  )}
                 </div>
               </div>
             )}
           </div>
         </div>
 
+        {/* Local Server Sync */}
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-100 bg-gray-50/50 flex items-center justify-between">
+            <h3 className="font-bold flex items-center gap-2">
+              <Server className="w-5 h-5 text-teal-500" />
+              本地服务同步
+            </h3>
+            {syncStatus.health !== 'disabled' && (
+              <span className={`flex items-center gap-2 text-xs font-medium ${serverOnline ? 'text-green-600' : 'text-gray-500'}`}>
+                <span className={`w-2 h-2 rounded-full ${serverOnline ? 'bg-green-500' : 'bg-red-400'}`} />
+                {serverOnline ? '已连接' : '无法连接'}
+              </span>
+            )}
+          </div>
+          <div className="p-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">同步到 counseling-server</p>
+                <p className="text-sm text-gray-500">将个案、预约、重复规则与 Markdown 笔记推送到本地服务，并拉取其他设备的修改。离线时修改会排队，恢复连接后自动重试。</p>
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer shrink-0 ml-4">
+                <input 
+                  type="checkbox" 
+                  checked={settings.syncEnabled} 
+                  onChange={e => setSettings({ ...settings, syncEnabled: e.target.checked })}
+                  className="sr-only peer" 
+                />
+                <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">服务地址</label>
+              <input 
+                type="url"
+                value={settings.syncServerUrl}
+                onChange={e => setSettings({ ...settings, syncServerUrl: e.target.value })}
+                placeholder="http://localhost:17776"
+                className="w-full max-w-sm px-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-400">
+                服务仅监听本机，并只接受来自本应用页面的请求。若页面地址不是 localhost:3000，请在启动服务时通过 ALLOWED_ORIGINS 指定（当前为 {window.location.origin}）。
+              </p>
+            </div>
+
+            {syncStatus.health !== 'disabled' && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-sm text-gray-600">
+                  <span>待同步：<span className="font-medium">{syncStatus.pending}</span> 项</span>
+                  <span>上次同步：{syncStatus.lastSyncedAt ? format(syncStatus.lastSyncedAt, 'yyyy-MM-dd HH:mm:ss') : '尚未同步'}</span>
+                </div>
+                {syncStatus.lastError && (
+                  <p className="text-xs text-red-600 flex items-center gap-1">
+                    <AlertTriangle className="w-3 h-3 shrink-0" />
+                    {syncStatus.lastError}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => syncNow()}
+                    disabled={syncStatus.syncing}
+                    className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${syncStatus.syncing ? 'animate-spin' : ''}`} />
+                    立即同步
+                  </button>
+                  <button
+                    onClick={handleServerExport}
+                    disabled={!serverOnline}
+                    className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    服务器端导出 (zip)
+                  </button>
+                </div>
+                {serverExport && (
+                  <p className={`text-xs break-all ${serverExport.ok ? 'text-green-700' : 'text-red-600'}`}>{serverExport.text}</p>
+                )}
+              </div>
+            )}
+
+            <p className="text-xs text-gray-400">
+              上传的二进制文件只保存在本浏览器中。本地服务以明文保存数据，开启本地加密不会影响服务端的存储方式。
+            </p>
+          </div>
+        </div>
+
+        {/* Reminders */}
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-100 bg-gray-50/50">
+            <h3 className="font-bold flex items-center gap-2">
+              <BellRing className="w-5 h-5 text-amber-500" />
+              提醒通知
+            </h3>
+          </div>
+          <div className="p-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">启用提醒</p>
+                <p className="text-sm text-gray-500">应用打开期间，在咨询开始前、记录或风险跟进逾期时提醒，并在早上汇总当日安排</p>
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.reminderEnabled}
+                  onChange={e => setSettings({ ...settings, reminderEnabled: e.target.checked })}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+              </label>
+            </div>
+
+            {settings.reminderEnabled && (
+              <div className="space-y-6 animate-in fade-in slide-in-from-top-2 duration-300">
+                <div className="flex items-center justify-between p-4 bg-gray-50 border border-gray-200 rounded-xl">
+                  <div>
+                    <p className="font-medium text-sm">系统通知</p>
+                    <p className="text-xs text-gray-500">
+                      {notificationState === 'granted' ? '已允许，提醒会以系统通知显示'
+                        : notificationState === 'denied' ? '已被浏览器阻止，提醒将显示在应用内。可在浏览器的网站设置中重新允许'
+                        : notificationState === 'unsupported' ? '此浏览器不支持系统通知，提醒将显示在应用内'
+                        : '尚未授权，提醒将显示在应用内'}
+                    </p>
+                  </div>
+                  {notificationState === 'default' && (
+                    <button
+                      onClick={() => requestNotificationPermission().then(setNotificationState)}
+                      className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium hover:bg-gray-100"
+                    >
+                      <Bell className="w-4 h-4" />
+                      允许通知
+                    </button>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">咨询开始前提醒</label>
+                  <div className="flex flex-wrap gap-2">
+                    {REMINDER_LEAD_OPTIONS.map(minutes => (
+                      <button
+                        key={minutes}
+                        type="button"
+                        onClick={() => toggleLead(minutes)}
+                        className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+                          settings.reminderLeadMinutes.includes(minutes) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                        }`}
+                      >
+                        {formatLead(minutes)}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">可多选；不选则不提醒即将开始的咨询。</p>
+                </div>
+
+                <div className="space-y-3">
+                  <label className="flex items-center gap-3 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={settings.reminderDigest}
+                      onChange={e => setSettings({ ...settings, reminderDigest: e.target.checked })}
+                      className="w-4 h-4 rounded border-gray-300"
+                    />
+                    <span className="flex-1">每日早间汇总当日安排</span>
+                    <input
+                      type="time"
+                      value={settings.reminderDigestTime}
+                      disabled={!settings.reminderDigest}
+                      onChange={e => setSettings({ ...settings, reminderDigestTime: e.target.value || '08:00' })}
+                      className="px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    />
+                  </label>
+                  <label className="flex items-center gap-3 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={settings.reminderOverdueNotes}
+                      onChange={e => setSettings({ ...settings, reminderOverdueNotes: e.target.checked })}
+                      className="w-4 h-4 rounded border-gray-300"
+                    />
+                    <span className="flex-1">咨询结束后记录仍未完成</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={settings.reminderNoteHours}
+                      disabled={!settings.reminderOverdueNotes}
+                      onChange={e => setSettings({ ...settings, reminderNoteHours: Math.max(1, parseInt(e.target.value) || 24) })}
+                      className="w-20 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    />
+                    <span className="text-gray-500">小时后</span>
+                  </label>
+                  <label className="flex items-center gap-3 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={settings.reminderRiskFollowUps}
+                      onChange={e => setSettings({ ...settings, reminderRiskFollowUps: e.target.checked })}
+                      className="w-4 h-4 rounded border-gray-300"
+                    />
+                    <span className="flex-1">风险跟进逾期</span>
+                  </label>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">通知中的个案名称</label>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {Object.values(IcsPrivacy).map(level => (
+                      <button
+                        key={level}
+                        type="button"
+                        onClick={() => setSettings({ ...settings, reminderPrivacy: level })}
+                        className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                          settings.reminderPrivacy === level ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                        }`}
+                      >
+                        {ICS_PRIVACY_LABELS[level]}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">
+                    通知显示为：<span className="font-medium text-gray-700">{eventTitle(sampleClient, settings.reminderPrivacy)}</span>
+                    。系统通知可能出现在锁屏上。
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Scheduling Rules */}
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-100 bg-gray-50/50">
+            <h3 className="font-bold flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-blue-500" />
+              排班规则
+            </h3>
+          </div>
+          <div className="p-6">
+            <p className="text-sm text-gray-500 mb-4">
+              新建或拖动预约时，系统会检查是否与其他预约或忙碌时段重叠、间隔是否足够，以及是否超出工作时间或落在停诊日。
+              日历中工作时间以外的时段和停诊日会以灰色和红色标出。
+            </p>
+            <SchedulingRulesEditor
+              rules={settings}
+              onChange={rules => setSettings({ ...settings, ...rules })}
+            />
+          </div>
+        </div>
+
         {/* Note Templates */}
         <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
           <div className="p-6 border-b border-gray-100 bg-gray-50/50">
             <h3 className="font-bold flex items-center gap-2">
               <SettingsIcon className="w-5 h-5 text-purple-500" />
-              自动笔记模板
+              笔记模板库
             </h3>
           </div>
           <div className="p-6">
-            <p className="text-sm text-gray-500 mb-4">当预约标记为“已完成”时，系统将使用此模板自动创建 Markdown 笔记。</p>
-            <textarea 
-              value={settings.noteTemplate}
-              onChange={e => setSettings({ ...settings, noteTemplate: e.target.value })}
-              className="w-full h-48 p-4 font-mono text-xs bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none resize-none"
-              placeholder="# 咨询记录模板..."
+            <p className="text-sm text-gray-500 mb-4">
+              预约标记为“已完成”时，系统按咨询类型（首次为初始访谈，已结案或转介的个案为结案）选用带星标的默认模板自动创建笔记；
+              手动新建笔记时也可以挑选模板。占位符会在生成笔记时替换为实际内容。
+            </p>
+            <TemplateLibraryEditor
+              templates={settings.noteTemplates}
+              onChange={noteTemplates => setSettings({ ...settings, noteTemplates })}
+              sampleContext={sampleTemplateContext}
+            />
+          </div>
+        </div>
+
+        {/* Assessment Scales */}
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-100 bg-gray-50/50">
+            <h3 className="font-bold flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5 text-purple-500" />
+              测评量表
+            </h3>
+          </div>
+          <div className="p-6">
+            <p className="text-sm text-gray-500 mb-4">
+              PHQ-9、GAD-7 与 K10 为内置量表。自定义量表按题目得分之和计分，并按起始分划分严重程度，可在个案页录入并查看分数趋势。
+            </p>
+            <CustomScaleEditor
+              scales={settings.customScales}
+              resultCounts={state.scaleResults.reduce((acc, r) => acc.set(r.scaleId, (acc.get(r.scaleId) || 0) + 1), new Map<string, number>())}
+              onChange={customScales => setSettings({ ...settings, customScales })}
+            />
+          </div>
+        </div>
+
+        {/* Custom Client Fields */}
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-100 bg-gray-50/50">
+            <h3 className="font-bold flex items-center gap-2">
+              <IdCard className="w-5 h-5 text-purple-500" />
+              自定义字段
+            </h3>
+          </div>
+          <div className="p-6">
+            <p className="text-sm text-gray-500 mb-4">
+              为个案基本资料添加额外字段，可在个案页填写、在个案列表中筛选，并随个案 CSV 一同导出。
+            </p>
+            <CustomFieldEditor
+              fields={settings.customFields}
+              valueCounts={state.clients.reduce((acc, c) => {
+                Object.keys(c.customFields || {}).forEach(id => acc.set(id, (acc.get(id) || 0) + 1));
+                return acc;
+              }, new Map<string, number>())}
+              onChange={customFields => setSettings({ ...settings, customFields })}
             />
           </div>
         </div>
 
+        {/* Note History */}
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-100 bg-gray-50/50">
+            <h3 className="font-bold flex items-center gap-2">
+              <History className="w-5 h-5 text-purple-500" />
+              笔记历史版本
+            </h3>
+          </div>
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-500">
+              每次保存笔记都会保留一个历史版本（共 {state.noteRevisions.length} 个）。超出数量或保存期限的旧版本会被清理，每篇笔记的最新版本始终保留。
+            </p>
+            <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                每篇笔记最多保留
+                <input 
+                  type="number" 
+                  min={0}
+                  value={settings.revisionKeepCount}
+                  onChange={e => setSettings({ ...settings, revisionKeepCount: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-20 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                个版本
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                删除超过
+                <input 
+                  type="number" 
+                  min={0}
+                  value={settings.revisionKeepDays}
+                  onChange={e => setSettings({ ...settings, revisionKeepDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-20 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                天的版本
+              </label>
+            </div>
+            <p className="text-xs text-gray-400">填 0 表示不限制。</p>
+          </div>
+        </div>
+
         {/* Global Adjustment */}
         <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
           <div className="p-6 border-b border-gray-100 bg-gray-50/50">
             <h3 className="font-bold flex items-center gap-2">
               <Hash className="w-5 h-5 text-blue-400" />
-              统计时长修正
+              咨询时长统计
             </h3>
           </div>
-          <div className="p-6">
-            <p className="text-sm text-gray-500 mb-4">设置全局时长修正（小时）。此值将累加到所有个案时长总计中。</p>
+          <div className="p-6 space-y-6">
+            <div className="space-y-3">
+              <p className="text-sm text-gray-500">已完成咨询按实际开始和结束时间计算时长，个案指标和统计分析使用同一规则。</p>
+              <div className="flex flex-wrap items-center gap-6">
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  计时规则
+                  <select
+                    value={settings.hourCountingRule}
+                    onChange={e => setSettings({ ...settings, hourCountingRule: e.target.value as HourCountingRule })}
+                    className="px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Object.values(HourCountingRule).map(r => <option key={r} value={r}>{HOUR_RULE_LABELS[r]}</option>)}
+                  </select>
+                </label>
+                {settings.hourCountingRule === HourCountingRule.ClinicalHour && (
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    1 临床小时 =
+                    <input
+                      type="number"
+                      min={1}
+                      value={settings.clinicalHourMinutes}
+                      onChange={e => setSettings({ ...settings, clinicalHourMinutes: Math.max(1, parseInt(e.target.value) || 50) })}
+                      className="w-20 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    分钟
+                  </label>
+                )}
+              </div>
+              {settings.hourCountingRule === HourCountingRule.ClinicalHour && (
+                <p className="text-xs text-gray-400">
+                  每次咨询按最接近的整数个临床小时计，不足半个临床小时的也计 1 小时：20 分钟计 {sessionHours({ startAt: 0, endAt: 20 * 60000 }, settings)} 小时，{settings.clinicalHourMinutes} 分钟计 1 小时，90 分钟计 {sessionHours({ startAt: 0, endAt: 90 * 60000 }, settings)} 小时。
+                </p>
+              )}
+            </div>
+            <p className="text-sm text-gray-500">设置全局时长修正（小时）。此值将累加到所有个案时长总计中。个案的次数和时长可以在个案详情中分别修正。</p>
             <div className="flex items-center gap-4">
               <input 
                 type="number" 
@@ -159,6 +1361,106 @@ const SettingsView: React.FC<SettingsViewProps> = ({ state, updateState }) => {
           </div>
         </div>
 
+        {/* Encryption */}
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-100 bg-gray-50/50">
+            <h3 className="font-bold flex items-center gap-2">
+              <KeyRound className="w-5 h-5 text-orange-500" />
+              加密与自动锁定
+            </h3>
+          </div>
+          <div className="p-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">本地数据加密</p>
+                <p className="text-sm text-gray-500">使用口令派生的密钥 (PBKDF2 + AES-GCM) 加密浏览器中保存的所有资料</p>
+              </div>
+              <span className={`text-xs px-2.5 py-1 rounded-full border font-medium ${
+                encrypted ? 'bg-green-100 text-green-800 border-green-200' : 'bg-gray-100 text-gray-600 border-gray-200'
+              }`}>
+                {encrypted ? '已加密' : '未加密'}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {encrypted && (
+                <input 
+                  type="password"
+                  placeholder="当前口令"
+                  value={passphraseForm.current}
+                  onChange={e => setPassphraseForm({ ...passphraseForm, current: e.target.value })}
+                  className="px-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+              <input 
+                type="password"
+                placeholder={encrypted ? '新口令（修改时填写）' : '设置口令（至少 8 位）'}
+                value={passphraseForm.next}
+                onChange={e => setPassphraseForm({ ...passphraseForm, next: e.target.value })}
+                className="px-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input 
+                type="password"
+                placeholder="再次输入口令"
+                value={passphraseForm.confirm}
+                onChange={e => setPassphraseForm({ ...passphraseForm, confirm: e.target.value })}
+                className="px-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              {encrypted ? (
+                <>
+                  <button 
+                    disabled={securityBusy}
+                    onClick={() => handleSecurityAction('change')}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium disabled:opacity-60"
+                  >
+                    修改口令
+                  </button>
+                  <button 
+                    disabled={securityBusy}
+                    onClick={() => handleSecurityAction('disable')}
+                    className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 text-sm font-medium disabled:opacity-60"
+                  >
+                    关闭加密
+                  </button>
+                </>
+              ) : (
+                <button 
+                  disabled={securityBusy}
+                  onClick={() => handleSecurityAction('enable')}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium disabled:opacity-60"
+                >
+                  启用加密
+                </button>
+              )}
+              {securityBusy && <span className="text-sm text-gray-400">正在重新加密数据...</span>}
+              {securityMessage && (
+                <span className={`text-sm ${securityMessage.ok ? 'text-green-600' : 'text-red-600'}`}>{securityMessage.text}</span>
+              )}
+            </div>
+            <p className="text-xs text-orange-600">口令无法找回。忘记口令将无法读取已加密的数据，请同时保留导出的备份。</p>
+
+            <div className="pt-4 border-t border-gray-100 flex items-center justify-between">
+              <div>
+                <p className="font-medium">空闲自动锁定</p>
+                <p className="text-sm text-gray-500">启用加密后，无操作超过设定时间将自动锁定（0 表示不自动锁定）</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <input 
+                  type="number"
+                  min={0}
+                  value={settings.autoLockMinutes}
+                  onChange={e => setSettings({ ...settings, autoLockMinutes: Math.max(0, Number(e.target.value)) })}
+                  className="w-24 px-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-400">分钟</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
         {/* Data Management */}
         <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
           <div className="p-6 border-b border-gray-100 bg-gray-50/50">
@@ -181,19 +1483,240 @@ const SettingsView: React.FC<SettingsViewProps> = ({ state, updateState }) => {
                 立即导出
               </button>
             </div>
+
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mt-6">
+              <div>
+                <p className="font-medium">从备份恢复 (JSON)</p>
+                <p className="text-sm text-gray-500">
+                  {restoreSuccess ? '备份已恢复' : '导入之前导出的备份，可选择合并或全部替换'}
+                </p>
+                {restoreError && <p className="text-sm text-red-600 mt-1">{restoreError}</p>}
+              </div>
+              <label className="flex items-center justify-center gap-2 bg-white border border-gray-200 text-gray-800 px-6 py-2 rounded-xl hover:border-gray-400 transition-all font-medium cursor-pointer">
+                <Upload className="w-4 h-4" />
+                选择备份
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleRestoreFile} />
+              </label>
+            </div>
             
+            <div className="mt-8 pt-6 border-t border-gray-100">
+              <div className="flex items-center justify-between mb-2">
+                <p className="font-medium flex items-center gap-2">
+                  <HardDrive className="w-4 h-4 text-gray-400" />
+                  存储用量
+                </p>
+                <p className="text-sm text-gray-500">
+                  {usage
+                    ? `${formatBytes(usage.usage)}${usage.quota ? ` / ${formatBytes(usage.quota)}` : ''} · ${usage.backend}`
+                    : '正在计算...'}
+                </p>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div 
+                  className={`h-full rounded-full transition-all ${usagePercent > 90 ? 'bg-red-500' : usagePercent > 70 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                  style={{ width: `${usagePercent}%` }}
+                />
+              </div>
+            </div>
+
+            <div className="mt-8 pt-6 border-t border-gray-100 space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="font-medium flex items-center gap-2">
+                  <ShieldCheck className="w-4 h-4 text-gray-400" />
+                  数据结构版本
+                </p>
+                <p className="text-sm text-gray-500">v{state.schemaVersion}</p>
+              </div>
+              {loadReport && loadReport.applied.length > 0 && (
+                <div className="text-sm text-gray-600">
+                  <p className="mb-1">本次启动已从 v{loadReport.fromVersion} 升级：</p>
+                  <ul className="list-disc pl-5 text-xs text-gray-500 space-y-0.5">
+                    {loadReport.applied.map(step => <li key={step}>{step}</li>)}
+                  </ul>
+                </div>
+              )}
+              {loadReport && loadReport.issues.length > 0 && (
+                <div className="p-4 bg-red-50 border border-red-100 rounded-xl text-sm text-red-800">
+                  <p className="font-bold mb-2 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    发现 {loadReport.issues.length} 处数据问题
+                  </p>
+                  <ul className="space-y-1 text-xs max-h-48 overflow-y-auto">
+                    {loadReport.issues.map((issue, index) => (
+                      <li key={index}>
+                        <span className={`font-semibold ${issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}>
+                          {issue.severity === 'error' ? '[已隔离]' : '[提示]'}
+                        </span>{' '}
+                        {issue.collection}{issue.id ? ` #${issue.id}` : ''}：{issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                  {loadReport.issues.some(i => i.severity === 'error') && (
+                    <p className="mt-2 text-xs">被隔离的记录未载入，可在下方“隔离的记录”中查看或下载，加载前的完整数据也保留在安全备份中。</p>
+                  )}
+                </div>
+              )}
+              {quarantined.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">隔离的记录</p>
+                  <p className="text-xs text-gray-400 mb-2">这些记录未通过校验、无法自动修复，因此没有载入。下载后可修正并通过恢复备份重新导入。</p>
+                  <div className="space-y-1">
+                    {quarantined.map(item => (
+                      <div key={item.id} className="flex items-center justify-between gap-2 text-sm p-2 bg-red-50/50 rounded-lg">
+                        <span className="text-gray-600 min-w-0">
+                          {BACKUP_COLLECTIONS.find(c => c.key === item.collection)?.label || item.collection}
+                          <span className="text-xs text-gray-400 ml-2 break-all">{item.id}</span>
+                          <span className="block text-xs text-red-600">{item.reason} · {format(item.quarantinedAt, 'yyyy-MM-dd HH:mm')}</span>
+                        </span>
+                        <div className="flex shrink-0">
+                          <button
+                            onClick={() => handleDownloadQuarantined(item)}
+                            className="p-1.5 hover:bg-gray-200 rounded-lg text-gray-500"
+                            title="下载"
+                          >
+                            <Download className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDiscardQuarantined(item)}
+                            className="p-1.5 hover:bg-gray-200 rounded-lg text-gray-500 hover:text-red-600"
+                            title="删除"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {snapshots.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">安全备份</p>
+                  <div className="space-y-1">
+                    {snapshots.map(snapshot => (
+                      <div key={snapshot.id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded-lg">
+                        <span className="text-gray-600">
+                          {snapshot.label}
+                          <span className="text-xs text-gray-400 ml-2">{format(snapshot.createdAt, 'yyyy-MM-dd HH:mm')}</span>
+                        </span>
+                        <button 
+                          onClick={() => handleDownloadSnapshot(snapshot)}
+                          className="p-1.5 hover:bg-gray-200 rounded-lg text-gray-500"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
             <div className="mt-8 pt-6 border-t border-gray-100">
               <div className="p-4 bg-yellow-50 border border-yellow-100 rounded-xl flex gap-3">
                 <HelpCircle className="w-5 h-5 text-yellow-600 shrink-0 mt-0.5" />
                 <div className="text-sm text-yellow-800">
                   <p className="font-bold mb-1">隐私提示</p>
-                  <p>所有数据均存储在您的浏览器本地存储 (Local Storage) 中。清除浏览器缓存可能会导致数据丢失。请务必定期通过“导出”功能备份您的重要工作资料。</p>
+                  <p>所有数据均存储在您的浏览器本地数据库 (IndexedDB) 中。清除浏览器缓存可能会导致数据丢失。请务必定期通过“导出”功能备份您的重要工作资料。</p>
                 </div>
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      {/* Restore Modal */}
+      {pendingRestore && restoreDiff && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <div>
+                <h3 className="text-xl font-bold">恢复备份</h3>
+                <p className="text-xs text-gray-400 mt-1">
+                  {pendingRestore.fileName} · 数据版本 v{pendingRestore.fromVersion}
+                </p>
+              </div>
+              <button onClick={() => setPendingRestore(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 text-left">
+                    <th className="py-2"></th>
+                    <th className="py-2">新增</th>
+                    <th className="py-2">备份较新</th>
+                    <th className="py-2">冲突（本地较新）</th>
+                    <th className="py-2">相同</th>
+                    <th className="py-2">仅本地</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {BACKUP_COLLECTIONS.map(({ key, label }) => {
+                    const diff = restoreDiff[key];
+                    return (
+                      <tr key={key}>
+                        <td className="py-2 font-medium">{label}</td>
+                        <td className="py-2 text-green-600">{diff.added}</td>
+                        <td className="py-2 text-blue-600">{diff.changed}</td>
+                        <td className={`py-2 ${diff.conflicting ? 'text-orange-600 font-bold' : 'text-gray-400'}`}>{diff.conflicting}</td>
+                        <td className="py-2 text-gray-400">{diff.unchanged}</td>
+                        <td className="py-2 text-gray-400">{diff.localOnly}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {pendingRestore.issues.length > 0 && (
+                <div className="p-3 bg-yellow-50 border border-yellow-100 rounded-xl text-xs text-yellow-800 max-h-32 overflow-y-auto">
+                  <p className="font-bold mb-1">备份中有 {pendingRestore.issues.length} 处问题</p>
+                  {pendingRestore.issues.map((issue, index) => (
+                    <p key={index}>{issue.collection}{issue.id ? ` #${issue.id}` : ''}：{issue.message}</p>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  { mode: 'merge', label: '按 ID 合并', hint: '双方都有的记录保留 updatedAt 较新的一份，本地独有的记录保留；模板、量表和自定义字段同样合并，其余设置保留本机' },
+                  { mode: 'replace', label: '全部替换', hint: '清空本地数据，完全使用备份内容（含设置）' },
+                ] as { mode: RestoreMode; label: string; hint: string }[]).map(option => (
+                  <button 
+                    key={option.mode}
+                    onClick={() => setRestoreMode(option.mode)}
+                    className={`text-left p-4 rounded-xl border transition-all ${
+                      restoreMode === option.mode ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-500/20' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="font-medium">{option.label}</p>
+                    <p className="text-xs text-gray-500 mt-1">{option.hint}</p>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex gap-3">
+                <button 
+                  onClick={() => setPendingRestore(null)}
+                  className="flex-1 px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 font-medium"
+                >
+                  取消
+                </button>
+                <button 
+                  onClick={handleConfirmRestore}
+                  className={`flex-1 px-4 py-2 text-white rounded-lg font-medium ${
+                    restoreMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                  }`}
+                >
+                  {restoreMode === 'replace' ? '确认全部替换' : '确认合并'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-400 text-center">恢复前会自动为当前数据保存一份安全备份</p>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
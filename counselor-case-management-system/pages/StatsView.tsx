@@ -1,14 +1,19 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { AppState, AppointmentStatus } from '../types';
 import { getClientStats } from '../store';
-import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isWithinInterval, startOfWeek, endOfWeek } from 'date-fns';
-import { Edit2, Check, X as XIcon } from 'lucide-react';
+import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid, Legend } from 'recharts';
+import { formatMoney, monthlyIncome } from '../billing';
+import { HOUR_RULE_LABELS, formatHours } from '../hours';
+import { averageDaysToActive, closedThisQuarter } from '../lifecycle';
+import { RISK_LEVEL_COLORS, RISK_LEVEL_LABELS, completeFollowUp, elevatedRisks, overdueFollowUps } from '../risk';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isWithinInterval, startOfWeek, endOfWeek, differenceInCalendarDays } from 'date-fns';
+import { Edit2, Check, X as XIcon, ShieldAlert, CalendarClock, UserCheck, Archive } from 'lucide-react';
 
 interface StatsViewProps {
   state: AppState;
-  updateState: (updater: (prev: AppState) => AppState) => void;
+  updateState: (updater: (prev: AppState) => AppState, action?: string) => void;
 }
 
 const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
@@ -29,7 +34,7 @@ const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
   const monthCompleted = completedAppts.filter(a => isWithinInterval(a.startAt, thisMonth));
   const weekCompleted = completedAppts.filter(a => isWithinInterval(a.startAt, thisWeek));
 
-  // Calculate base system hours from completed sessions across all clients
+  // Calculate base system hours from completed sessions across all clients, counted by the same rule as each client
   const baseSystemHours = useMemo(() => {
     let sum = 0;
     state.clients.forEach(c => {
@@ -38,7 +43,7 @@ const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
     });
     // Subtract the global adjustment from the sum because getClientStats doesn't include it anyway
     return sum;
-  }, [state.clients, state.appointments]);
+  }, [state.clients, state.appointments, state.settings.hourCountingRule, state.settings.clinicalHourMinutes]);
 
   const totalSystemHours = baseSystemHours + state.settings.globalHourAdjustment;
 
@@ -53,7 +58,7 @@ const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
         ...prev.settings,
         globalHourAdjustment: tempHourAdjustment
       }
-    }));
+    }), `已将累计时数修正值改为 ${tempHourAdjustment} 小时`);
     setIsEditingGlobalHours(false);
   };
 
@@ -78,6 +83,20 @@ const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
     });
   }, [weekCompleted]);
 
+  const incomeData = useMemo(() => monthlyIncome(state, 12), [state.appointments, state.clients]);
+  const thisMonthIncome = incomeData[incomeData.length - 1];
+  const totalOutstanding = incomeData.reduce((sum, m) => sum + m.outstanding, 0);
+
+  const atRisk = useMemo(() => elevatedRisks(state), [state.appointments, state.clients]);
+  const overdue = useMemo(() => overdueFollowUps(state), [state.appointments, state.clients]);
+  const toActive = useMemo(() => averageDaysToActive(state.clients), [state.clients]);
+  const closedQuarter = useMemo(() => closedThisQuarter(state.clients), [state.clients]);
+  const clientName = (id: string) => state.clients.find(c => c.id === id)?.name || '未知个案';
+
+  const handleFollowUpDone = (apptId: string, clientId: string) => {
+    updateState(prev => completeFollowUp(prev, apptId), `已将${clientName(clientId)}的风险跟进标记为完成`);
+  };
+
   const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#6b7280', '#8b5cf6'];
 
   return (
@@ -97,8 +116,9 @@ const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
               <div className="flex items-center gap-2">
                 <input 
                   type="number"
-                  value={tempHourAdjustment + baseSystemHours}
-                  onChange={(e) => setTempHourAdjustment(Number(e.target.value) - baseSystemHours)}
+                  step={0.5}
+                  value={Number(formatHours(tempHourAdjustment + baseSystemHours))}
+                  onChange={(e) => setTempHourAdjustment(Math.round((Number(e.target.value) - baseSystemHours) * 100) / 100)}
                   className="w-full bg-white border border-blue-300 rounded px-2 py-1 text-xl font-bold outline-none focus:ring-2 focus:ring-blue-500"
                   autoFocus
                 />
@@ -122,7 +142,7 @@ const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
           ) : (
             <div className="relative">
               <p className="text-3xl font-bold text-blue-600">
-                {totalSystemHours} 
+                {formatHours(totalSystemHours)} 
                 <span className="text-sm font-normal text-gray-400 ml-1">小时</span>
               </p>
               <button 
@@ -135,7 +155,9 @@ const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
               >
                 <Edit2 className="w-3.5 h-3.5" />
               </button>
-              <p className="text-[10px] text-gray-400 mt-2 block">包含 {state.settings.globalHourAdjustment}h 系统修正值</p>
+              <p className="text-[10px] text-gray-400 mt-2 block">
+                {HOUR_RULE_LABELS[state.settings.hourCountingRule]}，包含 {formatHours(state.settings.globalHourAdjustment)}h 系统修正值
+              </p>
             </div>
           )}
         </div>
@@ -162,6 +184,112 @@ const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
         </div>
       </div>
 
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b bg-gray-50/50 flex items-center justify-between">
+            <h3 className="font-bold flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5 text-red-500" />
+              中高风险个案
+            </h3>
+            <span className="text-sm text-gray-400">{atRisk.length} 位</span>
+          </div>
+          <div className="divide-y divide-gray-100 max-h-[320px] overflow-y-auto">
+            {atRisk.map(({ clientId, appointment, assessment }) => (
+              <div key={clientId} className="p-4 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Link to={`/clients/${clientId}`} className="font-semibold text-blue-600 hover:underline">{clientName(clientId)}</Link>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${RISK_LEVEL_COLORS[assessment.level]}`}>
+                    {RISK_LEVEL_LABELS[assessment.level]}
+                  </span>
+                  <span className="ml-auto text-xs text-gray-400">评估于 {format(appointment.startAt, 'yyyy-MM-dd')}</span>
+                </div>
+                {assessment.factors.length > 0 && <p className="text-sm text-gray-600">{assessment.factors.join('、')}</p>}
+                {assessment.followUpPlan && <p className="text-xs text-gray-400">跟进：{assessment.followUpPlan}</p>}
+              </div>
+            ))}
+            {atRisk.length === 0 && <p className="p-8 text-center text-sm text-gray-400">目前没有中高风险个案</p>}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b bg-gray-50/50 flex items-center justify-between">
+            <h3 className="font-bold flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-amber-500" />
+              逾期的风险跟进
+            </h3>
+            <span className="text-sm text-gray-400">{overdue.length} 项</span>
+          </div>
+          <div className="divide-y divide-gray-100 max-h-[320px] overflow-y-auto">
+            {overdue.map(({ clientId, appointment, assessment }) => (
+              <div key={clientId} className="p-4 flex items-start gap-3">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Link to={`/clients/${clientId}`} className="font-semibold text-blue-600 hover:underline">{clientName(clientId)}</Link>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${RISK_LEVEL_COLORS[assessment.level]}`}>
+                      {RISK_LEVEL_LABELS[assessment.level]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-red-600">
+                    应于 {format(assessment.followUpBy!, 'yyyy-MM-dd')} 前跟进，已逾期 {differenceInCalendarDays(now, assessment.followUpBy!)} 天
+                  </p>
+                  {assessment.followUpPlan && <p className="text-sm text-gray-600">{assessment.followUpPlan}</p>}
+                </div>
+                <button
+                  onClick={() => handleFollowUpDone(appointment.id, clientId)}
+                  className="shrink-0 px-3 py-1.5 text-xs border border-gray-200 rounded-lg hover:bg-gray-50 font-medium flex items-center gap-1"
+                >
+                  <Check className="w-3 h-3" /> 已跟进
+                </button>
+              </div>
+            ))}
+            {overdue.length === 0 && <p className="p-8 text-center text-sm text-gray-400">没有逾期的跟进</p>}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm">
+          <h3 className="font-bold flex items-center gap-2 mb-4">
+            <UserCheck className="w-5 h-5 text-green-500" />
+            Potential → Active 平均用时
+          </h3>
+          {toActive.average !== undefined ? (
+            <p className="text-3xl font-bold text-gray-900">
+              {toActive.average.toFixed(1)}
+              <span className="text-sm font-normal text-gray-400 ml-1">天</span>
+            </p>
+          ) : (
+            <p className="text-3xl font-bold text-gray-300">—</p>
+          )}
+          <p className="text-xs text-gray-400 mt-2">
+            基于 {toActive.count} 位有完整状态记录的个案，从首次记为 Potential 到首次转为 Active。
+          </p>
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b bg-gray-50/50 flex items-center justify-between">
+            <h3 className="font-bold flex items-center gap-2">
+              <Archive className="w-5 h-5 text-gray-500" />
+              本季度结案
+            </h3>
+            <span className="text-sm text-gray-400">{closedQuarter.length} 位</span>
+          </div>
+          <div className="divide-y divide-gray-100 max-h-[240px] overflow-y-auto">
+            {closedQuarter.map(({ client, change }) => (
+              <div key={client.id} className="p-4 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Link to={`/clients/${client.id}`} className="font-semibold text-blue-600 hover:underline">{client.name}</Link>
+                  {client.status !== change.to && <span className="text-xs text-gray-400">（现为 {client.status}）</span>}
+                  <span className="ml-auto text-xs text-gray-400">结案于 {format(change.at, 'yyyy-MM-dd')}</span>
+                </div>
+                {change.terminationSummary && <p className="text-sm text-gray-600 line-clamp-2">{change.terminationSummary}</p>}
+              </div>
+            ))}
+            {closedQuarter.length === 0 && <p className="p-8 text-center text-sm text-gray-400">本季度尚无结案</p>}
+          </div>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm h-[400px]">
           <h3 className="font-bold text-gray-800 mb-6">个案状态分布</h3>
@@ -205,6 +333,41 @@ const StatsView: React.FC<StatsViewProps> = ({ state, updateState }) => {
           </div>
         </div>
       </div>
+
+      <div className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+          <h3 className="font-bold text-gray-800">近 12 个月收入</h3>
+          <div className="flex gap-6 text-sm">
+            <div>
+              <p className="text-gray-500">本月已收</p>
+              <p className="text-xl font-bold text-green-600">{formatMoney(thisMonthIncome.received)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">12 个月内未收</p>
+              <p className="text-xl font-bold text-amber-600">{formatMoney(totalOutstanding)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={incomeData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+              <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9ca3af' }} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9ca3af' }} />
+              <Tooltip
+                cursor={{ fill: '#f9fafb' }}
+                formatter={(value) => formatMoney(Number(value))}
+                labelFormatter={(_label, payload) => payload?.[0]?.payload.month ?? ''}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Bar dataKey="received" name="已收" stackId="income" fill="#10b981" barSize={28} />
+              <Bar dataKey="outstanding" name="未收" stackId="income" fill="#f59e0b" radius={[4, 4, 0, 0]} barSize={28} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-xs text-gray-400 mt-2">已收按付款日期计入当月，未收按咨询日期计入。</p>
+      </div>
     </div>
   );
 };
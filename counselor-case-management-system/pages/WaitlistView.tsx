@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AppState, Client, ClientStatus, Modality, Urgency, WaitlistEntry } from '../types';
+import {
+  FREED_SLOT_DAYS,
+  MODALITY_LABELS,
+  URGENCY_COLORS,
+  URGENCY_LABELS,
+  WAITLIST_DAYS,
+  bookFromWaitlist,
+  emptyWaitlistEntry,
+  freedSeriesSlots,
+  updateWaitlist,
+  waitlistedClients,
+} from '../waitlist';
+import { describeSeries, describeSlot } from '../recurrence';
+import { WEEKDAY_NAMES } from '../scheduling';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { CalendarClock, Edit2, Hourglass, Trash2, UserPlus, X } from 'lucide-react';
+
+interface WaitlistViewProps {
+  state: AppState;
+  updateState: (updater: (prev: AppState) => AppState, action?: string) => void;
+}
+
+const describePreference = (entry: WaitlistEntry) => {
+  const days = entry.preferredDays.length
+    ? WAITLIST_DAYS.filter(d => entry.preferredDays.includes(d)).map(d => WEEKDAY_NAMES[d]).join('、')
+    : '任意日期';
+  const time = entry.preferredFrom || entry.preferredTo
+    ? `${entry.preferredFrom || '不限'}–${entry.preferredTo || '不限'}`
+    : '任意时间';
+  return `${days} · ${time}`;
+};
+
+// Matches shown under each freed series slot
+const FREED_SLOT_MATCH_LIMIT = 3;
+
+const WaitlistForm: React.FC<{
+  client: Client;
+  onCancel: () => void;
+  onSave: (entry: WaitlistEntry) => void;
+}> = ({ client, onCancel, onSave }) => {
+  const [entry, setEntry] = useState<WaitlistEntry>(() => client.waitlist ?? emptyWaitlistEntry());
+  const inputClass = 'px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 outline-none text-sm';
+  const choice = (active: boolean) => `px-3 py-1.5 rounded-lg border text-sm ${
+    active ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+  }`;
+
+  const toggleDay = (day: number) => setEntry({
+    ...entry,
+    preferredDays: entry.preferredDays.includes(day)
+      ? entry.preferredDays.filter(d => d !== day)
+      : [...entry.preferredDays, day],
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (entry.preferredFrom && entry.preferredTo && entry.preferredFrom >= entry.preferredTo) return;
+    onSave({ ...entry, notes: entry.notes?.trim() || undefined });
+  };
+
+  const invalidRange = !!entry.preferredFrom && !!entry.preferredTo && entry.preferredFrom >= entry.preferredTo;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold">等候信息</h3>
+            <p className="text-sm text-gray-500">{client.name}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-100 rounded-full">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">偏好日期（不选 = 任意）</p>
+            <div className="flex flex-wrap gap-2">
+              {WAITLIST_DAYS.map(day => (
+                <button key={day} type="button" onClick={() => toggleDay(day)} className={choice(entry.preferredDays.includes(day))}>
+                  {WEEKDAY_NAMES[day]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">偏好时间（留空 = 不限）</p>
+            <div className="flex items-center gap-2">
+              <input type="time" value={entry.preferredFrom} onChange={e => setEntry({ ...entry, preferredFrom: e.target.value })} className={inputClass} />
+              <span className="text-gray-400">至</span>
+              <input type="time" value={entry.preferredTo} onChange={e => setEntry({ ...entry, preferredTo: e.target.value })} className={inputClass} />
+            </div>
+            {invalidRange && <p className="mt-1 text-xs text-red-600">结束时间需晚于开始时间</p>}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">咨询形式</p>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(Modality).map(m => (
+                  <button key={m} type="button" onClick={() => setEntry({ ...entry, modality: m })} className={choice(entry.modality === m)}>
+                    {MODALITY_LABELS[m]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">紧急程度</p>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(Urgency).map(u => (
+                  <button key={u} type="button" onClick={() => setEntry({ ...entry, urgency: u })} className={choice(entry.urgency === u)}>
+                    {URGENCY_LABELS[u]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <label className="block text-sm font-medium text-gray-700">
+            加入日期
+            <input
+              type="date"
+              required
+              value={format(entry.addedAt, 'yyyy-MM-dd')}
+              onChange={e => e.target.value && setEntry({ ...entry, addedAt: new Date(`${e.target.value}T00:00:00`).getTime() })}
+              className={`mt-1 block ${inputClass}`}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            备注
+            <textarea
+              rows={2}
+              value={entry.notes || ''}
+              onChange={e => setEntry({ ...entry, notes: e.target.value })}
+              placeholder="如：仅能在午休时间、希望女性咨询师"
+              className={`mt-1 w-full ${inputClass}`}
+            />
+          </label>
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={onCancel} className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 font-medium text-sm">
+              取消
+            </button>
+            <button type="submit" disabled={invalidRange} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm disabled:opacity-50">
+              保存
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const WaitlistView: React.FC<WaitlistViewProps> = ({ state, updateState }) => {
+  const [editing, setEditing] = useState<Client | null>(null);
+  const waiting = useMemo(() => waitlistedClients(state), [state.clients]);
+  const freedSlots = useMemo(() => freedSeriesSlots(state), [state]);
+  const addable = state.clients.filter(c => c.status === ClientStatus.Potential && !c.waitlist);
+  const now = Date.now();
+  const clientName = (id: string) => state.clients.find(c => c.id === id)?.name || '未知个案';
+
+  const handleSave = (entry: WaitlistEntry) => {
+    if (!editing) return;
+    updateState(
+      prev => updateWaitlist(prev, editing.id, entry),
+      editing.waitlist ? `已更新${editing.name}的等候信息` : `已将${editing.name}加入等候名单`
+    );
+    setEditing(null);
+  };
+
+  const handleBook = (client: Client, startAt: number, endAt: number) => {
+    updateState(
+      prev => bookFromWaitlist(prev, client.id, startAt, endAt),
+      `已为${client.name}预约 ${describeSlot(startAt)} 的初始访谈，并转为 Active`
+    );
+  };
+
+  const handleRemove = (client: Client) => {
+    if (!window.confirm(`将${client.name}移出等候名单？`)) return;
+    updateState(prev => updateWaitlist(prev, client.id, undefined), `已将${client.name}移出等候名单`);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">等候名单</h1>
+          <p className="text-gray-500">预约取消、删除或重复预约结束后，会按偏好推荐合适的等候个案</p>
+        </div>
+        <select
+          value=""
+          onChange={e => setEditing(addable.find(c => c.id === e.target.value) ?? null)}
+          disabled={addable.length === 0}
+          className="bg-white border border-gray-200 rounded-lg text-sm px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          <option value="">{addable.length ? '+ 加入等候名单…' : '没有可加入的 Potential 个案'}</option>
+          {addable.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-gray-50/50 flex items-center justify-between">
+          <h3 className="font-bold flex items-center gap-2">
+            <Hourglass className="w-5 h-5 text-blue-500" />
+            等候中
+          </h3>
+          <span className="text-sm text-gray-400">{waiting.length} 位</span>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {waiting.map(({ client, entry }) => (
+            <div key={client.id} className="group p-4 flex flex-wrap items-center gap-4">
+              <div className="flex-1 min-w-[220px] space-y-1">
+                <div className="flex items-center gap-2">
+                  <Link to={`/clients/${client.id}`} className="font-semibold text-blue-600 hover:underline">{client.name}</Link>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${URGENCY_COLORS[entry.urgency]}`}>
+                    {URGENCY_LABELS[entry.urgency]}
+                  </span>
+                  <span className="text-xs text-gray-400">{MODALITY_LABELS[entry.modality]}</span>
+                </div>
+                <p className="text-sm text-gray-600">{describePreference(entry)}</p>
+                {entry.notes && <p className="text-xs text-gray-400">{entry.notes}</p>}
+              </div>
+              <div className="text-right text-xs text-gray-500 shrink-0">
+                <p>加入于 {format(entry.addedAt, 'yyyy-MM-dd')}</p>
+                <p className="font-medium">已等待 {Math.max(0, differenceInCalendarDays(now, entry.addedAt))} 天</p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button onClick={() => setEditing(client)} className="p-2 text-gray-400 hover:text-blue-600 rounded-lg hover:bg-gray-50" title="编辑">
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleRemove(client)} className="p-2 text-gray-400 hover:text-red-500 rounded-lg hover:bg-gray-50" title="移出">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          {waiting.length === 0 && <p className="p-12 text-center text-sm text-gray-400">等候名单为空</p>}
+        </div>
+      </div>
+
+      {freedSlots.length > 0 && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b bg-gray-50/50 flex items-center justify-between">
+            <h3 className="font-bold flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-blue-500" />
+              空出的固定时段
+            </h3>
+            <span className="text-sm text-gray-400">前后 {FREED_SLOT_DAYS} 天内结束的重复预约</span>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {freedSlots.map(({ series, endedAt, startAt, endAt, matches }) => (
+              <div key={series.id} className="p-4 space-y-3">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <p className="font-semibold">{describeSlot(startAt)}–{format(endAt, 'HH:mm')}</p>
+                  <p className="text-xs text-gray-500">
+                    {clientName(series.clientId)} · {describeSeries(series)} · {endedAt > now ? '将于' : '已于'} {format(endedAt, 'yyyy-MM-dd')} 结束，{format(startAt, 'yyyy-MM-dd')} 起空出
+                  </p>
+                </div>
+                {matches.length === 0 && <p className="text-sm text-gray-400">暂无偏好符合的等候个案</p>}
+                {matches.slice(0, FREED_SLOT_MATCH_LIMIT).map(match => (
+                  <div key={match.client.id} className="flex items-center gap-3 pl-3 border-l-2 border-gray-100">
+                    <div className="flex-1 min-w-0 flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{match.client.name}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${URGENCY_COLORS[match.entry.urgency]}`}>
+                        {URGENCY_LABELS[match.entry.urgency]}
+                      </span>
+                      <span className="text-xs text-gray-400">
+                        {match.dayMatch ? '日期符合' : '日期不符'} · {match.timeMatch ? '时间符合' : '时间不符'}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => handleBook(match.client, startAt, endAt)}
+                      className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                    >
+                      <UserPlus className="w-4 h-4" />
+                      预约初始访谈
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <WaitlistForm key={editing.id} client={editing} onCancel={() => setEditing(null)} onSave={handleSave} />
+      )}
+    </div>
+  );
+};
+
+export default WaitlistView;
@@ -0,0 +1,75 @@
+import { differenceInDays, differenceInHours, format } from 'date-fns';
+import { AppState, Appointment, AppointmentStatus, Client, FileCategory, FileEntry } from './types';
+import { generateNoteContent, hashContent } from './templates';
+import { uuid } from './store';
+
+export interface PendingNote {
+  appointment: Appointment;
+  client?: Client;
+  note?: FileEntry; // Absent when the session has no note at all
+  since: number; // When the session ended
+}
+
+/**
+ * The session note generated for `appt`, linked to it and fingerprinting the
+ * template text so later edits can be told apart from the untouched draft.
+ */
+export const createSessionNote = (state: AppState, appt: Appointment): FileEntry => {
+  const client = state.clients.find(c => c.id === appt.clientId);
+  const content = generateNoteContent(state, appt.clientId, FileCategory.SessionNote, { appointment: appt });
+  return {
+    id: uuid(),
+    clientId: appt.clientId,
+    category: FileCategory.SessionNote,
+    title: `${client?.name || '个案'} 记录 ${format(appt.startAt, 'yyyy-MM-dd HH-mm')}`,
+    ext: 'md',
+    content,
+    relatedAppointmentId: appt.id,
+    templateHash: hashContent(content),
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+};
+
+// Notes generated before fingerprints were kept count as untouched until first saved
+export const isUntouchedNote = (note: FileEntry) =>
+  note.templateHash !== undefined
+    ? hashContent(note.content) === note.templateHash
+    : note.updatedAt === note.createdAt;
+
+/**
+ * Completed sessions still waiting on their note: none was written, or the
+ * generated one is unchanged and has not been finalized. Sessions that ended
+ * before `notesQueueSince` are left out. Oldest first.
+ */
+export const pendingNotes = (state: AppState): PendingNote[] => {
+  const notesByAppt = new Map<string, FileEntry>();
+  state.files.forEach(f => {
+    if (f.category === FileCategory.SessionNote && f.relatedAppointmentId) notesByAppt.set(f.relatedAppointmentId, f);
+  });
+  const clients = new Map(state.clients.map(c => [c.id, c]));
+
+  return state.appointments
+    .filter(a => a.status === AppointmentStatus.Completed && a.endAt >= state.settings.notesQueueSince)
+    .map(appointment => ({
+      appointment,
+      client: clients.get(appointment.clientId),
+      note: notesByAppt.get(appointment.id),
+      since: appointment.endAt,
+    }))
+    .filter(p => !p.note || (!p.note.finalizedAt && isUntouchedNote(p.note)))
+    .sort((a, b) => a.since - b.since);
+};
+
+export const outstandingFor = (since: number, now = Date.now()) => {
+  const days = differenceInDays(now, since);
+  if (days >= 1) return `${days} 天`;
+  const hours = differenceInHours(now, since);
+  return hours >= 1 ? `${hours} 小时` : '不到 1 小时';
+};
+
+// Undefined reopens the note
+export const setNoteFinalized = (state: AppState, fileId: string, finalizedAt: number | undefined): AppState => ({
+  ...state,
+  files: state.files.map(f => f.id === fileId ? { ...f, finalizedAt, updatedAt: Date.now() } : f),
+});
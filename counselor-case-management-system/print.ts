@@ -0,0 +1,33 @@
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const PRINT_STYLES = `
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111827; margin: 32px; font-size: 13px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .muted { color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+  th { background: #f9fafb; font-weight: 600; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .summary td { border: none; padding: 2px 8px; }
+  @media print { body { margin: 0; } }
+`;
+
+// A standalone HTML page, suitable for saving as a file or printing
+export const printableDocument = (title: string, body: string) =>
+  `<!DOCTYPE html><html lang="zh-CN"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+  `<style>${PRINT_STYLES}</style></head><body>${body}</body></html>`;
+
+/**
+ * Opens the document in a new window and brings up the print dialog, where it
+ * can also be saved as PDF. Returns false when a popup blocker stopped it.
+ */
+export const printDocument = (title: string, body: string) => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(printableDocument(title, body));
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
@@ -0,0 +1,28 @@
+export interface RecordChange<T extends { id: string }> {
+  id: string;
+  before?: T; // Missing when the record was added
+  after?: T; // Missing when it was removed
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+/**
+ * Records added, replaced or removed between two versions of a collection.
+ * State updates are immutable, so an unchanged record keeps its identity and
+ * comparing references is enough.
+ */
+export const diffRecords = <T extends { id: string }>(before: T[], after: T[]): RecordChange<T>[] => {
+  if (before === after) return [];
+  const beforeById = new Map(before.map((r, i) => [r.id, i]));
+  const afterById = new Map(after.map((r, i) => [r.id, i]));
+  const changes: RecordChange<T>[] = [];
+  after.forEach((record, afterIndex) => {
+    const beforeIndex = beforeById.get(record.id);
+    if (beforeIndex !== undefined && before[beforeIndex] === record) return;
+    changes.push({ id: record.id, before: beforeIndex === undefined ? undefined : before[beforeIndex], after: record, beforeIndex: beforeIndex ?? -1, afterIndex });
+  });
+  before.forEach((record, beforeIndex) => {
+    if (!afterById.has(record.id)) changes.push({ id: record.id, before: record, beforeIndex, afterIndex: -1 });
+  });
+  return changes;
+};
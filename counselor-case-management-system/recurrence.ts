@@ -0,0 +1,452 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, startOfWeek } from 'date-fns';
+import { AppState, Appointment, AppointmentStatus, BusyBlock, RecurringSeries } from './types';
+import { uuid } from './store';
+
+export type SeriesScope = 'this' | 'following' | 'all';
+
+export type RRuleFreq = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RRule {
+  freq: RRuleFreq;
+  interval: number;
+  byDay: string[];
+  count?: number;
+  until?: number;
+}
+
+// RFC5545 weekday tokens, ordered from WKST=MO
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const WEEKDAY_LABELS: Record<string, string> = {
+  MO: '周一', TU: '周二', WE: '周三', TH: '周四', FR: '周五', SA: '周六', SU: '周日'
+};
+
+// Guards against runaway expansion of malformed or unbounded rules
+const MAX_ITERATIONS = 10000;
+
+export const weekdayOf = (at: number | Date) => WEEKDAYS[(new Date(at).getDay() + 6) % 7];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// e.g. "周三 14:00"
+export const describeSlot = (at: number) => {
+  const d = new Date(at);
+  return `${WEEKDAY_LABELS[weekdayOf(d)]} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const parseUntil = (value: string): number | undefined => {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return undefined;
+  const [, y, mo, d, h, mi, s, utc] = m;
+  // A date-only UNTIL is inclusive of the whole day
+  if (h === undefined) return new Date(+y, +mo - 1, +d, 23, 59, 59).getTime();
+  return utc
+    ? Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s).getTime();
+};
+
+export const formatUntil = (at: number) => {
+  const d = new Date(at);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+export const parseRRule = (rrule: string): RRule | null => {
+  const parts: Record<string, string> = {};
+  rrule.replace(/^RRULE:/i, '').split(';').forEach(piece => {
+    const [k, v] = piece.split('=');
+    if (k && v) parts[k.trim().toUpperCase()] = v.trim().toUpperCase();
+  });
+  const freq = parts.FREQ as RRuleFreq;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(freq)) return null;
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    byDay: parts.BYDAY ? parts.BYDAY.split(',').filter(d => WEEKDAYS.includes(d)) : [],
+    count: parts.COUNT ? Number(parts.COUNT) || undefined : undefined,
+    until: parts.UNTIL ? parseUntil(parts.UNTIL) : undefined,
+  };
+};
+
+export const buildRRule = (rule: RRule) => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(';');
+};
+
+// The explicit untilAt/count fields take precedence over UNTIL/COUNT inside the rrule string
+export const getSeriesRule = (series: RecurringSeries): RRule | null => {
+  const rule = parseRRule(series.rrule);
+  if (!rule) return null;
+  return {
+    ...rule,
+    count: series.count ?? rule.count,
+    until: series.untilAt ?? rule.until,
+  };
+};
+
+const atTimeOf = (day: Date, time: Date) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), time.getHours(), time.getMinutes(), time.getSeconds()).getTime();
+
+function* candidates(rule: RRule, start: Date): Generator<number> {
+  if (rule.freq === 'DAILY') {
+    for (let i = 0; ; i += rule.interval) yield atTimeOf(addDays(start, i), start);
+  }
+  if (rule.freq === 'WEEKLY') {
+    const weekStart = startOfWeek(start, { weekStartsOn: 1 });
+    const days = (rule.byDay.length ? rule.byDay : [weekdayOf(start)])
+      .map(d => WEEKDAYS.indexOf(d))
+      .sort((a, b) => a - b);
+    for (let w = 0; ; w += rule.interval) {
+      const base = addWeeks(weekStart, w);
+      for (const d of days) yield atTimeOf(addDays(base, d), start);
+    }
+  }
+  if (rule.freq === 'MONTHLY') {
+    for (let i = 0; ; i += rule.interval) {
+      const day = addMonths(start, i);
+      // date-fns clamps the 31st to shorter months; RFC5545 skips them instead
+      if (day.getDate() === start.getDate()) yield atTimeOf(day, start);
+    }
+  }
+}
+
+/**
+ * Yields every occurrence start of a series in order, honouring COUNT and UNTIL.
+ * EXDATEs are not removed here, since they still count towards COUNT.
+ */
+export function* occurrences(series: RecurringSeries): Generator<number> {
+  const rule = getSeriesRule(series);
+  if (!rule) return;
+  let produced = 0;
+  let iterations = 0;
+  for (const at of candidates(rule, new Date(series.dtstart))) {
+    if (++iterations > MAX_ITERATIONS) return;
+    if (at < series.dtstart) continue;
+    if (rule.until !== undefined && at > rule.until) return;
+    yield at;
+    produced += 1;
+    if (rule.count && produced >= rule.count) return;
+  }
+}
+
+export const expandSeries = (series: RecurringSeries, rangeStart: number, rangeEnd: number): number[] => {
+  const exdates = new Set(series.exdates || []);
+  const result: number[] = [];
+  for (const at of occurrences(series)) {
+    if (at >= rangeEnd) break;
+    if (at >= rangeStart && !exdates.has(at)) result.push(at);
+  }
+  return result;
+};
+
+// Start of the last occurrence of a series ended by COUNT or UNTIL; undefined while it runs on
+export const lastOccurrenceOf = (series: RecurringSeries): number | undefined => {
+  const rule = getSeriesRule(series);
+  if (!rule || (!rule.count && rule.until === undefined)) return undefined;
+  let last: number | undefined;
+  for (const at of occurrences(series)) last = at;
+  return last;
+};
+
+/**
+ * The first start at or after `after` in the slot a series holds, with COUNT
+ * and UNTIL ignored. Once a series has ended or been cut short, this is the
+ * slot it gave up.
+ */
+export const nextSlotOf = (series: RecurringSeries, after: number): number | undefined => {
+  const rule = getSeriesRule(series);
+  if (!rule) return undefined;
+  const openEnded = {
+    ...series,
+    rrule: buildRRule({ ...rule, count: undefined, until: undefined }),
+    untilAt: undefined,
+    count: undefined,
+  };
+  for (const at of occurrences(openEnded)) {
+    if (at >= after) return at;
+  }
+  return undefined;
+};
+
+const countBefore = (series: RecurringSeries, at: number) => {
+  let n = 0;
+  for (const occ of occurrences(series)) {
+    if (occ >= at) break;
+    n += 1;
+  }
+  return n;
+};
+
+export const instanceId = (seriesId: string, at: number) => `${seriesId}:${at}`;
+
+const toInstance = (series: RecurringSeries, at: number): Appointment => ({
+  id: instanceId(series.id, at),
+  clientId: series.clientId,
+  startAt: at,
+  endAt: at + series.durationMin * 60 * 1000,
+  status: AppointmentStatus.Scheduled,
+  recurringSeriesId: series.id,
+  originalInstanceAt: at,
+  createdAt: series.createdAt,
+  updatedAt: series.updatedAt,
+});
+
+/**
+ * Stored appointments plus the series instances in range that have no stored
+ * exception yet. Exceptions are matched through recurringSeriesId + originalInstanceAt.
+ */
+export const getAppointmentsInRange = (state: AppState, rangeStart: number, rangeEnd: number): Appointment[] => {
+  const stored = state.appointments.filter(a => a.startAt < rangeEnd && a.endAt > rangeStart);
+  const exceptions = new Set(
+    state.appointments
+      .filter(a => a.recurringSeriesId && a.originalInstanceAt !== undefined)
+      .map(a => instanceId(a.recurringSeriesId!, a.originalInstanceAt!))
+  );
+  const generated = state.recurringSeries.flatMap(series =>
+    expandSeries(series, rangeStart, rangeEnd)
+      .filter(at => !exceptions.has(instanceId(series.id, at)))
+      .map(at => toInstance(series, at))
+  );
+  return [...stored, ...generated];
+};
+
+export interface BusyInstance {
+  id: string;
+  block: BusyBlock;
+  startAt: number;
+  endAt: number;
+}
+
+// Busy blocks reuse the series expansion; they just belong to no client
+const busyAsSeries = (block: BusyBlock): RecurringSeries => ({
+  id: block.id,
+  clientId: '',
+  rrule: block.rrule!,
+  dtstart: block.startAt,
+  durationMin: (block.endAt - block.startAt) / 60000,
+  untilAt: block.untilAt,
+  count: block.count,
+  exdates: block.exdates,
+  createdAt: block.createdAt,
+  updatedAt: block.updatedAt,
+});
+
+export const getBusyInRange = (state: AppState, rangeStart: number, rangeEnd: number): BusyInstance[] =>
+  state.busyBlocks.flatMap(block => {
+    if (!block.rrule) {
+      return block.startAt < rangeEnd && block.endAt > rangeStart
+        ? [{ id: block.id, block, startAt: block.startAt, endAt: block.endAt }]
+        : [];
+    }
+    const duration = block.endAt - block.startAt;
+    // An occurrence that starts before the range can still reach into it (e.g. all-day blocks)
+    return expandSeries(busyAsSeries(block), rangeStart - duration, rangeEnd)
+      .filter(at => at + duration > rangeStart)
+      .map(at => ({ id: instanceId(block.id, at), block, startAt: at, endAt: at + duration }));
+  });
+
+export const isGeneratedInstance = (state: AppState, appt: Appointment) =>
+  !state.appointments.some(a => a.id === appt.id);
+
+// Turns a generated instance into a stored exception so it can carry its own status and times
+export const materializeInstance = (state: AppState, instance: Appointment): [AppState, Appointment] => {
+  const existing = state.appointments.find(a => a.id === instance.id);
+  if (existing) return [state, existing];
+  const appt: Appointment = { ...instance, id: uuid(), createdAt: Date.now(), updatedAt: Date.now() };
+  return [{ ...state, appointments: [...state.appointments, appt] }, appt];
+};
+
+// Ends a series right before `at`; returns null when no occurrence would remain
+const truncateSeries = (series: RecurringSeries, at: number): RecurringSeries | null => {
+  if (countBefore(series, at) === 0) return null;
+  const rule = getSeriesRule(series)!;
+  const untilAt = at - 1;
+  return {
+    ...series,
+    rrule: buildRRule({ ...rule, count: undefined, until: undefined }),
+    untilAt: rule.until !== undefined && rule.until < untilAt ? rule.until : untilAt,
+    count: undefined,
+    exdates: series.exdates?.filter(d => d < at),
+    updatedAt: Date.now(),
+  };
+};
+
+const replaceSeries = (state: AppState, seriesId: string, next: RecurringSeries[]) => ({
+  ...state,
+  recurringSeries: [...state.recurringSeries.filter(s => s.id !== seriesId), ...next],
+});
+
+const fromOf = (instance: Appointment, scope: SeriesScope) =>
+  scope === 'all' ? -Infinity : instance.originalInstanceAt ?? instance.startAt;
+
+// Canceling or deleting "all" keeps the occurrences that already took place: they are part of the record
+const removeFromOf = (instance: Appointment, scope: SeriesScope, now: number) =>
+  scope === 'all' ? now : fromOf(instance, scope);
+
+/**
+ * Moves one, the following or all occurrences of a series by the same offset
+ * the given instance was moved by. Stored exceptions are carried along.
+ */
+export const rescheduleSeries = (
+  state: AppState,
+  instance: Appointment,
+  scope: SeriesScope,
+  newStart: number,
+  newEnd: number
+): AppState => {
+  const series = state.recurringSeries.find(s => s.id === instance.recurringSeriesId);
+  if (!series || scope === 'this') {
+    const [next, appt] = materializeInstance(state, instance);
+    return {
+      ...next,
+      appointments: next.appointments.map(a => a.id === appt.id ? { ...a, startAt: newStart, endAt: newEnd, updatedAt: Date.now() } : a),
+    };
+  }
+
+  const rule = getSeriesRule(series)!;
+  // Measured from the slot the rule generated, so an already moved exception does not skew the shift
+  const anchor = instance.originalInstanceAt ?? instance.startAt;
+  const delta = newStart - anchor;
+  const dayDelta = differenceInCalendarDays(newStart, anchor);
+  const durationMin = Math.round((newEnd - newStart) / 60000);
+  const from = fromOf(instance, scope);
+  const kept = from === -Infinity ? null : truncateSeries(series, from);
+  const shifted: RecurringSeries = {
+    ...series,
+    id: kept ? uuid() : series.id,
+    dtstart: (kept ? from : series.dtstart) + delta,
+    rrule: buildRRule({
+      ...rule,
+      byDay: rule.byDay.map(d => WEEKDAYS[(WEEKDAYS.indexOf(d) + dayDelta % 7 + 7) % 7]),
+      count: undefined,
+      until: undefined,
+    }),
+    durationMin,
+    untilAt: rule.until,
+    count: rule.count !== undefined && kept ? rule.count - countBefore(series, from) : rule.count,
+    exdates: series.exdates?.filter(d => d >= from).map(d => d + delta),
+    createdAt: kept ? Date.now() : series.createdAt,
+    updatedAt: Date.now(),
+  };
+
+  const next = replaceSeries(state, series.id, kept ? [kept, shifted] : [shifted]);
+  return {
+    ...next,
+    appointments: next.appointments.map(a => {
+      if (a.recurringSeriesId !== series.id || (a.originalInstanceAt ?? a.startAt) < from) return a;
+      const moved = { ...a, recurringSeriesId: shifted.id, originalInstanceAt: (a.originalInstanceAt ?? a.startAt) + delta, updatedAt: Date.now() };
+      if (a.status !== AppointmentStatus.Scheduled) return moved;
+      if (a.id === instance.id) return { ...moved, startAt: newStart, endAt: newEnd };
+      const startAt = a.startAt + delta;
+      return { ...moved, startAt, endAt: startAt + durationMin * 60 * 1000 };
+    }),
+  };
+};
+
+export const cancelSeries = (state: AppState, instance: Appointment, scope: SeriesScope, now = Date.now()): AppState => {
+  const [materialized, appt] = materializeInstance(state, instance);
+  let next: AppState = {
+    ...materialized,
+    appointments: materialized.appointments.map(a => a.id === appt.id ? { ...a, status: AppointmentStatus.Canceled, updatedAt: Date.now() } : a),
+  };
+  const series = next.recurringSeries.find(s => s.id === instance.recurringSeriesId);
+  if (!series || scope === 'this') return next;
+
+  const from = removeFromOf(instance, scope, now);
+  const kept = truncateSeries(series, from);
+  next = replaceSeries(next, series.id, kept ? [kept] : []);
+  return {
+    ...next,
+    appointments: next.appointments.map(a =>
+      a.recurringSeriesId === series.id && a.status === AppointmentStatus.Scheduled && (a.originalInstanceAt ?? a.startAt) >= from
+        ? { ...a, status: AppointmentStatus.Canceled, updatedAt: Date.now() }
+        : a
+    ),
+  };
+};
+
+export const deleteFromSeries = (state: AppState, instance: Appointment, scope: SeriesScope, now = Date.now()): AppState => {
+  const series = state.recurringSeries.find(s => s.id === instance.recurringSeriesId);
+  const withoutInstance = { ...state, appointments: state.appointments.filter(a => a.id !== instance.id) };
+  if (!series) return withoutInstance;
+
+  if (scope === 'this') {
+    const at = instance.originalInstanceAt ?? instance.startAt;
+    return {
+      ...withoutInstance,
+      recurringSeries: withoutInstance.recurringSeries.map(s => s.id === series.id
+        ? { ...s, exdates: [...(s.exdates || []), at], updatedAt: Date.now() }
+        : s),
+    };
+  }
+
+  const from = removeFromOf(instance, scope, now);
+  const kept = truncateSeries(series, from);
+  const next = replaceSeries(withoutInstance, series.id, kept ? [kept] : []);
+  // Completed sessions stay: they are the clinical record
+  return {
+    ...next,
+    appointments: next.appointments.filter(a =>
+      a.recurringSeriesId !== series.id || a.status === AppointmentStatus.Completed || (a.originalInstanceAt ?? a.startAt) < from
+    ),
+  };
+};
+
+export const createWeeklySeries = (
+  clientId: string,
+  start: Date,
+  durationMin: number,
+  interval: number,
+  end: { untilAt?: number; count?: number }
+): RecurringSeries => ({
+  id: uuid(),
+  clientId,
+  rrule: buildRRule({ freq: 'WEEKLY', interval, byDay: [weekdayOf(start)] }),
+  dtstart: start.getTime(),
+  durationMin,
+  untilAt: end.untilAt,
+  count: end.count,
+  exdates: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const describeSeries = (series: RecurringSeries) => {
+  const rule = getSeriesRule(series);
+  if (!rule) return '自定义重复';
+  const days = (rule.byDay.length ? rule.byDay : [weekdayOf(series.dtstart)]).map(d => WEEKDAY_LABELS[d]).join('、');
+  const every = rule.interval === 1 ? '每' : rule.interval === 2 ? '每两' : `每 ${rule.interval} `;
+  const base = rule.freq === 'DAILY'
+    ? `${every}天`
+    : rule.freq === 'MONTHLY'
+    ? `${every}月 ${new Date(series.dtstart).getDate()} 日`
+    : `${every}周 ${days}`;
+  if (rule.count) return `${base}，共 ${rule.count} 次`;
+  if (rule.until !== undefined) {
+    const d = new Date(rule.until);
+    return `${base}，至 ${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  }
+  return base;
+};
+
+export const getNextInstanceAt = (state: AppState, clientId: string, after: number): number | undefined => {
+  const exceptions = new Set(
+    state.appointments
+      .filter(a => a.recurringSeriesId && a.originalInstanceAt !== undefined)
+      .map(a => instanceId(a.recurringSeriesId!, a.originalInstanceAt!))
+  );
+  let next: number | undefined;
+  state.recurringSeries.filter(s => s.clientId === clientId).forEach(series => {
+    const exdates = new Set(series.exdates || []);
+    for (const at of occurrences(series)) {
+      if (next !== undefined && at >= next) break;
+      if (at > after && !exdates.has(at) && !exceptions.has(instanceId(series.id, at))) {
+        next = at;
+        break;
+      }
+    }
+  });
+  return next;
+};
@@ -0,0 +1,159 @@
+import { addHours, differenceInMinutes, endOfDay, format, startOfDay } from 'date-fns';
+import { AppState, Appointment, AppointmentStatus } from './types';
+import { getAppointmentsInRange } from './recurrence';
+import { clientLabel, eventTitle } from './ics';
+import { pendingNotes } from './pendingNotes';
+import { overdueFollowUps } from './risk';
+
+export const REMINDER_LEAD_OPTIONS = [5, 10, 15, 30, 60, 120, 1440];
+
+// How often App looks for due reminders
+export const REMINDER_CHECK_MS = 30 * 1000;
+
+// The digest is only worth sending in the morning it was meant for
+const DIGEST_WINDOW_HOURS = 4;
+
+const SENT_STORAGE_KEY = 'counselor_reminders_sent';
+const SENT_KEEP_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface Reminder {
+  key: string; // Each key is delivered once per device
+  title: string;
+  body: string;
+  link: string; // Route to open; appointment reminders link via `appointment` instead
+  appointment?: Appointment;
+}
+
+export const formatLead = (minutes: number) =>
+  minutes % 1440 === 0 ? `${minutes / 1440} 天`
+  : minutes % 60 === 0 ? `${minutes / 60} 小时`
+  : `${minutes} 分钟`;
+
+const appointmentReminders = (state: AppState, now: number): Reminder[] => {
+  const leads = state.settings.reminderLeadMinutes;
+  if (leads.length === 0) return [];
+  const privacy = state.settings.reminderPrivacy;
+  return getAppointmentsInRange(state, now, now + Math.max(...leads) * 60000)
+    .filter(a => a.status === AppointmentStatus.Scheduled && a.startAt > now)
+    .flatMap(a => {
+      // Only the nearest lead that has passed fires, so opening the app late gives one reminder, not several
+      const passed = leads.filter(lead => a.startAt - lead * 60000 <= now);
+      if (passed.length === 0) return [];
+      const lead = Math.min(...passed);
+      const client = state.clients.find(c => c.id === a.clientId);
+      return [{
+        key: `appt:${a.id}:${a.startAt}:${lead}`,
+        title: `${eventTitle(client, privacy)} · ${format(a.startAt, 'HH:mm')} 开始`,
+        body: `还有 ${Math.max(1, differenceInMinutes(a.startAt, now))} 分钟，${format(a.startAt, 'HH:mm')}–${format(a.endAt, 'HH:mm')}`,
+        link: '/',
+        appointment: a,
+      }];
+    });
+};
+
+// One reminder a day while any note is overdue
+const noteReminders = (state: AppState, now: number, today: string): Reminder[] => {
+  const hours = state.settings.reminderNoteHours;
+  const overdue = pendingNotes(state).filter(p => now - p.since >= hours * 3600000);
+  if (overdue.length === 0) return [];
+  return [{
+    key: `notes:${today}`,
+    title: '待完成记录',
+    body: `${overdue.length} 份咨询记录在咨询结束 ${hours} 小时后仍未完成`,
+    link: '/notes',
+  }];
+};
+
+const riskReminders = (state: AppState, now: number, today: string): Reminder[] =>
+  overdueFollowUps(state, now).map(({ clientId, appointment, assessment }) => {
+    const client = state.clients.find(c => c.id === clientId);
+    return {
+      key: `risk:${appointment.id}:${today}`,
+      title: '风险跟进已逾期',
+      body: `${client ? clientLabel(client, state.settings.reminderPrivacy) : '个案'} 应于 ${format(assessment.followUpBy!, 'yyyy-MM-dd')} 前完成跟进`,
+      link: '/stats',
+    };
+  });
+
+const digestReminder = (state: AppState, now: number, today: string): Reminder[] => {
+  const [hours, minutes] = state.settings.reminderDigestTime.split(':').map(Number);
+  const digestAt = startOfDay(now).getTime() + ((hours || 0) * 60 + (minutes || 0)) * 60000;
+  if (now < digestAt || now >= addHours(digestAt, DIGEST_WINDOW_HOURS).getTime()) return [];
+  const sessions = getAppointmentsInRange(state, startOfDay(now).getTime(), endOfDay(now).getTime())
+    .filter(a => a.status !== AppointmentStatus.Canceled)
+    .sort((a, b) => a.startAt - b.startAt);
+  const privacy = state.settings.reminderPrivacy;
+  return [{
+    key: `digest:${today}`,
+    title: sessions.length ? `今日安排：${sessions.length} 场咨询` : '今日没有安排咨询',
+    body: sessions
+      .map(a => `${format(a.startAt, 'HH:mm')} ${eventTitle(state.clients.find(c => c.id === a.clientId), privacy)}`)
+      .join('\n'),
+    link: '/',
+  }];
+};
+
+/**
+ * Everything that should be showing right now according to the reminder
+ * settings, whether or not it was already delivered.
+ */
+export const dueReminders = (state: AppState, now = Date.now()): Reminder[] => {
+  const settings = state.settings;
+  if (!settings.reminderEnabled) return [];
+  const today = format(now, 'yyyy-MM-dd');
+  return [
+    ...(settings.reminderDigest ? digestReminder(state, now, today) : []),
+    ...appointmentReminders(state, now),
+    ...(settings.reminderRiskFollowUps ? riskReminders(state, now, today) : []),
+    ...(settings.reminderOverdueNotes ? noteReminders(state, now, today) : []),
+  ];
+};
+
+// Delivered keys live on this device only, so each browser reminds once on its own
+const loadSent = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(SENT_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Due reminders not delivered before; they are recorded as delivered on return
+export const takeDueReminders = (state: AppState, now = Date.now()): Reminder[] => {
+  const sent = loadSent();
+  const fresh = dueReminders(state, now).filter(r => !(r.key in sent));
+  if (fresh.length === 0) return [];
+  const kept = Object.fromEntries(Object.entries(sent).filter(([, at]) => now - at < SENT_KEEP_MS));
+  fresh.forEach(r => { kept[r.key] = now; });
+  try {
+    localStorage.setItem(SENT_STORAGE_KEY, JSON.stringify(kept));
+  } catch (e) {
+    console.error('Failed to record delivered reminders', e);
+  }
+  return fresh;
+};
+
+export type NotificationSupport = NotificationPermission | 'unsupported';
+
+export const notificationSupport = (): NotificationSupport =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+export const requestNotificationPermission = async (): Promise<NotificationSupport> =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.requestPermission();
+
+// False when the browser cannot show it, so the caller falls back to an in-app banner
+export const showNotification = (reminder: Reminder, onClick: () => void) => {
+  if (notificationSupport() !== 'granted') return false;
+  try {
+    const notification = new Notification(reminder.title, { body: reminder.body, tag: reminder.key });
+    notification.onclick = () => {
+      window.focus();
+      onClick();
+      notification.close();
+    };
+    return true;
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker
+    return false;
+  }
+};
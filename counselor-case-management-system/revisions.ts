@@ -0,0 +1,116 @@
+import { AppState, NoteRevision } from './types';
+import { uuid } from './store';
+
+export interface DiffLine {
+  type: 'same' | 'add' | 'del';
+  text: string;
+  oldNo?: number; // 1-based line number in the older text
+  newNo?: number; // 1-based line number in the newer text
+}
+
+export type RevisionPolicy = Pick<AppState['settings'], 'revisionKeepCount' | 'revisionKeepDays'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Newest first; revisions are appended, so of two saved in the same millisecond the later one wins
+const newestFirst = (revisions: NoteRevision[]) => [...revisions].reverse().sort((a, b) => b.createdAt - a.createdAt);
+
+export const revisionsOf = (state: AppState, fileId: string) =>
+  newestFirst(state.noteRevisions.filter(r => r.fileId === fileId));
+
+/**
+ * Applies the retention policy to the revisions of one note, or of all notes
+ * when `fileId` is omitted. The newest revision of a note is always kept.
+ */
+export const pruneRevisions = (revisions: NoteRevision[], policy: RevisionPolicy, now: number, fileId?: string) => {
+  const byFile = new Map<string, NoteRevision[]>();
+  revisions.forEach(r => {
+    if (fileId && r.fileId !== fileId) return;
+    byFile.set(r.fileId, [...(byFile.get(r.fileId) || []), r]);
+  });
+  const pruned = new Set<string>();
+  byFile.forEach(list => {
+    newestFirst(list).forEach((r, i) => {
+      if (i === 0) return;
+      const tooMany = policy.revisionKeepCount > 0 && i >= policy.revisionKeepCount;
+      const tooOld = policy.revisionKeepDays > 0 && r.createdAt < now - policy.revisionKeepDays * DAY_MS;
+      if (tooMany || tooOld) pruned.add(r.id);
+    });
+  });
+  return pruned.size ? revisions.filter(r => !pruned.has(r.id)) : revisions;
+};
+
+/**
+ * Writes new content to a note and keeps it as a revision. The first save of
+ * a note that has no history yet also keeps the content it replaces.
+ */
+export const saveNoteContent = (state: AppState, fileId: string, content: string, label?: string): AppState => {
+  const file = state.files.find(f => f.id === fileId);
+  if (!file || file.content === content) return state;
+  const now = Date.now();
+  const revision = (text: string, at: number, revisionLabel?: string): NoteRevision => ({
+    id: uuid(),
+    fileId,
+    clientId: file.clientId,
+    content: text,
+    ...(revisionLabel ? { label: revisionLabel } : {}),
+    createdAt: at,
+    updatedAt: at,
+  });
+
+  const added = [revision(content, now, label)];
+  if (file.content.trim() && !state.noteRevisions.some(r => r.fileId === fileId)) {
+    added.unshift(revision(file.content, Math.min(file.updatedAt, now - 1), '首次保存前的内容'));
+  }
+
+  return {
+    ...state,
+    files: state.files.map(f => f.id === fileId ? { ...f, content, updatedAt: now } : f),
+    noteRevisions: pruneRevisions([...state.noteRevisions, ...added], state.settings, now, fileId),
+  };
+};
+
+export const deleteNoteRevisions = (state: AppState, fileId: string): AppState => ({
+  ...state,
+  noteRevisions: state.noteRevisions.filter(r => r.fileId !== fileId),
+});
+
+/**
+ * Line diff from the longest common subsequence. Notes are short enough for
+ * the quadratic table once the shared head and tail are trimmed.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  const same = (i: number, j: number) => out.push({ type: 'same', text: a[i], oldNo: i + 1, newNo: j + 1 });
+  for (let k = 0; k < head; k++) same(k, k);
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      same(head + i++, head + j++);
+    } else if (i < midA.length && (j >= midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      out.push({ type: 'del', text: midA[i], oldNo: head + i++ + 1 });
+    } else {
+      out.push({ type: 'add', text: midB[j], newNo: head + j++ + 1 });
+    }
+  }
+  for (let k = tail; k > 0; k--) same(a.length - k, b.length - k);
+  return out;
+};
@@ -0,0 +1,108 @@
+import { addDays, startOfDay } from 'date-fns';
+import { AppState, Appointment, AppointmentStatus, ClientStatus, RiskAssessment, RiskLevel } from './types';
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  [RiskLevel.None]: '无风险',
+  [RiskLevel.Low]: '低风险',
+  [RiskLevel.Moderate]: '中风险',
+  [RiskLevel.High]: '高风险',
+};
+
+export const RISK_LEVEL_COLORS: Record<RiskLevel, string> = {
+  [RiskLevel.None]: 'bg-gray-50 text-gray-600 border-gray-200',
+  [RiskLevel.Low]: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  [RiskLevel.Moderate]: 'bg-orange-50 text-orange-700 border-orange-200',
+  [RiskLevel.High]: 'bg-red-50 text-red-700 border-red-200',
+};
+
+// Border of calendar events for clients at elevated risk
+export const RISK_EVENT_BORDER_COLORS: Partial<Record<RiskLevel, string>> = {
+  [RiskLevel.Moderate]: '#f97316',
+  [RiskLevel.High]: '#dc2626',
+};
+
+export const RISK_FACTORS = [
+  '自杀意念',
+  '自杀计划或准备',
+  '既往自杀尝试',
+  '自伤行为',
+  '伤害他人的想法',
+  '物质滥用',
+  '近期重大丧失或危机',
+  '缺乏社会支持',
+  '精神病性症状',
+];
+
+const RISK_ORDER = [RiskLevel.None, RiskLevel.Low, RiskLevel.Moderate, RiskLevel.High];
+
+// Days until the follow-up is due when the level is first chosen; Low and None need none
+const FOLLOW_UP_DAYS: Partial<Record<RiskLevel, number>> = {
+  [RiskLevel.Moderate]: 7,
+  [RiskLevel.High]: 1,
+};
+
+export interface ClientRisk {
+  clientId: string;
+  appointment: Appointment;
+  assessment: RiskAssessment;
+}
+
+export const isElevatedRisk = (level: RiskLevel) => level === RiskLevel.Moderate || level === RiskLevel.High;
+
+export const defaultFollowUpBy = (level: RiskLevel, sessionAt: number) => {
+  const days = FOLLOW_UP_DAYS[level];
+  return days === undefined ? undefined : startOfDay(addDays(sessionAt, days)).getTime();
+};
+
+// Due date passed without the follow-up being marked done
+export const isFollowUpOverdue = (assessment: RiskAssessment, now = Date.now()) =>
+  assessment.followUpBy !== undefined && !assessment.followUpDoneAt && addDays(assessment.followUpBy, 1).getTime() <= now;
+
+/**
+ * Each client's current risk: the assessment of their latest completed session
+ * that has one. A later assessment supersedes the follow-up of an earlier one.
+ */
+export const currentRisks = (state: AppState): Map<string, ClientRisk> => {
+  const risks = new Map<string, ClientRisk>();
+  state.appointments.forEach(appointment => {
+    if (appointment.status !== AppointmentStatus.Completed || !appointment.risk) return;
+    const current = risks.get(appointment.clientId);
+    if (current && current.appointment.startAt >= appointment.startAt) return;
+    risks.set(appointment.clientId, { clientId: appointment.clientId, appointment, assessment: appointment.risk });
+  });
+  return risks;
+};
+
+// Closed and referred clients are no longer in our care, so they drop off the dashboard
+const inCare = (state: AppState) => {
+  const active = new Set(state.clients
+    .filter(c => c.status !== ClientStatus.Closed && c.status !== ClientStatus.Referred)
+    .map(c => c.id));
+  return Array.from(currentRisks(state).values()).filter(r => active.has(r.clientId));
+};
+
+// Highest level first, then most recently assessed
+export const elevatedRisks = (state: AppState): ClientRisk[] =>
+  inCare(state)
+    .filter(r => isElevatedRisk(r.assessment.level))
+    .sort((a, b) =>
+      RISK_ORDER.indexOf(b.assessment.level) - RISK_ORDER.indexOf(a.assessment.level)
+      || b.appointment.startAt - a.appointment.startAt);
+
+// Longest overdue first
+export const overdueFollowUps = (state: AppState, now = Date.now()): ClientRisk[] =>
+  inCare(state)
+    .filter(r => isFollowUpOverdue(r.assessment, now))
+    .sort((a, b) => a.assessment.followUpBy! - b.assessment.followUpBy!);
+
+export const updateRisk = (state: AppState, apptId: string, risk: RiskAssessment | undefined): AppState => ({
+  ...state,
+  appointments: state.appointments.map(a => a.id === apptId ? { ...a, risk, updatedAt: Date.now() } : a),
+});
+
+export const completeFollowUp = (state: AppState, apptId: string): AppState => ({
+  ...state,
+  appointments: state.appointments.map(a => a.id === apptId && a.risk
+    ? { ...a, risk: { ...a.risk, followUpDoneAt: Date.now() }, updatedAt: Date.now() }
+    : a),
+});
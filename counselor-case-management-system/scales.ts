@@ -0,0 +1,165 @@
+import { AppState, AssessmentScale, ScaleOption, ScaleResult, SeverityBand } from './types';
+
+const FREQUENCY_OPTIONS: ScaleOption[] = [
+  { value: 0, label: '完全不会' },
+  { value: 1, label: '好几天' },
+  { value: 2, label: '一半以上的天数' },
+  { value: 3, label: '几乎每天' },
+];
+
+const builtIn = (scale: Omit<AssessmentScale, 'createdAt' | 'updatedAt'>): AssessmentScale =>
+  ({ ...scale, createdAt: 0, updatedAt: 0 });
+
+export const BUILT_IN_SCALES: AssessmentScale[] = [
+  builtIn({
+    id: 'phq-9',
+    name: 'PHQ-9',
+    description: '抑郁症状筛查。过去两周内，以下问题困扰你的频率？',
+    items: [
+      '做事时提不起劲或没有兴趣',
+      '感到心情低落、沮丧或绝望',
+      '入睡困难、睡不安稳或睡眠过多',
+      '感觉疲倦或没有活力',
+      '食欲不振或吃太多',
+      '觉得自己很糟，或觉得自己很失败，或让自己或家人失望',
+      '对事物专注有困难，例如阅读报纸或看电视时',
+      '动作或说话速度缓慢到别人已经察觉；或正好相反，烦躁或坐立不安、动来动去的情况更胜于平常',
+      '有不如死掉或用某种方式伤害自己的念头',
+    ],
+    options: FREQUENCY_OPTIONS,
+    bands: [
+      { min: 0, label: '无或极轻微' },
+      { min: 5, label: '轻度' },
+      { min: 10, label: '中度' },
+      { min: 15, label: '中重度' },
+      { min: 20, label: '重度' },
+    ],
+    flagItems: [8],
+  }),
+  builtIn({
+    id: 'gad-7',
+    name: 'GAD-7',
+    description: '焦虑症状筛查。过去两周内，以下问题困扰你的频率？',
+    items: [
+      '感觉紧张、焦虑或急切',
+      '不能够停止或控制担忧',
+      '对各种各样的事情担忧过多',
+      '很难放松下来',
+      '由于不安而无法静坐',
+      '变得容易烦恼或急躁',
+      '感到似乎将有可怕的事情发生而害怕',
+    ],
+    options: FREQUENCY_OPTIONS,
+    bands: [
+      { min: 0, label: '无或极轻微' },
+      { min: 5, label: '轻度' },
+      { min: 10, label: '中度' },
+      { min: 15, label: '重度' },
+    ],
+  }),
+  builtIn({
+    id: 'k10',
+    name: 'K10',
+    description: '心理困扰量表。过去 30 天里，你有多经常有以下感受？',
+    items: [
+      '无缘无故地感到疲倦',
+      '感到紧张',
+      '紧张得无论做什么都不能平静下来',
+      '感到绝望',
+      '感到坐立不安或烦躁',
+      '烦躁得坐不住',
+      '感到抑郁',
+      '感到做每件事都很费力',
+      '悲伤得无论怎样都高兴不起来',
+      '感到自己毫无价值',
+    ],
+    options: [
+      { value: 1, label: '几乎没有' },
+      { value: 2, label: '偶尔' },
+      { value: 3, label: '有时' },
+      { value: 4, label: '经常' },
+      { value: 5, label: '总是' },
+    ],
+    bands: [
+      { min: 10, label: '低' },
+      { min: 16, label: '中度' },
+      { min: 22, label: '高度' },
+      { min: 30, label: '极高' },
+    ],
+  }),
+];
+
+// Mildest to most severe; bands take colours spread across this range
+const BAND_COLORS = ['#10b981', '#84cc16', '#f59e0b', '#f97316', '#ef4444'];
+
+export const allScales = (state: AppState): AssessmentScale[] => [...BUILT_IN_SCALES, ...state.settings.customScales];
+
+// Custom scales still missing items or options cannot be administered yet
+export const isUsableScale = (scale: AssessmentScale) => scale.items.length > 0 && scale.options.length > 0;
+
+export const findScale = (state: AppState, scaleId: string) => allScales(state).find(s => s.id === scaleId);
+
+export const scoreRange = (scale: AssessmentScale) => {
+  const values = scale.options.map(o => o.value);
+  return {
+    min: Math.min(...values) * scale.items.length,
+    max: Math.max(...values) * scale.items.length,
+  };
+};
+
+export const scoreAnswers = (answers: number[]) => answers.reduce((sum, v) => sum + v, 0);
+
+const bandIndex = (bands: SeverityBand[], score: number) => {
+  const sorted = [...bands].sort((a, b) => a.min - b.min);
+  let index = -1;
+  sorted.forEach((band, i) => { if (score >= band.min) index = i; });
+  return { sorted, index };
+};
+
+export const severityOf = (scale: AssessmentScale | undefined, score: number): { label: string; color: string } | undefined => {
+  if (!scale || scale.bands.length === 0) return undefined;
+  const { sorted, index } = bandIndex(scale.bands, score);
+  if (index < 0) return undefined;
+  return { label: sorted[index].label, color: bandColor(index, sorted.length) };
+};
+
+export const bandColor = (index: number, count: number) =>
+  BAND_COLORS[count <= 1 ? 0 : Math.round(index * (BAND_COLORS.length - 1) / (count - 1))];
+
+// Bands as score ranges for shading a chart, clipped to what the scale can score
+export const bandRanges = (scale: AssessmentScale) => {
+  const { max } = scoreRange(scale);
+  const sorted = [...scale.bands].sort((a, b) => a.min - b.min);
+  return sorted.map((band, i) => ({
+    label: band.label,
+    from: band.min,
+    to: i + 1 < sorted.length ? sorted[i + 1].min : max,
+    color: bandColor(i, sorted.length),
+  }));
+};
+
+// Items answered above the scale's lowest option that the scale marks for attention
+export const flaggedItems = (scale: AssessmentScale | undefined, answers: number[]) => {
+  if (!scale?.flagItems?.length) return [];
+  const lowest = Math.min(...scale.options.map(o => o.value));
+  return scale.flagItems.filter(i => answers[i] !== undefined && answers[i] > lowest);
+};
+
+export const clientScaleResults = (state: AppState, clientId: string) =>
+  state.scaleResults
+    .filter(r => r.clientId === clientId)
+    .sort((a, b) => a.administeredAt - b.administeredAt);
+
+// Change from the first to the latest result of each scale
+export const scoreChange = (results: ScaleResult[]) =>
+  results.length < 2 ? undefined : results[results.length - 1].score - results[0].score;
+
+// Editable form of options and bands: one "<number> <label>" per line
+export const formatScoredLines = (entries: { value: number; label: string }[]) =>
+  entries.map(e => `${e.value} ${e.label}`).join('\n');
+
+export const parseScoredLines = (text: string) =>
+  text.split('\n')
+    .map(line => line.trim().match(/^(-?\d+(?:\.\d+)?)\s*[=:：]?\s*(.+)$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => ({ value: Number(m[1]), label: m[2].trim() }));
@@ -0,0 +1,143 @@
+import { addWeeks, format } from 'date-fns';
+import { AppState, AppointmentStatus, BlockedDateRange, RecurringSeries, WorkingHoursRange } from './types';
+import { describeSlot, expandSeries, getAppointmentsInRange, getBusyInRange } from './recurrence';
+
+export type PlacementIssueKind = 'overlap' | 'buffer' | 'busy' | 'hours' | 'blocked';
+
+export interface PlacementIssue {
+  kind: PlacementIssueKind;
+  message: string;
+}
+
+export interface Placement {
+  startAt: number;
+  endAt: number;
+  // The appointment being moved, so it never conflicts with itself
+  ignoreId?: string;
+  // Set when a whole series moves; its other occurrences move along
+  ignoreSeriesId?: string;
+}
+
+// How far ahead a new series is checked
+const SERIES_CHECK_WEEKS = 12;
+// Issues listed for a series before the rest are summarised
+const SERIES_ISSUE_LIMIT = 5;
+
+export const WEEKDAY_NAMES = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+export const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+const minutesOfDay = (d: Date) => d.getHours() * 60 + d.getMinutes();
+
+export const blockedRangeAt = (blocked: BlockedDateRange[], at: number) => {
+  const day = format(at, 'yyyy-MM-dd');
+  return blocked.find(b => b.start <= day && day <= (b.end || b.start));
+};
+
+// A session must fit inside one range of its weekday; no ranges means no rule
+export const isWithinWorkingHours = (hours: WorkingHoursRange[], startAt: number, endAt: number) => {
+  if (hours.length === 0) return true;
+  const start = new Date(startAt);
+  const end = new Date(endAt);
+  if (format(start, 'yyyy-MM-dd') !== format(endAt - 1, 'yyyy-MM-dd')) return false;
+  const from = minutesOfDay(start);
+  const to = minutesOfDay(end) || 24 * 60;
+  return hours.some(r => r.day === start.getDay() && toMinutes(r.start) <= from && to <= toMinutes(r.end));
+};
+
+export const describeWorkingDay = (hours: WorkingHoursRange[], day: number) => {
+  const ranges = hours.filter(r => r.day === day).map(r => `${r.start}–${r.end}`);
+  return `${WEEKDAY_NAMES[day]} ${ranges.length ? ranges.join('、') : '不接诊'}`;
+};
+
+/**
+ * Checks one session against the scheduling rules in settings: other sessions
+ * (plus the buffer), imported busy time, working hours and blocked dates.
+ */
+export const checkPlacement = (state: AppState, placement: Placement): PlacementIssue[] => {
+  const { startAt, endAt, ignoreId, ignoreSeriesId } = placement;
+  const { workingHours, bufferMinutes, blockedDates } = state.settings;
+  const buffer = bufferMinutes * 60 * 1000;
+  const issues: PlacementIssue[] = [];
+  const clientName = (clientId: string) => state.clients.find(c => c.id === clientId)?.name || '未知个案';
+
+  getAppointmentsInRange(state, startAt - buffer, endAt + buffer)
+    .filter(a =>
+      a.status !== AppointmentStatus.Canceled
+      && a.id !== ignoreId
+      && !(ignoreSeriesId && a.recurringSeriesId === ignoreSeriesId)
+    )
+    .sort((a, b) => a.startAt - b.startAt)
+    .forEach(a => {
+      const overlaps = a.startAt < endAt && a.endAt > startAt;
+      issues.push(overlaps
+        ? { kind: 'overlap', message: `与${clientName(a.clientId)} ${describeSlot(a.startAt)} 的预约重叠` }
+        : { kind: 'buffer', message: `与${clientName(a.clientId)} ${describeSlot(a.startAt)} 的预约间隔不足 ${bufferMinutes} 分钟` });
+    });
+
+  getBusyInRange(state, startAt, endAt).forEach(busy => {
+    issues.push({ kind: 'busy', message: `与外部日历的忙碌时段“${busy.block.title}”重叠` });
+  });
+
+  if (!isWithinWorkingHours(workingHours, startAt, endAt)) {
+    issues.push({ kind: 'hours', message: `超出工作时间（${describeWorkingDay(workingHours, new Date(startAt).getDay())}）` });
+  }
+
+  const blocked = blockedRangeAt(blockedDates, startAt);
+  if (blocked) {
+    issues.push({ kind: 'blocked', message: `${format(startAt, 'yyyy-MM-dd')} 为停诊日${blocked.reason ? `（${blocked.reason}）` : ''}` });
+  }
+
+  return issues;
+};
+
+// Checks the occurrences of a new series over the next few weeks
+export const checkSeriesPlacement = (state: AppState, series: RecurringSeries): PlacementIssue[] => {
+  const duration = series.durationMin * 60 * 1000;
+  const issues = expandSeries(series, series.dtstart, addWeeks(series.dtstart, SERIES_CHECK_WEEKS).getTime())
+    .flatMap(at => checkPlacement(state, { startAt: at, endAt: at + duration, ignoreSeriesId: series.id })
+      .map(issue => ({ ...issue, message: `${format(at, 'MM-dd')}：${issue.message}` })));
+  if (issues.length <= SERIES_ISSUE_LIMIT) return issues;
+  return [
+    ...issues.slice(0, SERIES_ISSUE_LIMIT),
+    { kind: issues[SERIES_ISSUE_LIMIT].kind, message: `另有 ${issues.length - SERIES_ISSUE_LIMIT} 处冲突` },
+  ];
+};
+
+/**
+ * FullCalendar `businessHours`: ranges sharing the same times are merged so
+ * each entry covers several weekdays.
+ */
+export const toBusinessHours = (hours: WorkingHoursRange[]) => {
+  const byTimes = new Map<string, { daysOfWeek: number[]; startTime: string; endTime: string }>();
+  hours.forEach(r => {
+    const key = `${r.start}-${r.end}`;
+    const entry = byTimes.get(key) || { daysOfWeek: [], startTime: r.start, endTime: r.end };
+    entry.daysOfWeek.push(r.day);
+    byTimes.set(key, entry);
+  });
+  return Array.from(byTimes.values());
+};
+
+const toHHmm = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+
+/**
+ * Visible time axis: the working hours padded by an hour, widened so that
+ * sessions booked outside them stay visible.
+ */
+export const visibleSlotRange = (hours: WorkingHoursRange[], sessions: { startAt: number; endAt: number }[]) => {
+  if (hours.length === 0) return { slotMinTime: '00:00:00', slotMaxTime: '24:00:00' };
+  let min = Math.max(0, Math.min(...hours.map(r => toMinutes(r.start))) - 60);
+  let max = Math.min(24 * 60, Math.max(...hours.map(r => toMinutes(r.end))) + 60);
+  sessions.forEach(s => {
+    min = Math.min(min, minutesOfDay(new Date(s.startAt)));
+    const sameDay = format(s.startAt, 'yyyy-MM-dd') === format(s.endAt - 1, 'yyyy-MM-dd');
+    max = Math.max(max, sameDay ? minutesOfDay(new Date(s.endAt)) || 24 * 60 : 24 * 60);
+  });
+  // Whole hours keep the grid labels tidy
+  return { slotMinTime: toHHmm(Math.floor(min / 60) * 60), slotMaxTime: toHHmm(Math.min(24 * 60, Math.ceil(max / 60) * 60)) };
+};
@@ -0,0 +1,212 @@
+import { addDays, format } from 'date-fns';
+import { AppState, Appointment, Client, FileEntry } from './types';
+import { getAppointmentsInRange } from './recurrence';
+
+export interface HighlightPart {
+  text: string;
+  hit: boolean;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+  field: string; // Label of the field the snippet comes from
+  snippet: HighlightPart[];
+}
+
+export interface SearchResults {
+  clients: SearchHit<Client>[];
+  notes: SearchHit<FileEntry>[];
+  appointments: SearchHit<Appointment>[];
+}
+
+interface Field {
+  label: string;
+  text: string;
+  weight: number;
+}
+
+interface Term {
+  text: string;
+  // Pieces of a CJK term to fall back on when it does not occur verbatim
+  parts: string[];
+}
+
+type Range = [start: number, end: number];
+
+const CJK = /[\u3400-\u9fff\uf900-\ufaff]/;
+const SNIPPET_RADIUS = 30;
+// Instances of recurring series are generated for this window around today
+const APPOINTMENT_WINDOW_DAYS = 365;
+
+/**
+ * Folds full-width forms (NFKC) and case one UTF-16 unit at a time, so offsets
+ * in the folded text are offsets in the original and can be highlighted.
+ */
+const fold = (text: string) => {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const folded = ch.normalize('NFKC').toLowerCase();
+    const lower = ch.toLowerCase();
+    out += folded.length === 1 ? folded : lower.length === 1 ? lower : ch;
+  }
+  return out;
+};
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter('zh', { granularity: 'word' })
+  : null;
+
+// "焦虑睡眠" rarely appears verbatim; its words (or bigrams without Intl.Segmenter) usually do
+const splitCjk = (term: string): string[] => {
+  if (!CJK.test(term) || term.length < 3) return [];
+  if (segmenter) {
+    const words = Array.from(segmenter.segment(term)).filter(s => s.isWordLike).map(s => s.segment);
+    const longer = words.filter(w => w.length > 1);
+    const parts = longer.length ? longer : words;
+    if (parts.length > 1) return parts;
+  }
+  const bigrams: string[] = [];
+  for (let i = 0; i < term.length - 1; i++) bigrams.push(term.slice(i, i + 2));
+  return bigrams;
+};
+
+export const parseQuery = (query: string): Term[] =>
+  fold(query)
+    .split(/[\s,;、，；]+/)
+    .filter(Boolean)
+    .map(text => ({ text, parts: splitCjk(text) }));
+
+const rangesOf = (haystack: string, needle: string): Range[] => {
+  const ranges: Range[] = [];
+  let from = haystack.indexOf(needle);
+  while (from !== -1 && needle) {
+    ranges.push([from, from + needle.length]);
+    from = haystack.indexOf(needle, from + needle.length);
+  }
+  return ranges;
+};
+
+// Ranges matched by one term in one folded field, and whether it matched verbatim
+const matchTerm = (folded: string, term: Term): { ranges: Range[]; exact: boolean } | null => {
+  const exact = rangesOf(folded, term.text);
+  if (exact.length) return { ranges: exact, exact: true };
+  if (term.parts.length && term.parts.every(p => folded.includes(p))) {
+    return { ranges: term.parts.flatMap(p => rangesOf(folded, p)), exact: false };
+  }
+  return null;
+};
+
+const mergeRanges = (ranges: Range[]): Range[] =>
+  [...ranges].sort((a, b) => a[0] - b[0]).reduce<Range[]>((acc, range) => {
+    const last = acc[acc.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else acc.push([...range]);
+    return acc;
+  }, []);
+
+export const highlight = (text: string, ranges: Range[]): HighlightPart[] => {
+  const parts: HighlightPart[] = [];
+  let cursor = 0;
+  mergeRanges(ranges).forEach(([start, end]) => {
+    if (start > cursor) parts.push({ text: text.slice(cursor, start), hit: false });
+    parts.push({ text: text.slice(start, end), hit: true });
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), hit: false });
+  return parts;
+};
+
+// A window around the first hit, with whitespace collapsed for single-line display
+const snippetOf = (text: string, ranges: Range[]): HighlightPart[] => {
+  const merged = mergeRanges(ranges);
+  const first = merged[0]?.[0] ?? 0;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  const parts = highlight(
+    text.slice(start, end),
+    merged.filter(([s, e]) => e > start && s < end).map(([s, e]) => [Math.max(s, start) - start, Math.min(e, end) - start] as Range)
+  ).map(p => ({ ...p, text: p.text.replace(/\s+/g, ' ') }));
+  if (start > 0) parts.unshift({ text: '…', hit: false });
+  if (end < text.length) parts.push({ text: '…', hit: false });
+  return parts;
+};
+
+/**
+ * Every term has to match somewhere in the record. The score adds, per term,
+ * the weight of the best field it matched (verbatim matches count more).
+ */
+const scoreRecord = (fields: Field[], terms: Term[]): { score: number; field: string; snippet: HighlightPart[] } | null => {
+  if (!terms.length) return null;
+  const folded = fields.map(f => fold(f.text));
+  const rangesByField: Range[][] = fields.map(() => []);
+  let score = 0;
+
+  for (const term of terms) {
+    let best = 0;
+    fields.forEach((field, i) => {
+      const match = matchTerm(folded[i], term);
+      if (!match) return;
+      rangesByField[i].push(...match.ranges);
+      best = Math.max(best, field.weight * (match.exact ? 1 : 0.6));
+    });
+    if (!best) return null;
+    score += best;
+  }
+
+  const shown = fields
+    .map((field, i) => ({ field, ranges: rangesByField[i] }))
+    .filter(f => f.ranges.length)
+    .sort((a, b) => b.field.weight - a.field.weight)[0];
+  return { score, field: shown.field.label, snippet: snippetOf(shown.field.text, shown.ranges) };
+};
+
+const collect = <T>(items: T[], fieldsOf: (item: T) => Field[], terms: Term[]): SearchHit<T>[] =>
+  items
+    .map(item => {
+      const result = scoreRecord(fieldsOf(item), terms);
+      return result && { item, ...result };
+    })
+    .filter((hit): hit is SearchHit<T> => !!hit)
+    .sort((a, b) => b.score - a.score);
+
+export const searchState = (state: AppState, query: string): SearchResults => {
+  const terms = parseQuery(query);
+  if (!terms.length) return { clients: [], notes: [], appointments: [] };
+  const clientName = new Map(state.clients.map(c => [c.id, c.name]));
+
+  const clients = collect(state.clients, c => [
+    { label: '姓名', text: c.name, weight: 10 },
+    { label: '标签', text: c.tags.join(' '), weight: 6 },
+    { label: '备注', text: c.notes || '', weight: 3 },
+    { label: '主诉', text: c.intake?.presentingProblem || '', weight: 3 },
+  ], terms);
+
+  // Uploaded files hold base64 data, so only their titles are searched
+  const notes = collect(state.files, f => [
+    { label: '标题', text: f.title, weight: 5 },
+    { label: '个案', text: clientName.get(f.clientId) || '', weight: 2 },
+    { label: '内容', text: f.ext === 'md' ? f.content : '', weight: 1 },
+  ], terms).sort((a, b) => b.score - a.score || b.item.updatedAt - a.item.updatedAt);
+
+  const now = Date.now();
+  const appointmentHits = collect(
+    getAppointmentsInRange(state, addDays(now, -APPOINTMENT_WINDOW_DAYS).getTime(), addDays(now, APPOINTMENT_WINDOW_DAYS).getTime()),
+    a => [
+      { label: '个案', text: clientName.get(a.clientId) || '', weight: 4 },
+      { label: '日期', text: `${format(a.startAt, 'yyyy-MM-dd HH:mm')} ${format(a.startAt, 'M月d日')}`, weight: 5 },
+      { label: '备注', text: a.note || '', weight: 3 },
+    ],
+    terms
+  );
+  // Upcoming sessions first, then the most recent past ones
+  const appointments = appointmentHits.sort((a, b) => {
+    const aFuture = a.item.startAt >= now;
+    const bFuture = b.item.startAt >= now;
+    if (aFuture !== bFuture) return aFuture ? -1 : 1;
+    return aFuture ? a.item.startAt - b.item.startAt : b.item.startAt - a.item.startAt;
+  });
+
+  return { clients, notes, appointments };
+};
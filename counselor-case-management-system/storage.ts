@@ -0,0 +1,507 @@
+import { AppState, RECORD_COLLECTIONS, RecordCollection } from './types';
+import { diffRecords } from './records';
+import type { EncryptionHeader } from './encryption';
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota?: number; // bytes, when the browser reports it
+  backend: string;
+}
+
+export interface SnapshotInfo {
+  id: string;
+  label: string;
+  createdAt: number;
+}
+
+// Unsaved editor content for a note, keyed by the file id
+export interface NoteDraft {
+  id: string;
+  content: string;
+  baseUpdatedAt: number; // updatedAt of the file when editing started
+  savedAt: number;
+}
+
+// A record that failed validation, set aside on load instead of being deleted
+export interface QuarantinedRecord {
+  id: string; // collection plus the record's own id, so a repeated load replaces rather than duplicates
+  collection: string;
+  record: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+/**
+ * Transforms each record on its way in and out of storage. The stored form
+ * must keep `id` readable since it is the object store key.
+ */
+export interface RecordCodec {
+  encode: (record: { id: string }) => Promise<{ id: string }>;
+  decode: (stored: any) => Promise<any>;
+}
+
+export const plainCodec: RecordCodec = {
+  encode: async record => record,
+  decode: async stored => stored,
+};
+
+export class StorageLockedError extends Error {
+  constructor() {
+    super('数据已加密，请先解锁');
+    this.name = 'StorageLockedError';
+  }
+}
+
+/**
+ * Persistence backend for AppState. `save` receives the full state on every
+ * change; adapters are free to only write what differs from the last save.
+ */
+export interface StorageAdapter {
+  name: string;
+  load: () => Promise<AppState | null>;
+  save: (state: AppState) => Promise<void>;
+  usage: () => Promise<StorageUsage>;
+  // Raw safety copies, e.g. of a snapshot before a schema upgrade runs on it
+  saveSnapshot: (label: string, data: unknown) => Promise<SnapshotInfo>;
+  listSnapshots: () => Promise<SnapshotInfo[]>;
+  getSnapshot: (id: string) => Promise<unknown>;
+  // Drafts live outside AppState so autosaving never touches sync or undo
+  saveDraft: (draft: NoteDraft) => Promise<void>;
+  getDraft: (id: string) => Promise<NoteDraft | null>;
+  deleteDraft: (id: string) => Promise<void>;
+  // Records validation kept out of AppState, until the user discards them
+  quarantine: (records: QuarantinedRecord[]) => Promise<void>;
+  listQuarantine: () => Promise<QuarantinedRecord[]>;
+  discardQuarantined: (id: string) => Promise<void>;
+  getEncryption: () => Promise<EncryptionHeader | null>;
+  // Codec for an unlocked session; pending writes finish before `lock` drops it
+  unlock: (codec: RecordCodec) => void;
+  lock: () => Promise<void>;
+  // Clears the live state and writes `state` in full, with the current codec; snapshots and drafts stay
+  replace: (state: AppState) => Promise<void>;
+  // Rewrites everything, snapshots and drafts included, with a new codec and header (null = plain text)
+  rekey: (state: AppState, codec: RecordCodec, header: EncryptionHeader | null) => Promise<void>;
+}
+
+export const LEGACY_STORAGE_KEY = 'counselor_management_data';
+
+const DB_NAME = 'counselor_management';
+const DB_VERSION = 8;
+
+const STORES = {
+  ...(Object.fromEntries(RECORD_COLLECTIONS.map(name => [name, name])) as { [K in RecordCollection]: K }),
+  fileBlobs: 'fileBlobs',
+  meta: 'meta',
+  snapshots: 'snapshots',
+  drafts: 'drafts',
+  quarantine: 'quarantine',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// Stores that make up the live AppState; snapshots, drafts and quarantine are kept apart
+const STATE_STORES: StoreName[] = [...RECORD_COLLECTIONS, STORES.fileBlobs, STORES.meta];
+
+// File content lives in its own store, so files are diffed separately
+const COLLECTIONS = RECORD_COLLECTIONS.filter((key): key is Exclude<RecordCollection, 'files'> => key !== 'files');
+
+// Records stored in `meta` holding everything that is not a collection
+const SETTINGS_KEY = 'settings';
+const SCHEMA_KEY = 'schema';
+// The only record that never goes through the codec
+const ENCRYPTION_KEY = 'encryption';
+
+interface WriteOp {
+  store: StoreName;
+  put?: { id: string };
+  delete?: string;
+}
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      Object.values(STORES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const diffCollection = <T extends { id: string }>(store: StoreName, prev: T[], next: T[]): WriteOp[] =>
+  diffRecords(prev, next).map(change => change.after ? { store, put: change.after } : { store, delete: change.id });
+
+const diffState = (prev: AppState | null, state: AppState): WriteOp[] => {
+  const ops = COLLECTIONS.flatMap(key => diffCollection<{ id: string }>(STORES[key], prev?.[key] || [], state[key]));
+
+  // File metadata and content live apart, so renaming a note never rewrites an upload
+  diffRecords(prev?.files || [], state.files).forEach(({ id, before, after }) => {
+    if (!after) {
+      ops.push({ store: STORES.files, delete: id }, { store: STORES.fileBlobs, delete: id });
+      return;
+    }
+    const { content, ...meta } = after;
+    ops.push({ store: STORES.files, put: meta });
+    if (before?.content !== content) ops.push({ store: STORES.fileBlobs, put: { id, content } as { id: string } });
+  });
+
+  if (prev?.settings !== state.settings) {
+    ops.push({ store: STORES.meta, put: { id: SETTINGS_KEY, ...state.settings } });
+  }
+  if (prev?.schemaVersion !== state.schemaVersion) {
+    ops.push({ store: STORES.meta, put: { id: SCHEMA_KEY, version: state.schemaVersion } as { id: string } });
+  }
+  return ops;
+};
+
+export const createIndexedDbAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let lastSaved: AppState | null = null;
+  // null while locked; plainCodec is only trusted once no encryption header was found
+  let codec: RecordCodec | null = plainCodec;
+  let headerChecked = false;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const db = () => {
+    if (!dbPromise) dbPromise = openDb();
+    return dbPromise;
+  };
+
+  // Writes are chained so each diff is taken against a committed snapshot
+  const enqueue = <T>(task: () => Promise<T>) => {
+    const next = queue.then(task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const getEncryption = async (): Promise<EncryptionHeader | null> => {
+    const tx = (await db()).transaction(STORES.meta, 'readonly');
+    const row = await request(tx.objectStore(STORES.meta).get(ENCRYPTION_KEY));
+    return row?.header || null;
+  };
+
+  const activeCodec = async () => {
+    if (codec === plainCodec && !headerChecked) {
+      if (await getEncryption()) codec = null;
+      headerChecked = true;
+    }
+    if (!codec) throw new StorageLockedError();
+    return codec;
+  };
+
+  // Records are encoded before the transaction opens, which would otherwise auto-commit across the await
+  const commit = async (ops: WriteOp[], using: RecordCodec, prepare?: (tx: IDBTransaction) => void) => {
+    const encoded = await Promise.all(ops.map(async op => op.put ? { ...op, put: await using.encode(op.put) } : op));
+    const tx = (await db()).transaction(Object.values(STORES), 'readwrite');
+    prepare?.(tx);
+    encoded.forEach(op => {
+      const store = tx.objectStore(op.store);
+      if (op.put) store.put(op.put);
+      else if (op.delete !== undefined) store.delete(op.delete);
+    });
+    await done(tx);
+  };
+
+  const load = async (): Promise<AppState | null> => {
+    const using = await activeCodec();
+    const tx = (await db()).transaction(STATE_STORES, 'readonly');
+    const rows = await Promise.all(STATE_STORES.map(name => request(tx.objectStore(name).getAll())));
+    const decoded = await Promise.all(
+      rows.map(list => Promise.all(list.filter((r: { id: string }) => r.id !== ENCRYPTION_KEY).map(using.decode)))
+    );
+    const byStore = new Map(STATE_STORES.map((name, i) => [name, decoded[i]]));
+    const meta = byStore.get(STORES.meta)!;
+    const blobs = byStore.get(STORES.fileBlobs)!;
+    const collections = Object.fromEntries(RECORD_COLLECTIONS.map(name => [name, byStore.get(name)])) as Pick<AppState, RecordCollection>;
+    const settings = meta.find((r: { id: string }) => r.id === SETTINGS_KEY);
+    const schema = meta.find((r: { id: string }) => r.id === SCHEMA_KEY);
+    if (!settings) return null;
+
+    const contentById = new Map<string, string>(blobs.map((b: { id: string; content: string }) => [b.id, b.content]));
+    const { id: _key, ...rest } = settings;
+    const state: AppState = {
+      schemaVersion: schema?.version ?? 0,
+      ...collections,
+      files: collections.files.map(f => ({ ...f, content: contentById.get(f.id) ?? '' })),
+      settings: rest,
+    };
+    lastSaved = state;
+    return state;
+  };
+
+  const save = (state: AppState) =>
+    enqueue(async () => {
+      const using = await activeCodec();
+      await commit(diffState(lastSaved, state), using);
+      lastSaved = state;
+    });
+
+  const usage = async (): Promise<StorageUsage> => {
+    const estimate = await navigator.storage?.estimate?.();
+    return { usage: estimate?.usage || 0, quota: estimate?.quota, backend: 'IndexedDB' };
+  };
+
+  const saveSnapshot = (label: string, data: unknown) =>
+    enqueue(async (): Promise<SnapshotInfo> => {
+      const info = { id: `snapshot-${Date.now()}`, label, createdAt: Date.now() };
+      const payload = await (await activeCodec()).encode({ id: info.id, data } as { id: string });
+      const tx = (await db()).transaction(STORES.snapshots, 'readwrite');
+      tx.objectStore(STORES.snapshots).put({ ...info, payload });
+      await done(tx);
+      return info;
+    });
+
+  const listSnapshots = async (): Promise<SnapshotInfo[]> => {
+    const tx = (await db()).transaction(STORES.snapshots, 'readonly');
+    const rows = await request(tx.objectStore(STORES.snapshots).getAll());
+    return rows
+      .map(({ id, label, createdAt }: SnapshotInfo) => ({ id, label, createdAt }))
+      .sort((a: SnapshotInfo, b: SnapshotInfo) => b.createdAt - a.createdAt);
+  };
+
+  // Snapshots written before encryption existed keep their data in clear under `data`
+  const readSnapshotData = async (row: any, using: RecordCodec) =>
+    row?.payload ? (await using.decode(row.payload)).data : row?.data;
+
+  const getSnapshot = async (id: string) => {
+    const using = await activeCodec();
+    const tx = (await db()).transaction(STORES.snapshots, 'readonly');
+    return readSnapshotData(await request(tx.objectStore(STORES.snapshots).get(id)), using);
+  };
+
+  const saveDraft = (draft: NoteDraft) =>
+    enqueue(async () => {
+      const stored = await (await activeCodec()).encode(draft);
+      const tx = (await db()).transaction(STORES.drafts, 'readwrite');
+      tx.objectStore(STORES.drafts).put(stored);
+      await done(tx);
+    });
+
+  const getDraft = async (id: string): Promise<NoteDraft | null> => {
+    const using = await activeCodec();
+    const tx = (await db()).transaction(STORES.drafts, 'readonly');
+    const row = await request(tx.objectStore(STORES.drafts).get(id));
+    return row ? using.decode(row) : null;
+  };
+
+  const deleteDraft = (id: string) =>
+    enqueue(async () => {
+      const tx = (await db()).transaction(STORES.drafts, 'readwrite');
+      tx.objectStore(STORES.drafts).delete(id);
+      await done(tx);
+    });
+
+  const quarantine = (records: QuarantinedRecord[]) =>
+    enqueue(async () => {
+      const using = await activeCodec();
+      const rows = await Promise.all(records.map(r => using.encode(r)));
+      const tx = (await db()).transaction(STORES.quarantine, 'readwrite');
+      rows.forEach(row => tx.objectStore(STORES.quarantine).put(row));
+      await done(tx);
+    });
+
+  const listQuarantine = async (): Promise<QuarantinedRecord[]> => {
+    const using = await activeCodec();
+    const tx = (await db()).transaction(STORES.quarantine, 'readonly');
+    const rows = await request(tx.objectStore(STORES.quarantine).getAll());
+    const records: QuarantinedRecord[] = await Promise.all(rows.map(using.decode));
+    return records.sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+  };
+
+  const discardQuarantined = (id: string) =>
+    enqueue(async () => {
+      const tx = (await db()).transaction(STORES.quarantine, 'readwrite');
+      tx.objectStore(STORES.quarantine).delete(id);
+      await done(tx);
+    });
+
+  const replace = (state: AppState) =>
+    enqueue(async () => {
+      const using = await activeCodec();
+      const header = await getEncryption();
+      await commit(diffState(null, state), using, tx => {
+        STATE_STORES.forEach(name => tx.objectStore(name).clear());
+        if (header) tx.objectStore(STORES.meta).put({ id: ENCRYPTION_KEY, header });
+      });
+      lastSaved = state;
+    });
+
+  const rekey = (state: AppState, next: RecordCodec, header: EncryptionHeader | null) =>
+    enqueue(async () => {
+      const using = await activeCodec();
+      const tx = (await db()).transaction([STORES.snapshots, STORES.drafts, STORES.quarantine], 'readonly');
+      const snapshots = await request(tx.objectStore(STORES.snapshots).getAll());
+      const drafts = await request(tx.objectStore(STORES.drafts).getAll());
+      const quarantined = await request(tx.objectStore(STORES.quarantine).getAll());
+      const snapshotRows = await Promise.all(snapshots.map(async (row: any) => ({
+        id: row.id,
+        label: row.label,
+        createdAt: row.createdAt,
+        payload: await next.encode({ id: row.id, data: await readSnapshotData(row, using) } as { id: string }),
+      })));
+      const draftRows = await Promise.all(drafts.map(async (row: any) => next.encode(await using.decode(row))));
+      const quarantineRows = await Promise.all(quarantined.map(async (row: any) => next.encode(await using.decode(row))));
+      // One transaction, so a failure leaves the data under the old key
+      await commit(diffState(null, state), next, tx => {
+        STATE_STORES.forEach(name => tx.objectStore(name).clear());
+        snapshotRows.forEach(row => tx.objectStore(STORES.snapshots).put(row));
+        draftRows.forEach(row => tx.objectStore(STORES.drafts).put(row));
+        quarantineRows.forEach(row => tx.objectStore(STORES.quarantine).put(row));
+        if (header) tx.objectStore(STORES.meta).put({ id: ENCRYPTION_KEY, header });
+      });
+      codec = next;
+      headerChecked = true;
+      lastSaved = state;
+    });
+
+  const unlock = (next: RecordCodec) => {
+    codec = next;
+    headerChecked = true;
+  };
+
+  const lock = () =>
+    enqueue(async () => {
+      codec = null;
+      lastSaved = null;
+    });
+
+  return {
+    name: 'IndexedDB',
+    load,
+    save,
+    usage,
+    saveSnapshot,
+    listSnapshots,
+    getSnapshot,
+    saveDraft,
+    getDraft,
+    deleteDraft,
+    quarantine,
+    listQuarantine,
+    discardQuarantined,
+    getEncryption,
+    unlock,
+    lock,
+    replace,
+    rekey,
+  };
+};
+
+// Kept for browsers without IndexedDB (e.g. some private browsing modes)
+export const createLocalStorageAdapter = (key = LEGACY_STORAGE_KEY): StorageAdapter => {
+  const snapshotPrefix = `${key}_snapshot_`;
+  const draftPrefix = `${key}_draft_`;
+  const quarantinePrefix = `${key}_quarantine_`;
+  const encryptionKey = `${key}_encryption`;
+  let codec: RecordCodec | null = plainCodec;
+
+  const getEncryption = async (): Promise<EncryptionHeader | null> =>
+    JSON.parse(localStorage.getItem(encryptionKey) || 'null');
+
+  const activeCodec = async () => {
+    if (codec === plainCodec && await getEncryption()) codec = null;
+    if (!codec) throw new StorageLockedError();
+    return codec;
+  };
+
+  // Plain text keeps the original raw layout, which the legacy migration reads
+  const write = async (id: string, value: object, using: RecordCodec) => {
+    const stored = using === plainCodec ? value : await using.encode({ id, ...value });
+    localStorage.setItem(id, JSON.stringify(stored));
+  };
+
+  const read = async (id: string, using: RecordCodec) => {
+    const saved = localStorage.getItem(id);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    if (!parsed.sealed) return parsed;
+    const { id: _id, ...value } = await using.decode(parsed);
+    return value;
+  };
+
+  const listSnapshots = async (): Promise<SnapshotInfo[]> =>
+    Object.keys(localStorage)
+      .filter(k => k.startsWith(snapshotPrefix))
+      .map(k => {
+        // Encrypted entries only expose their key, which carries the timestamp
+        const { label, createdAt } = JSON.parse(localStorage.getItem(k) || '{}');
+        return { id: k, label: label || '安全备份', createdAt: createdAt || Number(k.slice(snapshotPrefix.length)) || 0 };
+      })
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+  return {
+    name: 'Local Storage',
+    load: async () => read(key, await activeCodec()),
+    save: async (state) => write(key, state, await activeCodec()),
+    usage: async () => ({
+      // localStorage keeps UTF-16 strings: two bytes per character
+      usage: (localStorage.getItem(key) || '').length * 2,
+      quota: 5 * 1024 * 1024,
+      backend: 'Local Storage',
+    }),
+    saveSnapshot: async (label, data) => {
+      const info = { id: `${snapshotPrefix}${Date.now()}`, label, createdAt: Date.now() };
+      await write(info.id, { ...info, data }, await activeCodec());
+      return info;
+    },
+    listSnapshots,
+    getSnapshot: async (id) => (await read(id, await activeCodec()))?.data,
+    saveDraft: async (draft) => write(`${draftPrefix}${draft.id}`, draft, await activeCodec()),
+    getDraft: async (id) => {
+      const draft = await read(`${draftPrefix}${id}`, await activeCodec());
+      return draft && { ...draft, id };
+    },
+    deleteDraft: async (id) => localStorage.removeItem(`${draftPrefix}${id}`),
+    quarantine: async (records) => {
+      const using = await activeCodec();
+      await Promise.all(records.map(r => write(`${quarantinePrefix}${r.id}`, r, using)));
+    },
+    listQuarantine: async () => {
+      const using = await activeCodec();
+      const keys = Object.keys(localStorage).filter(k => k.startsWith(quarantinePrefix));
+      const records: QuarantinedRecord[] = await Promise.all(keys.map(async k => ({ ...(await read(k, using)), id: k.slice(quarantinePrefix.length) })));
+      return records.sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+    },
+    discardQuarantined: async (id) => localStorage.removeItem(`${quarantinePrefix}${id}`),
+    getEncryption,
+    unlock: (next) => {
+      codec = next;
+    },
+    lock: async () => {
+      codec = null;
+    },
+    // The whole state is one entry, so every save already rewrites it in full
+    replace: async (state) => write(key, state, await activeCodec()),
+    rekey: async (state, next, header) => {
+      const using = await activeCodec();
+      const keys = [
+        ...(await listSnapshots()).map(s => s.id),
+        ...Object.keys(localStorage).filter(k => k.startsWith(draftPrefix) || k.startsWith(quarantinePrefix)),
+      ];
+      const entries = await Promise.all(keys.map(async id => [id, await read(id, using)] as const));
+      await write(key, state, next);
+      await Promise.all(entries.map(([id, value]) => value && write(id, value, next)));
+      if (header) localStorage.setItem(encryptionKey, JSON.stringify(header));
+      else localStorage.removeItem(encryptionKey);
+      codec = next;
+    },
+  };
+};
+
+export const createStorageAdapter = (): StorageAdapter =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbAdapter() : createLocalStorageAdapter();
@@ -1,33 +1,164 @@
 
 import { AppState, Client, Appointment, FileEntry, RecurringSeries, ClientStatus, AppointmentStatus, FileCategory } from './types';
 import { INITIAL_STATE } from './constants';
+import { getNextInstanceAt } from './recurrence';
+import { countHours } from './hours';
+import { upgradeState, LoadReport, RejectedRecord } from './migrations';
+import { StorageAdapter, StorageLockedError, LEGACY_STORAGE_KEY, plainCodec, createStorageAdapter, createLocalStorageAdapter } from './storage';
+import { createEncryption, createEncryptedCodec, unlockKey } from './encryption';
 
-const STORAGE_KEY = 'counselor_management_data';
+// Set once IndexedDB has held data; from then on it is never swapped for an empty localStorage store
+const INDEXED_DB_USED_KEY = 'counselor_indexeddb_used';
 
-export const loadData = (): AppState => {
-  const saved = localStorage.getItem(STORAGE_KEY);
-  if (!saved) return INITIAL_STATE;
+let storage: StorageAdapter = createStorageAdapter();
+let loading: Promise<AppState> | null = null;
+let loadReport: LoadReport | null = null;
+
+export const getStorage = () => storage;
+
+// Outcome of the last load: applied migrations and rejected records
+export const getLoadReport = () => loadReport;
+
+// Records that failed validation stay out of the state; Settings lists them for recovery
+export const quarantineRecords = (rejected: RejectedRecord[]) => {
+  const at = Date.now();
+  return storage.quarantine(rejected.map(({ collection, record, reason }, index) => ({
+    id: `${collection}:${(record as { id?: unknown } | null)?.id ?? `#${index}`}`,
+    collection,
+    record,
+    reason,
+    quarantinedAt: at,
+  })));
+};
+
+/**
+ * Runs pending migrations and validation. The raw snapshot is kept as a
+ * safety copy whenever an upgrade runs or records would be left out, and
+ * records that are left out are quarantined where Settings lists them.
+ */
+const prepareState = async (raw: any): Promise<AppState> => {
+  const { state, report, rejected } = upgradeState(raw);
+  if (report.applied.length || report.issues.some(i => i.severity === 'error')) {
+    const label = report.applied.length
+      ? `升级前备份 v${report.fromVersion} → v${report.toVersion}`
+      : '校验前备份';
+    report.snapshotId = (await storage.saveSnapshot(label, raw)).id;
+  }
+  if (rejected.length) await quarantineRecords(rejected);
+  if (report.issues.length) console.warn("State validation issues", report.issues);
+  loadReport = report;
+  return state;
+};
+
+const markStorageUsed = () => {
+  if (storage.name === 'Local Storage' || localStorage.getItem(INDEXED_DB_USED_KEY)) return;
+  try {
+    localStorage.setItem(INDEXED_DB_USED_KEY, String(Date.now()));
+  } catch (e) {
+    console.error("Failed to record storage use", e);
+  }
+};
+
+/**
+ * Browsers where IndexedDB cannot be used at all (e.g. some private modes)
+ * fall back to localStorage. Once IndexedDB has held data its errors are
+ * rethrown instead, so a broken database never reads as an empty practice.
+ */
+const fallBackToLocalStorage = (e: unknown) => {
+  if (e instanceof StorageLockedError || storage.name === 'Local Storage' || localStorage.getItem(INDEXED_DB_USED_KEY)) throw e;
+  console.error("IndexedDB unavailable, using localStorage", e);
+  storage = createLocalStorageAdapter();
+};
+
+// One-time move of the single localStorage snapshot into the storage adapter
+const migrateLegacyData = async (): Promise<AppState | null> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return null;
+  const state = await prepareState(JSON.parse(saved));
+  await storage.save(state);
+  markStorageUsed();
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return state;
+};
+
+const readData = async (): Promise<AppState> => {
+  let saved: AppState | null;
+  try {
+    saved = await storage.load();
+  } catch (e) {
+    fallBackToLocalStorage(e);
+    return readData();
+  }
+  if (saved) {
+    markStorageUsed();
+    return prepareState(saved);
+  }
+  if (storage.name === 'Local Storage') return INITIAL_STATE;
+  return (await migrateLegacyData()) || INITIAL_STATE;
+};
+
+// Shared so a double-mounted App never races the legacy migration
+export const loadData = (): Promise<AppState> => {
+  if (!loading) {
+    loading = readData();
+    loading.catch(() => { loading = null; });
+  }
+  return loading;
+};
+
+// Encryption at rest: a passphrase derives the key that seals every stored record
+export const isEncrypted = async (): Promise<boolean> => {
   try {
-    const parsed = JSON.parse(saved);
-    // Basic migration / validation
-    if (parsed.settings && parsed.settings.globalHourAdjustment === undefined) {
-      parsed.settings.globalHourAdjustment = 0;
-    }
-    if (parsed.clients) {
-      parsed.clients = parsed.clients.map((c: any) => ({
-        ...c,
-        manualSessionAdjustment: c.manualSessionAdjustment || 0
-      }));
-    }
-    return { ...INITIAL_STATE, ...parsed };
+    return !!(await storage.getEncryption());
   } catch (e) {
-    console.error("Failed to load state", e);
-    return INITIAL_STATE;
+    fallBackToLocalStorage(e);
+    return isEncrypted();
   }
 };
 
-export const saveData = (state: AppState) => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+export const unlockData = async (passphrase: string): Promise<AppState> => {
+  const header = await storage.getEncryption();
+  if (header) storage.unlock(createEncryptedCodec(await unlockKey(passphrase, header)));
+  loading = null;
+  return loadData();
+};
+
+// Waits for pending saves, then forgets the key; loadData fails until unlocked again
+export const lockData = async () => {
+  await storage.lock();
+  loading = null;
+};
+
+const verifyPassphrase = async (passphrase: string) => {
+  const header = await storage.getEncryption();
+  if (!header) throw new Error('数据尚未加密');
+  await unlockKey(passphrase, header);
+};
+
+export const enableEncryption = async (state: AppState, passphrase: string) => {
+  const { key, header } = await createEncryption(passphrase);
+  await storage.rekey(state, createEncryptedCodec(key), header);
+};
+
+export const changePassphrase = async (state: AppState, current: string, next: string) => {
+  await verifyPassphrase(current);
+  await enableEncryption(state, next);
+};
+
+export const disableEncryption = async (state: AppState, current: string) => {
+  await verifyPassphrase(current);
+  await storage.rekey(state, plainCodec, null);
+};
+
+export const saveData = async (state: AppState) => {
+  await storage.save(state);
+  markStorageUsed();
+};
+
+// Used when restoring over data that failed to load, so nothing unreadable is left behind
+export const replaceData = async (state: AppState) => {
+  await storage.replace(state);
+  markStorageUsed();
 };
 
 // Helper to generate unique IDs
@@ -42,15 +173,18 @@ export const getClientStats = (state: AppState, clientId: string) => {
   const next = appts
     .filter(a => a.status === AppointmentStatus.Scheduled && a.startAt > now)
     .sort((a, b) => a.startAt - b.startAt)[0];
+  const nextInstanceAt = getNextInstanceAt(state, clientId, now);
   const last = completed
     .sort((a, b) => b.startAt - a.startAt)[0];
 
-  const adjustment = client?.manualSessionAdjustment || 0;
+  // Hours follow the counting rule in settings; sessions and hours are adjusted separately
+  const systemHours = countHours(completed, state.settings);
 
   return {
-    totalSessions: completed.length + adjustment,
-    totalHours: completed.length + adjustment, // PRD: 1 session = 1 hour
+    totalSessions: completed.length + (client?.manualSessionAdjustment || 0),
+    systemHours,
+    totalHours: systemHours + (client?.manualHourAdjustment || 0),
     lastSession: last?.startAt,
-    nextSession: next?.startAt,
+    nextSession: next && (nextInstanceAt === undefined || next.startAt < nextInstanceAt) ? next.startAt : nextInstanceAt,
   };
 };
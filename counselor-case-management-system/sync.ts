@@ -0,0 +1,390 @@
+import { AppState, FileEntry, RECORD_COLLECTIONS, RecordCollection } from './types';
+import { serializeIcs } from './ics';
+import { diffRecords } from './records';
+import { checkRecord, RejectedRecord } from './migrations';
+import { quarantineRecords } from './store';
+
+export type SyncHealth = 'disabled' | 'online' | 'offline';
+
+export interface SyncStatus {
+  health: SyncHealth;
+  pending: number;
+  syncing: boolean;
+  lastSyncedAt?: number;
+  lastError?: string;
+}
+
+// Every collection is listed, so a new one has to decide whether the server stores it
+const ENDPOINTS = {
+  clients: { put: '/api/clients', delete: '/api/clients' },
+  appointments: { put: '/api/appointments', delete: '/api/appointments' },
+  recurringSeries: { put: '/api/series', delete: '/api/series' },
+  files: { put: '/api/files/markdown', delete: '/api/files' },
+  busyBlocks: null,
+  noteRevisions: null,
+  supervisionSessions: null,
+  scaleResults: null,
+} as const satisfies Record<RecordCollection, { put: string; delete: string } | null>;
+
+type RecordKind = { [K in RecordCollection]: typeof ENDPOINTS[K] extends null ? never : K }[RecordCollection];
+type SyncKind = RecordKind | 'calendar';
+
+// Only ids are queued; payloads are read from the current state when sent,
+// so nothing sensitive is written outside the (possibly encrypted) store
+interface QueueEntry {
+  kind: SyncKind;
+  id: string;
+  op: 'put' | 'delete';
+}
+
+interface SyncRecord {
+  id: string;
+  updatedAt: number;
+}
+
+interface PullPayload extends Partial<Record<RecordKind, SyncRecord[]>> {
+  serverTime: number;
+  deleted: { kind: RecordKind; id: string }[];
+}
+
+const QUEUE_KEY = 'counselor_sync_queue';
+const CURSOR_KEY = 'counselor_sync_cursor';
+const HEALTH_INTERVAL = 30 * 1000;
+const PULL_INTERVAL = 60 * 1000;
+const REQUEST_TIMEOUT = 8000;
+const PUSH_DELAY = 1000;
+const MAX_RETRY_DELAY = 60 * 1000;
+const CALENDAR_ID = 'calendar.ics';
+
+const RECORD_KINDS = RECORD_COLLECTIONS.filter((kind): kind is RecordKind => ENDPOINTS[kind] !== null);
+
+// Puts go parents-first, deletes children-first
+const KIND_ORDER: SyncKind[] = ['clients', 'recurringSeries', 'appointments', 'files', 'calendar'];
+
+// Only Markdown notes are synced; binary uploads stay in the browser
+const isSyncedFile = (file: FileEntry) => file.ext === 'md';
+
+class OfflineError extends Error {
+  constructor() {
+    super('无法连接本地服务');
+    this.name = 'OfflineError';
+  }
+}
+
+const keyOf = (kind: SyncKind, id: string) => `${kind}:${id}`;
+
+const readQueue = (): Map<string, QueueEntry> => {
+  try {
+    const entries: QueueEntry[] = JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    return new Map(entries.map(e => [keyOf(e.kind, e.id), e]));
+  } catch {
+    return new Map();
+  }
+};
+
+const readCursor = (): { url: string; at: number } | null => {
+  try {
+    return JSON.parse(localStorage.getItem(CURSOR_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+let config = { enabled: false, url: '' };
+let current: AppState | null = null;
+let applyRemote: ((updater: (prev: AppState) => AppState) => void) | null = null;
+const queue = readQueue();
+let status: SyncStatus = { health: 'disabled', pending: queue.size, syncing: false };
+const listeners = new Set<(status: SyncStatus) => void>();
+// Records merged from the server, told apart from local edits by identity
+const remoteRecords = new WeakSet<object>();
+const remoteDeletions = new Set<string>();
+let running: Promise<void> | null = null;
+let failures = 0;
+let timers: number[] = [];
+let retryTimer: number | undefined;
+let pushTimer: number | undefined;
+
+const setStatus = (patch: Partial<SyncStatus>) => {
+  status = { ...status, ...patch, pending: queue.size };
+  listeners.forEach(listener => listener(status));
+};
+
+const persistQueue = () => {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(Array.from(queue.values())));
+  setStatus({});
+};
+
+const enqueue = (kind: SyncKind, id: string, op: QueueEntry['op']) => {
+  queue.set(keyOf(kind, id), { kind, id, op });
+};
+
+const queueAll = (state: AppState) => {
+  RECORD_KINDS.forEach(kind => {
+    (state[kind] as SyncRecord[])
+      .filter(r => kind !== 'files' || isSyncedFile(r as FileEntry))
+      .forEach(r => enqueue(kind, r.id, 'put'));
+  });
+  enqueue('calendar', CALENDAR_ID, 'put');
+  persistQueue();
+};
+
+const request = async (path: string, init?: RequestInit) => {
+  const controller = new AbortController();
+  const timer = window.setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  try {
+    return await fetch(`${config.url}${path}`, { ...init, signal: controller.signal });
+  } catch {
+    // fetch only rejects on network failure or our timeout
+    throw new OfflineError();
+  } finally {
+    window.clearTimeout(timer);
+  }
+};
+
+const errorOf = async (res: Response) => {
+  const body = await res.json().catch(() => null);
+  return body?.error || `HTTP ${res.status}`;
+};
+
+// Resolves to null when the record no longer needs sending
+const send = async (state: AppState, entry: QueueEntry): Promise<Response | null> => {
+  if (entry.kind === 'calendar') {
+    return request('/api/ics', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'text/calendar' },
+      body: serializeIcs(state, { privacy: state.settings.icsPrivacy }),
+    });
+  }
+  const endpoint = ENDPOINTS[entry.kind];
+  if (entry.op === 'delete') {
+    return request(`${endpoint.delete}/${encodeURIComponent(entry.id)}`, { method: 'DELETE' });
+  }
+  const record = (state[entry.kind] as SyncRecord[]).find(r => r.id === entry.id);
+  if (!record || (entry.kind === 'files' && !isSyncedFile(record as FileEntry))) return null;
+  return request(`${endpoint.put}/${encodeURIComponent(entry.id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(record),
+  });
+};
+
+/**
+ * Sends queued changes in dependency order. Network and server errors stop the
+ * run so it is retried; a rejected record (4xx) is dropped and reported.
+ */
+const push = async (): Promise<string[]> => {
+  const rejected: string[] = [];
+  const rank = (e: QueueEntry) => e.op === 'put'
+    ? KIND_ORDER.indexOf(e.kind)
+    : KIND_ORDER.length * 2 - KIND_ORDER.indexOf(e.kind);
+  const entries = Array.from(queue.values()).sort((a, b) => rank(a) - rank(b));
+
+  for (const entry of entries) {
+    // Locked meanwhile: keep the rest queued for the next session
+    if (!current) break;
+    const res = await send(current, entry);
+    if (res && res.status >= 500) throw new Error(`服务器错误：${await errorOf(res)}`);
+    if (res && !res.ok) rejected.push(`${entry.kind}/${entry.id}: ${await errorOf(res)}`);
+    // A newer change to the same record may have replaced the entry meanwhile
+    const key = keyOf(entry.kind, entry.id);
+    if (queue.get(key) === entry) queue.delete(key);
+    persistQueue();
+  }
+  return rejected;
+};
+
+// Pulled records pass the same checks as a load; those still invalid are quarantined instead of merged
+const checkPayload = (payload: PullPayload): { checked: PullPayload; rejected: RejectedRecord[] } => {
+  const rejected: RejectedRecord[] = [];
+  const checked: PullPayload = { ...payload };
+  RECORD_KINDS.forEach(kind => {
+    const records = Array.isArray(payload[kind]) ? payload[kind] : [];
+    checked[kind] = records.flatMap(record => {
+      const result = checkRecord(kind, record);
+      if (!('reason' in result)) return [result.record];
+      rejected.push({ collection: kind, record, reason: `同步拉取时${result.reason}` });
+      return [];
+    });
+  });
+  return { checked, rejected };
+};
+
+// Server records win when newer, except for records with local changes still queued
+const mergeRemote = (state: AppState, payload: PullPayload): AppState => {
+  let next = state;
+  RECORD_KINDS.forEach(kind => {
+    const incoming = payload[kind] || [];
+    const deleted = payload.deleted.filter(d => d.kind === kind).map(d => d.id);
+    const byId = new Map((state[kind] as SyncRecord[]).map(r => [r.id, r]));
+    let changed = false;
+
+    incoming.forEach(record => {
+      if (queue.has(keyOf(kind, record.id))) return;
+      const local = byId.get(record.id);
+      if (local && local.updatedAt >= record.updatedAt) return;
+      remoteRecords.add(record);
+      byId.set(record.id, record);
+      changed = true;
+    });
+    deleted.forEach(id => {
+      if (queue.has(keyOf(kind, id)) || !byId.has(id)) return;
+      remoteDeletions.add(keyOf(kind, id));
+      byId.delete(id);
+      changed = true;
+    });
+
+    if (changed) next = { ...next, [kind]: Array.from(byId.values()) } as AppState;
+  });
+  return next;
+};
+
+const pull = async () => {
+  const cursor = readCursor();
+  const since = cursor?.url === config.url ? cursor.at : 0;
+  const res = await request(`/api/sync/pull?since=${since}`);
+  if (!res.ok) throw new Error(`拉取失败：${await errorOf(res)}`);
+  const payload: PullPayload = await res.json();
+  // Locked meanwhile: leave the cursor so the same changes are pulled again after unlocking
+  if (!current || !applyRemote) return;
+  const { checked, rejected } = checkPayload(payload);
+  applyRemote(prev => mergeRemote(prev, checked));
+  if (rejected.length) {
+    console.warn("Pulled records failed validation", rejected);
+    await quarantineRecords(rejected);
+  }
+  localStorage.setItem(CURSOR_KEY, JSON.stringify({ url: config.url, at: payload.serverTime }));
+};
+
+const scheduleRetry = () => {
+  window.clearTimeout(retryTimer);
+  const delay = Math.min(MAX_RETRY_DELAY, 2000 * 2 ** (failures - 1));
+  retryTimer = window.setTimeout(() => { syncNow(); }, delay);
+};
+
+export const syncNow = (): Promise<void> => {
+  if (!config.enabled || !current) return Promise.resolve();
+  if (running) return running;
+  running = (async () => {
+    setStatus({ syncing: true });
+    try {
+      const rejected = await push();
+      await pull();
+      failures = 0;
+      setStatus({ health: 'online', lastSyncedAt: Date.now(), lastError: rejected.length ? `服务器拒绝了 ${rejected.length} 条记录：${rejected[0]}` : undefined });
+    } catch (e) {
+      failures += 1;
+      setStatus({
+        health: e instanceof OfflineError ? 'offline' : status.health,
+        lastError: (e as Error).message,
+      });
+      scheduleRetry();
+    } finally {
+      running = null;
+      setStatus({ syncing: false });
+    }
+  })();
+  return running;
+};
+
+const checkHealth = async () => {
+  try {
+    const res = await request('/health');
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new OfflineError();
+    const wasOnline = status.health === 'online';
+    setStatus({ health: 'online' });
+    if (!wasOnline || queue.size) syncNow();
+  } catch {
+    setStatus({ health: 'offline' });
+  }
+};
+
+/**
+ * Records what changed between two states. Called for every state the app
+ * persists; changes that arrived from the server are not sent back.
+ */
+export const trackChanges = (prev: AppState | null, next: AppState) => {
+  current = next;
+  // Never synced and switched off: the first sync queues everything anyway
+  if (!prev || (!config.enabled && !readCursor())) return;
+
+  const before = queue.size;
+  let touched = false;
+  RECORD_KINDS.forEach(kind => {
+    const synced = (r: SyncRecord) => kind !== 'files' || isSyncedFile(r as FileEntry);
+    diffRecords(prev[kind] as SyncRecord[], next[kind] as SyncRecord[]).forEach(({ id, before, after }) => {
+      if (after) {
+        if (remoteRecords.has(after) || !synced(after)) return;
+        enqueue(kind, id, 'put');
+      } else {
+        if (!synced(before!) || remoteDeletions.delete(keyOf(kind, id))) return;
+        enqueue(kind, id, 'delete');
+      }
+      touched = true;
+    });
+  });
+
+  const calendarChanged = prev.appointments !== next.appointments
+    || prev.recurringSeries !== next.recurringSeries
+    || prev.clients !== next.clients
+    || prev.settings.icsPrivacy !== next.settings.icsPrivacy;
+  if (calendarChanged) enqueue('calendar', CALENDAR_ID, 'put');
+
+  if (!touched && !calendarChanged && queue.size === before) return;
+  persistQueue();
+  if (!config.enabled) return;
+  window.clearTimeout(pushTimer);
+  pushTimer = window.setTimeout(() => { syncNow(); }, PUSH_DELAY);
+};
+
+export const stopSync = () => {
+  timers.forEach(t => window.clearInterval(t));
+  timers = [];
+  window.clearTimeout(retryTimer);
+  window.clearTimeout(pushTimer);
+  current = null;
+};
+
+export const configureSync = (
+  settings: Pick<AppState['settings'], 'syncEnabled' | 'syncServerUrl'>,
+  apply: (updater: (prev: AppState) => AppState) => void
+) => {
+  timers.forEach(t => window.clearInterval(t));
+  timers = [];
+  window.clearTimeout(retryTimer);
+  applyRemote = apply;
+  config = { enabled: settings.syncEnabled, url: settings.syncServerUrl.trim().replace(/\/+$/, '') };
+  if (!config.enabled || !config.url) {
+    setStatus({ health: 'disabled', syncing: false });
+    return;
+  }
+  // First sync against this server: push everything we have
+  if (readCursor()?.url !== config.url && current) queueAll(current);
+  setStatus({ health: status.health === 'disabled' ? 'offline' : status.health });
+  checkHealth();
+  timers = [
+    window.setInterval(checkHealth, HEALTH_INTERVAL),
+    window.setInterval(() => { if (status.health === 'online') syncNow(); }, PULL_INTERVAL),
+  ];
+};
+
+export const getSyncStatus = () => status;
+
+export const subscribeSync = (listener: (status: SyncStatus) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Zips the server's SQLite database and note files; returns the path on the server machine
+export const requestServerExport = async (): Promise<string> => {
+  const res = await request('/api/export', { method: 'POST' });
+  if (!res.ok) throw new Error(await errorOf(res));
+  return (await res.json()).zipPath;
+};
+
+export const fetchIcsUrls = async (): Promise<{ localhost: string; lan: string | null }> => {
+  const res = await request('/api/settings/ics-urls');
+  if (!res.ok) throw new Error(await errorOf(res));
+  return res.json();
+};
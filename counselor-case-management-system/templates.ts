@@ -0,0 +1,124 @@
+import { format } from 'date-fns';
+import { AppState, Appointment, AppointmentStatus, ClientStatus, FileCategory, NoteTemplate, SessionType } from './types';
+
+// FNV-1a over the trimmed text: enough to tell whether a generated note was edited
+export const hashContent = (text: string) => {
+  let hash = 0x811c9dc5;
+  const trimmed = text.trim();
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+export const SESSION_TYPE_LABELS: Record<SessionType, string> = {
+  [SessionType.Intake]: '初始访谈',
+  [SessionType.Regular]: '常规咨询',
+  [SessionType.Termination]: '结案',
+};
+
+export const TEMPLATE_CATEGORY_LABELS: Record<FileCategory, string> = {
+  [FileCategory.SessionNote]: '咨询记录',
+  [FileCategory.Supervision]: '督导笔记',
+  [FileCategory.Assessment]: '测评资料',
+};
+
+export interface TemplateContext {
+  clientName: string;
+  sessionNumber: string;
+  date: string;
+  startTime: string;
+  lastSessionDate: string;
+  tags: string;
+}
+
+export const TEMPLATE_PLACEHOLDERS: { key: keyof TemplateContext; label: string }[] = [
+  { key: 'clientName', label: '个案姓名' },
+  { key: 'sessionNumber', label: '咨询次数' },
+  { key: 'date', label: '咨询日期' },
+  { key: 'startTime', label: '开始时间' },
+  { key: 'lastSessionDate', label: '上次咨询日期' },
+  { key: 'tags', label: '标签' },
+];
+
+// Values shown in the SettingsView preview
+export const SAMPLE_TEMPLATE_CONTEXT: TemplateContext = {
+  clientName: '张三',
+  sessionNumber: '5',
+  date: '2025-03-12',
+  startTime: '14:00',
+  lastSessionDate: '2025-03-05',
+  tags: '焦虑、睡眠',
+};
+
+/**
+ * Placeholder values for a note about `appointment`, or about "now" for notes
+ * created by hand. Session numbers include the client's manual adjustment.
+ */
+export const buildTemplateContext = (state: AppState, clientId: string, appointment?: Appointment): TemplateContext => {
+  const client = state.clients.find(c => c.id === clientId);
+  const at = appointment?.startAt ?? Date.now();
+  const completed = state.appointments.filter(a =>
+    a.clientId === clientId && a.status === AppointmentStatus.Completed && a.id !== appointment?.id
+  );
+  const before = completed.filter(a => a.startAt < at);
+  const last = before.sort((a, b) => b.startAt - a.startAt)[0];
+  // A note for an appointment counts that session; a manual note refers to the latest one
+  const sessionNumber = before.length + (appointment ? 1 : 0) + (client?.manualSessionAdjustment || 0);
+
+  return {
+    clientName: client?.name || '',
+    sessionNumber: String(Math.max(sessionNumber, 1)),
+    date: format(at, 'yyyy-MM-dd'),
+    startTime: format(at, 'HH:mm'),
+    lastSessionDate: last ? format(last.startAt, 'yyyy-MM-dd') : '无',
+    tags: client?.tags.join('、') || '',
+  };
+};
+
+// Unknown placeholders are left as typed so a typo stays visible in the note
+export const renderTemplate = (content: string, context: TemplateContext): string =>
+  content.replace(/\{\{\s*(\w+)\s*\}\}/g, (all, key: string) =>
+    Object.prototype.hasOwnProperty.call(context, key) ? context[key as keyof TemplateContext] : all
+  );
+
+// First session is the intake; a session of a closed or referred client is the last one
+export const inferSessionType = (state: AppState, clientId: string, appointment?: Appointment): SessionType => {
+  const client = state.clients.find(c => c.id === clientId);
+  if (client?.status === ClientStatus.Closed || client?.status === ClientStatus.Referred) return SessionType.Termination;
+  const earlier = state.appointments.some(a =>
+    a.clientId === clientId
+    && a.status === AppointmentStatus.Completed
+    && a.id !== appointment?.id
+    && a.startAt < (appointment?.startAt ?? Date.now())
+  );
+  return earlier || client?.manualSessionAdjustment ? SessionType.Regular : SessionType.Intake;
+};
+
+export const templatesFor = (templates: NoteTemplate[], category: FileCategory, sessionType?: SessionType) =>
+  templates.filter(t => t.category === category && (!t.sessionType || !sessionType || t.sessionType === sessionType));
+
+/**
+ * The template a generated note starts from: a default for the exact session
+ * type beats a default for any session, which beats any other match.
+ */
+export const pickTemplate = (templates: NoteTemplate[], category: FileCategory, sessionType?: SessionType) => {
+  const matches = templatesFor(templates, category, sessionType);
+  const rank = (t: NoteTemplate) => (t.isDefault ? 2 : 0) + (sessionType && t.sessionType === sessionType ? 1 : 0);
+  return [...matches].sort((a, b) => rank(b) - rank(a))[0];
+};
+
+// Markdown for a new note; empty when no template applies
+export const generateNoteContent = (
+  state: AppState,
+  clientId: string,
+  category: FileCategory,
+  options: { appointment?: Appointment; template?: NoteTemplate } = {}
+): string => {
+  const sessionType = category === FileCategory.SessionNote
+    ? inferSessionType(state, clientId, options.appointment)
+    : undefined;
+  const template = options.template || pickTemplate(state.settings.noteTemplates, category, sessionType);
+  return template ? renderTemplate(template.content, buildTemplateContext(state, clientId, options.appointment)) : '';
+};
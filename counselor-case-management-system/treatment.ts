@@ -0,0 +1,86 @@
+import { AppState, AppointmentStatus, Client, GoalStatus, TreatmentGoal, TreatmentPlan } from './types';
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  [GoalStatus.Active]: '进行中',
+  [GoalStatus.Achieved]: '已达成',
+  [GoalStatus.Discontinued]: '已中止',
+};
+
+export const GOAL_STATUS_COLORS: Record<GoalStatus, string> = {
+  [GoalStatus.Active]: 'bg-blue-50 text-blue-700 border-blue-200',
+  [GoalStatus.Achieved]: 'bg-green-50 text-green-700 border-green-200',
+  [GoalStatus.Discontinued]: 'bg-gray-50 text-gray-500 border-gray-200',
+};
+
+// Line colours on the progress chart, by goal order in the plan
+export const GOAL_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4'];
+
+// Ratings run from 0 (no progress) to this value (goal reached)
+export const PROGRESS_MAX = 10;
+
+export const DEFAULT_REVIEW_EVERY = 6;
+
+export const emptyPlan = (now = Date.now()): TreatmentPlan => ({
+  goals: [],
+  reviewEvery: DEFAULT_REVIEW_EVERY,
+  reviewedAt: now,
+  createdAt: now,
+  updatedAt: now,
+});
+
+export const activeGoals = (plan: TreatmentPlan | undefined): TreatmentGoal[] =>
+  (plan?.goals || []).filter(g => g.status === GoalStatus.Active);
+
+export const updatePlan = (state: AppState, clientId: string, plan: TreatmentPlan | undefined): AppState => ({
+  ...state,
+  clients: state.clients.map(c => c.id === clientId
+    ? { ...c, treatmentPlan: plan && { ...plan, updatedAt: Date.now() }, updatedAt: Date.now() }
+    : c),
+});
+
+export const markPlanReviewed = (state: AppState, clientId: string, now = Date.now()): AppState => ({
+  ...state,
+  clients: state.clients.map(c => c.id === clientId && c.treatmentPlan
+    ? { ...c, treatmentPlan: { ...c.treatmentPlan, reviewedAt: now, updatedAt: now }, updatedAt: now }
+    : c),
+});
+
+// An empty rating set clears the session's ratings
+export const rateProgress = (state: AppState, apptId: string, ratings: Record<string, number>): AppState => ({
+  ...state,
+  appointments: state.appointments.map(a => a.id === apptId
+    ? { ...a, goalProgress: Object.keys(ratings).length ? ratings : undefined, updatedAt: Date.now() }
+    : a),
+});
+
+const completedSessions = (state: AppState, clientId: string) =>
+  state.appointments
+    .filter(a => a.clientId === clientId && a.status === AppointmentStatus.Completed)
+    .sort((a, b) => a.startAt - b.startAt);
+
+/**
+ * One point per rated session, oldest first, with a value for each goal rated
+ * in it. Goals not rated in a session are left out so chart lines skip them.
+ */
+export const goalProgressSeries = (state: AppState, clientId: string) =>
+  completedSessions(state, clientId)
+    .filter(a => a.goalProgress && Object.keys(a.goalProgress).length > 0)
+    .map(a => ({ startAt: a.startAt, ...a.goalProgress }) as { startAt: number } & Record<string, number>);
+
+export const latestRating = (state: AppState, clientId: string, goalId: string) => {
+  const rated = completedSessions(state, clientId).filter(a => a.goalProgress?.[goalId] !== undefined);
+  return rated.length ? rated[rated.length - 1].goalProgress![goalId] : undefined;
+};
+
+export const sessionsSinceReview = (state: AppState, client: Client) => {
+  const plan = client.treatmentPlan;
+  if (!plan) return 0;
+  return completedSessions(state, client.id).filter(a => a.startAt > plan.reviewedAt).length;
+};
+
+// Due once the plan has active goals and N sessions have been held since the last review
+export const isReviewDue = (state: AppState, client: Client) => {
+  const plan = client.treatmentPlan;
+  return !!plan && plan.reviewEvery > 0 && activeGoals(plan).length > 0
+    && sessionsSinceReview(state, client) >= plan.reviewEvery;
+};
@@ -19,13 +19,195 @@ export enum FileCategory {
   Assessment = 'Assessment'
 }
 
+export enum SessionType {
+  Intake = 'Intake',
+  Regular = 'Regular',
+  Termination = 'Termination'
+}
+
+export enum PaymentStatus {
+  Unpaid = 'Unpaid',
+  Paid = 'Paid',
+  Waived = 'Waived'
+}
+
+export enum PaymentMethod {
+  WeChat = 'WeChat',
+  Alipay = 'Alipay',
+  Cash = 'Cash',
+  Transfer = 'Transfer'
+}
+
+export enum Gender {
+  Female = 'Female',
+  Male = 'Male',
+  Other = 'Other',
+  Undisclosed = 'Undisclosed'
+}
+
+export enum CustomFieldType {
+  Text = 'Text',
+  Number = 'Number',
+  Date = 'Date',
+  Select = 'Select'
+}
+
+export enum Modality {
+  Any = 'Any',
+  InPerson = 'InPerson',
+  Online = 'Online'
+}
+
+export enum Urgency {
+  Low = 'Low',
+  Normal = 'Normal',
+  High = 'High'
+}
+
+export enum GoalStatus {
+  Active = 'Active',
+  Achieved = 'Achieved',
+  Discontinued = 'Discontinued'
+}
+
+export enum RiskLevel {
+  None = 'None',
+  Low = 'Low',
+  Moderate = 'Moderate',
+  High = 'High'
+}
+
+export enum SupervisionFormat {
+  Individual = 'Individual',
+  Group = 'Group'
+}
+
+export enum HourCountingRule {
+  Exact = 'Exact', // Actual minutes / 60
+  ClinicalHour = 'ClinicalHour', // Rounded to whole clinical hours (e.g. 50 minutes)
+  PerSession = 'PerSession' // Every session counts as one hour
+}
+
+export enum ConflictPolicy {
+  Warn = 'Warn', // Ask before placing a session that breaks a rule
+  Block = 'Block' // Refuse the placement
+}
+
+export enum IcsPrivacy {
+  FullName = 'FullName',
+  Initials = 'Initials',
+  ClientCode = 'ClientCode',
+  Generic = 'Generic'
+}
+
+// One bookable stretch of a weekday; a day may have several (e.g. around a lunch break)
+export interface WorkingHoursRange {
+  day: number; // 0 = Sunday, as in Date.getDay()
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+// Whole days without sessions, e.g. holidays or leave
+export interface BlockedDateRange {
+  id: string;
+  start: string; // yyyy-MM-dd
+  end: string; // yyyy-MM-dd, inclusive
+  reason: string;
+}
+
+// Collected at intake; every field is optional
+export interface ClientIntake {
+  phone?: string;
+  email?: string;
+  wechat?: string;
+  emergencyContactName?: string;
+  emergencyContactRelation?: string;
+  emergencyContactPhone?: string;
+  birthDate?: string; // yyyy-MM-dd
+  gender?: Gender;
+  occupation?: string;
+  referralSource?: string;
+  presentingProblem?: string;
+  firstContactDate?: string; // yyyy-MM-dd
+}
+
+// A client field defined in settings
+export interface CustomFieldDefinition {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[]; // Choices for CustomFieldType.Select
+}
+
+// Structured risk screen recorded with a completed session
+export interface RiskAssessment {
+  level: RiskLevel;
+  factors: string[];
+  followUpPlan: string;
+  followUpBy?: number; // Start of the day the follow-up is due
+  followUpDoneAt?: number;
+  assessedAt: number;
+}
+
+export interface TreatmentGoal {
+  id: string;
+  description: string;
+  targetDate?: string; // yyyy-MM-dd
+  interventions: string;
+  status: GoalStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TreatmentPlan {
+  goals: TreatmentGoal[];
+  reviewEvery: number; // Completed sessions between plan reviews; 0 = no reminder
+  reviewedAt: number; // Last review, or when the plan was started
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Scheduling wishes of a Potential client waiting for a regular slot
+export interface WaitlistEntry {
+  preferredDays: number[]; // 0 = Sunday, as in Date.getDay(); empty = any day
+  preferredFrom: string; // HH:mm; both empty = any time
+  preferredTo: string;
+  modality: Modality;
+  urgency: Urgency;
+  notes?: string;
+  addedAt: number;
+}
+
+export interface ReferralRecord {
+  target: string; // Person or service the client was referred to
+  reason: string;
+  date: string; // yyyy-MM-dd
+}
+
+// Clients created before the history was kept start with an empty one
+export interface StatusChange {
+  from?: ClientStatus; // Absent on the entry recorded when the client was created
+  to: ClientStatus;
+  at: number;
+  reason?: string;
+  terminationSummary?: string; // Moving to Closed
+  referral?: ReferralRecord; // Moving to Referred
+}
+
 export interface Client {
   id: string;
   name: string;
   status: ClientStatus;
+  statusHistory: StatusChange[]; // Oldest first
+  treatmentPlan?: TreatmentPlan;
+  waitlist?: WaitlistEntry; // Only counted while the client is Potential
   tags: string[];
   notes?: string;
+  intake: ClientIntake;
+  customFields: Record<string, string>; // Keyed by CustomFieldDefinition.id; numbers and yyyy-MM-dd dates as text
   manualSessionAdjustment: number; // For overriding/adjusting session counts
+  manualHourAdjustment: number; // For overriding/adjusting counted hours
+  defaultFee: number; // Per session, in yuan; 0 = not charged
   createdAt: number;
   updatedAt: number;
 }
@@ -38,7 +220,14 @@ export interface Appointment {
   status: AppointmentStatus;
   recurringSeriesId?: string;
   originalInstanceAt?: number;
+  externalUid?: string; // UID of the imported VEVENT (plus RECURRENCE-ID for overrides)
   note?: string;
+  fee?: number; // Overrides the client's default fee
+  paymentStatus?: PaymentStatus; // Unset = unpaid
+  paymentMethod?: PaymentMethod;
+  paidAt?: number;
+  risk?: RiskAssessment; // Only on completed sessions
+  goalProgress?: Record<string, number>; // Keyed by TreatmentGoal.id, 0–10; only on completed sessions
   createdAt: number;
   updatedAt: number;
 }
@@ -51,6 +240,24 @@ export interface RecurringSeries {
   durationMin: number;
   untilAt?: number;
   count?: number;
+  exdates?: number[]; // Original instance starts removed from the series (RFC5545 EXDATE)
+  externalUid?: string; // UID of the imported VEVENT
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Read-only commitment imported from an external calendar; blocks time but is not a session
+export interface BusyBlock {
+  id: string;
+  uid: string; // UID of the source VEVENT (plus RECURRENCE-ID for overrides), used to dedupe re-imports
+  source: string; // Name of the calendar or file it was imported from
+  title: string;
+  startAt: number;
+  endAt: number;
+  rrule?: string; // FREQ/INTERVAL/BYDAY only, like RecurringSeries.rrule
+  untilAt?: number;
+  count?: number;
+  exdates?: number[];
   createdAt: number;
   updatedAt: number;
 }
@@ -63,19 +270,137 @@ export interface FileEntry {
   ext: string;
   content: string; // Base64 for binary, plain text for MD
   relatedAppointmentId?: string;
+  templateHash?: string; // hashContent of the text generated for a completed session, before any edits
+  finalizedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Content of a note as it was at one save; kept so an overwrite can be undone
+export interface NoteRevision {
+  id: string;
+  fileId: string;
+  clientId: string;
+  content: string;
+  label?: string; // e.g. where a restored version came from
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Time spent in supervision, logged for registration alongside direct client hours
+export interface SupervisionSession {
+  id: string;
+  startAt: number;
+  durationMin: number;
+  supervisor: string;
+  format: SupervisionFormat;
+  clientIds: string[]; // Cases discussed
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ScaleOption {
+  value: number;
+  label: string;
+}
+
+// Applies from `min` up to the next band's min
+export interface SeverityBand {
+  min: number;
+  label: string;
+}
+
+// A questionnaire scored as the sum of its answers; every item shares the same options
+export interface AssessmentScale {
+  id: string;
+  name: string;
+  description?: string;
+  items: string[];
+  options: ScaleOption[];
+  bands: SeverityBand[];
+  flagItems?: number[]; // Item indexes where any answer above the lowest needs attention, e.g. PHQ-9 item 9
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One administration of a scale
+export interface ScaleResult {
+  id: string;
+  clientId: string;
+  scaleId: string;
+  scaleName: string; // Kept in case a custom scale is deleted later
+  appointmentId?: string;
+  answers: number[]; // Option value per item
+  score: number;
+  administeredAt: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  category: FileCategory;
+  sessionType?: SessionType; // Only for session notes; unset = any session
+  content: string; // Markdown with {{placeholders}}
+  isDefault: boolean; // Used when a note is generated without choosing a template
   createdAt: number;
   updatedAt: number;
 }
 
 export interface AppState {
+  schemaVersion: number;
   clients: Client[];
   appointments: Appointment[];
   recurringSeries: RecurringSeries[];
+  busyBlocks: BusyBlock[];
   files: FileEntry[];
+  noteRevisions: NoteRevision[];
+  supervisionSessions: SupervisionSession[];
+  scaleResults: ScaleResult[];
   settings: {
     icsPort: number;
     icsEnabled: boolean;
-    noteTemplate: string;
+    icsPrivacy: IcsPrivacy; // How much of the client name appears in exported event titles
+    noteTemplates: NoteTemplate[];
+    customScales: AssessmentScale[]; // In addition to the built-in PHQ-9, GAD-7 and K10
+    customFields: CustomFieldDefinition[];
+    revisionKeepCount: number; // Revisions kept per note; 0 = all
+    revisionKeepDays: number; // Revisions older than this are pruned; 0 = never
     globalHourAdjustment: number; // For overriding/adjusting total system hours
+    hourCountingRule: HourCountingRule;
+    clinicalHourMinutes: number; // Length of one clinical hour for HourCountingRule.ClinicalHour
+    workingHours: WorkingHoursRange[]; // Empty = no working-hours check
+    bufferMinutes: number; // Minimum gap between two sessions
+    blockedDates: BlockedDateRange[];
+    conflictPolicy: ConflictPolicy;
+    autoLockMinutes: number; // Idle minutes before an encrypted app locks; 0 = never
+    syncEnabled: boolean;
+    syncServerUrl: string; // Base URL of counseling-server.js
+    reminderEnabled: boolean;
+    reminderLeadMinutes: number[]; // Before each scheduled session; empty = no session reminders
+    reminderOverdueNotes: boolean;
+    reminderNoteHours: number; // A note outstanding this long after its session is overdue
+    reminderRiskFollowUps: boolean;
+    reminderDigest: boolean;
+    reminderDigestTime: string; // HH:mm
+    reminderPrivacy: IcsPrivacy; // How clients are named in notifications, which may show on a locked screen
+    notesQueueSince: number; // Sessions that ended earlier are not listed as missing a note
   };
 }
+
+// Every record array in AppState. Storage, undo, backups, validation and sync
+// derive their lists from this one; a new entry also needs a DB_VERSION bump
+export const RECORD_COLLECTIONS = [
+  'clients',
+  'appointments',
+  'recurringSeries',
+  'busyBlocks',
+  'files',
+  'noteRevisions',
+  'supervisionSessions',
+  'scaleResults',
+] as const satisfies readonly (keyof AppState)[];
+
+export type RecordCollection = typeof RECORD_COLLECTIONS[number];
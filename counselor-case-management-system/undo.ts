@@ -0,0 +1,82 @@
+import { AppState, RECORD_COLLECTIONS, RecordCollection } from './types';
+import { RecordChange, diffRecords } from './records';
+
+type StoredRecord = { id: string; updatedAt?: number };
+type Settings = AppState['settings'];
+
+interface SettingChange {
+  key: keyof Settings;
+  before: unknown;
+  after: unknown;
+}
+
+// Only what one action touched, so undoing it keeps later changes such as a sync pull
+export interface StatePatch {
+  records: Partial<Record<RecordCollection, RecordChange<StoredRecord>[]>>;
+  settings: SettingChange[];
+}
+
+export interface UndoEntry {
+  label: string;
+  patch: StatePatch;
+  at: number;
+}
+
+export type UndoDirection = 'undo' | 'redo';
+
+// Older actions fall off the stack beyond this
+export const MAX_UNDO = 50;
+
+export const createPatch = (before: AppState, after: AppState): StatePatch => {
+  const records: StatePatch['records'] = {};
+  RECORD_COLLECTIONS.forEach(key => {
+    const changes = diffRecords<StoredRecord>(before[key], after[key]);
+    if (changes.length) records[key] = changes;
+  });
+  const settings = before.settings === after.settings ? [] : (Object.keys(after.settings) as (keyof Settings)[])
+    .filter(key => before.settings[key] !== after.settings[key])
+    .map(key => ({ key, before: before.settings[key], after: after.settings[key] }));
+  return { records, settings };
+};
+
+export const isPatchEmpty = (patch: StatePatch) => Object.keys(patch.records).length === 0 && patch.settings.length === 0;
+
+/**
+ * Puts each touched record back the way it was before (undo) or after (redo)
+ * the action, at its original position. Restored records get a fresh
+ * `updatedAt` so the sync merge treats them as the newest edit.
+ */
+export const applyPatch = (state: AppState, patch: StatePatch, direction: UndoDirection): AppState => {
+  const now = Date.now();
+  const restoredRecords = {} as Partial<Record<RecordCollection, StoredRecord[]>>;
+
+  (Object.keys(patch.records) as RecordCollection[]).forEach(key => {
+    const list: StoredRecord[] = [...state[key]];
+    const changes = patch.records[key]!
+      .map(c => direction === 'undo'
+        ? { id: c.id, target: c.before, index: c.beforeIndex }
+        : { id: c.id, target: c.after, index: c.afterIndex })
+      .sort((a, b) => a.index - b.index);
+
+    changes.forEach(({ id, target, index }) => {
+      const at = list.findIndex(r => r.id === id);
+      if (!target) {
+        if (at >= 0) list.splice(at, 1);
+        return;
+      }
+      const restored = target.updatedAt === undefined ? target : { ...target, updatedAt: now };
+      if (at >= 0) list[at] = restored;
+      else list.splice(Math.min(index, list.length), 0, restored);
+    });
+    restoredRecords[key] = list;
+  });
+
+  const next: AppState = { ...state, ...(restoredRecords as Partial<Pick<AppState, RecordCollection>>) };
+  if (patch.settings.length) {
+    next.settings = {
+      ...state.settings,
+      ...Object.fromEntries(patch.settings.map(c => [c.key, direction === 'undo' ? c.before : c.after])),
+    };
+  }
+  return next;
+};
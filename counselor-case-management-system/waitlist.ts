@@ -0,0 +1,144 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { AppState, Appointment, AppointmentStatus, Client, ClientStatus, Modality, RecurringSeries, Urgency, WaitlistEntry } from './types';
+import { changeClientStatus } from './lifecycle';
+import { getAppointmentsInRange, lastOccurrenceOf, nextSlotOf } from './recurrence';
+import { toMinutes } from './scheduling';
+import { uuid } from './store';
+
+export const MODALITY_LABELS: Record<Modality, string> = {
+  [Modality.Any]: '均可',
+  [Modality.InPerson]: '面询',
+  [Modality.Online]: '线上',
+};
+
+export const URGENCY_LABELS: Record<Urgency, string> = {
+  [Urgency.Low]: '不急',
+  [Urgency.Normal]: '一般',
+  [Urgency.High]: '紧急',
+};
+
+export const URGENCY_COLORS: Record<Urgency, string> = {
+  [Urgency.Low]: 'bg-gray-50 text-gray-600 border-gray-200',
+  [Urgency.Normal]: 'bg-blue-50 text-blue-700 border-blue-200',
+  [Urgency.High]: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const URGENCY_ORDER = [Urgency.Low, Urgency.Normal, Urgency.High];
+
+// Monday first, as in the calendar
+export const WAITLIST_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+export const emptyWaitlistEntry = (now = Date.now()): WaitlistEntry => ({
+  preferredDays: [],
+  preferredFrom: '',
+  preferredTo: '',
+  modality: Modality.Any,
+  urgency: Urgency.Normal,
+  addedAt: now,
+});
+
+export interface WaitlistedClient {
+  client: Client;
+  entry: WaitlistEntry;
+}
+
+// Most urgent first, then longest waiting
+export const waitlistedClients = (state: AppState): WaitlistedClient[] =>
+  state.clients
+    .filter(c => c.status === ClientStatus.Potential && c.waitlist)
+    .map(client => ({ client, entry: client.waitlist! }))
+    .sort((a, b) =>
+      URGENCY_ORDER.indexOf(b.entry.urgency) - URGENCY_ORDER.indexOf(a.entry.urgency)
+      || a.entry.addedAt - b.entry.addedAt);
+
+export const updateWaitlist = (state: AppState, clientId: string, entry: WaitlistEntry | undefined): AppState => ({
+  ...state,
+  clients: state.clients.map(c => c.id === clientId ? { ...c, waitlist: entry, updatedAt: Date.now() } : c),
+});
+
+export interface SlotMatch extends WaitlistedClient {
+  score: number;
+  dayMatch: boolean;
+  timeMatch: boolean;
+  waitingDays: number;
+}
+
+const fitsTime = (entry: WaitlistEntry, startAt: number, endAt: number) => {
+  if (!entry.preferredFrom && !entry.preferredTo) return true;
+  const start = new Date(startAt);
+  const from = start.getHours() * 60 + start.getMinutes();
+  const to = from + Math.round((endAt - startAt) / 60000);
+  return (!entry.preferredFrom || from >= toMinutes(entry.preferredFrom))
+    && (!entry.preferredTo || to <= toMinutes(entry.preferredTo));
+};
+
+/**
+ * Waitlisted clients ranked for a free slot. A preferred day and time count
+ * most, then urgency, then how long the client has waited (capped at
+ * 60 days). Clients matching neither day nor time are left out.
+ */
+export const suggestForSlot = (state: AppState, startAt: number, endAt: number, now = Date.now()): SlotMatch[] =>
+  waitlistedClients(state)
+    .map(({ client, entry }) => {
+      const dayMatch = entry.preferredDays.length === 0 || entry.preferredDays.includes(new Date(startAt).getDay());
+      const timeMatch = fitsTime(entry, startAt, endAt);
+      const waitingDays = Math.max(0, differenceInCalendarDays(now, entry.addedAt));
+      const score = (dayMatch ? 40 : 0) + (timeMatch ? 40 : 0)
+        + URGENCY_ORDER.indexOf(entry.urgency) * 10
+        + Math.min(waitingDays, 60) / 6;
+      return { client, entry, score, dayMatch, timeMatch, waitingDays };
+    })
+    .filter(m => m.dayMatch || m.timeMatch)
+    .sort((a, b) => b.score - a.score);
+
+// Series ending this many days before or after today have their slot offered
+export const FREED_SLOT_DAYS = 28;
+
+export interface FreedSeriesSlot {
+  series: RecurringSeries;
+  endedAt: number; // Start of the series' last occurrence
+  startAt: number;
+  endAt: number;
+  matches: SlotMatch[];
+}
+
+const isTaken = (state: AppState, startAt: number, endAt: number) =>
+  getAppointmentsInRange(state, startAt, endAt).some(a => a.status !== AppointmentStatus.Canceled);
+
+/**
+ * Regular slots given up by series that end through COUNT or UNTIL, including
+ * series cut short by canceling or deleting "following" or "all" occurrences.
+ * Each is offered from its first future occurrence after the series ends,
+ * unless another appointment already took it. Series removed outright leave
+ * nothing to find here; the calendar offers their slot when they are removed.
+ */
+export const freedSeriesSlots = (state: AppState, now = Date.now()): FreedSeriesSlot[] =>
+  state.recurringSeries
+    .flatMap(series => {
+      const endedAt = lastOccurrenceOf(series);
+      if (endedAt === undefined || Math.abs(differenceInCalendarDays(endedAt, now)) > FREED_SLOT_DAYS) return [];
+      const startAt = nextSlotOf(series, Math.max(endedAt + 1, now));
+      if (startAt === undefined) return [];
+      const endAt = startAt + series.durationMin * 60 * 1000;
+      if (isTaken(state, startAt, endAt)) return [];
+      return [{ series, endedAt, startAt, endAt, matches: suggestForSlot(state, startAt, endAt, now) }];
+    })
+    .sort((a, b) => a.startAt - b.startAt);
+
+/**
+ * Books an intake appointment in the slot and moves the client to Active.
+ * The waitlist entry is kept so the original request stays on record.
+ */
+export const bookFromWaitlist = (state: AppState, clientId: string, startAt: number, endAt: number): AppState => {
+  const appointment: Appointment = {
+    id: uuid(),
+    clientId,
+    startAt,
+    endAt,
+    status: AppointmentStatus.Scheduled,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+  const booked = { ...state, appointments: [...state.appointments, appointment] };
+  return changeClientStatus(booked, clientId, ClientStatus.Active, { reason: '从等候名单预约初始访谈' });
+};